@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "CollaboratorRole" AS ENUM ('viewer', 'editor', 'co_owner');
+
+-- AlterTable
+-- Existing collaborators had full edit rights, so they keep editor access.
+ALTER TABLE "TripCollaborator" ADD COLUMN     "role" "CollaboratorRole" NOT NULL DEFAULT 'editor';
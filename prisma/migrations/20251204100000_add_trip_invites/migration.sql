@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "TripInvite" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "role" "CollaboratorRole" NOT NULL DEFAULT 'viewer',
+    "createdById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TripInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripInvite_tripId_idx" ON "TripInvite"("tripId");
+
+-- AddForeignKey
+ALTER TABLE "TripInvite" ADD CONSTRAINT "TripInvite_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
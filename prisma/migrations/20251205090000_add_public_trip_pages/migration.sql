@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN     "isPublic" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "shareSlug" TEXT;
+
+-- AlterTable
+ALTER TABLE "TripDay" ADD COLUMN     "notesPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN     "notesPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Trip_shareSlug_key" ON "Trip"("shareSlug");
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "AuditEntityType" AS ENUM ('trip', 'day', 'activity');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('create', 'update', 'move', 'delete');
+
+-- CreateTable
+CREATE TABLE "TripAuditEvent" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorEmail" TEXT NOT NULL,
+    "entityType" "AuditEntityType" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "summary" TEXT,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TripAuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TripAuditEvent_tripId_createdAt_idx" ON "TripAuditEvent"("tripId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TripAuditEvent_entityId_idx" ON "TripAuditEvent"("entityId");
+
+-- AddForeignKey
+ALTER TABLE "TripAuditEvent" ADD CONSTRAINT "TripAuditEvent_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'restore';
+
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "TripDay" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Trip_deletedAt_idx" ON "Trip"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "TripDay_deletedAt_idx" ON "TripDay"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Activity_deletedAt_idx" ON "Activity"("deletedAt");
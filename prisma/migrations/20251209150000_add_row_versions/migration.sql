@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "TripDay" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN     "isTemplate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "templateName" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Trip_userId_isTemplate_idx" ON "Trip"("userId", "isTemplate");
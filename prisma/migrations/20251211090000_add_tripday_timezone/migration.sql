@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TripDay" ADD COLUMN     "timezone" TEXT;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "TravelSegment" ADD COLUMN     "fromActivityId" TEXT,
+ADD COLUMN     "polyline" TEXT,
+ADD COLUMN     "summary" TEXT,
+ADD COLUMN     "toActivityId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "TravelSegment_fromActivityId_idx" ON "TravelSegment"("fromActivityId");
+
+-- CreateIndex
+CREATE INDEX "TravelSegment_toActivityId_idx" ON "TravelSegment"("toActivityId");
+
+-- AddForeignKey
+ALTER TABLE "TravelSegment" ADD CONSTRAINT "TravelSegment_fromActivityId_fkey" FOREIGN KEY ("fromActivityId") REFERENCES "Activity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TravelSegment" ADD CONSTRAINT "TravelSegment_toActivityId_fkey" FOREIGN KEY ("toActivityId") REFERENCES "Activity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
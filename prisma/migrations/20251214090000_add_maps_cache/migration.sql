@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "TravelSegment" ADD COLUMN     "routeKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "PlaceCache" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlaceCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TravelSegment_routeKey_cachedAt_idx" ON "TravelSegment"("routeKey", "cachedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlaceCache_key_key" ON "PlaceCache"("key");
+
+-- CreateIndex
+CREATE INDEX "PlaceCache_expiresAt_idx" ON "PlaceCache"("expiresAt");
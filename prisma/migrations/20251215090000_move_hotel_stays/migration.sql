@@ -0,0 +1,72 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'hotel';
+
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN     "checkIn" TIMESTAMP(3),
+ADD COLUMN     "checkOut" TIMESTAMP(3),
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- Existing hotel rows check in on their day and stay one night.
+UPDATE "Hotel" AS h
+SET "checkIn" = d."date", "checkOut" = d."date" + INTERVAL '1 day'
+FROM "TripDay" AS d
+WHERE d."id" = h."tripDayId";
+
+-- Hotel activities become hotel rows with the same id; trashed ones land in the trash as trashed stays. Their metadata (plus any notes) is kept; the typed
+-- fields are read from it when they hold the right JSON type. A multi-night stay was saved as one activity per
+-- night, each carrying `metadata.nights` and its `metadata.night`; only the first night becomes a stay. A stay
+-- lasts `metadata.nights` nights (at least one) unless its end falls on a later date than its start. The hotel form
+-- kept the cost in `budget`, not metadata: each per-night copy carried one night's cost, while a single activity's
+-- budget covered the whole stay and is spread over its nights.
+INSERT INTO "Hotel" (
+    "id", "tripDayId", "name", "providerId", "pricePerNight", "currency", "rating", "address", "latitude",
+    "longitude", "metadata", "checkIn", "checkOut", "deletedAt", "createdAt", "updatedAt"
+)
+SELECT
+    a."id",
+    a."tripDayId",
+    a."title",
+    CASE WHEN jsonb_typeof(a."metadata"->'hotelId') = 'string' THEN a."metadata"->>'hotelId' END,
+    CASE
+        WHEN jsonb_typeof(a."metadata"->'price') = 'number' THEN (a."metadata"->>'price')::DECIMAL(10,2)
+        WHEN a."budget" IS NULL THEN NULL
+        WHEN jsonb_typeof(a."metadata"->'night') = 'number' THEN a."budget"
+        ELSE ROUND(a."budget" / GREATEST(1,
+            CASE WHEN jsonb_typeof(a."metadata"->'nights') = 'number' THEN (a."metadata"->>'nights')::NUMERIC::INTEGER ELSE 1 END
+        ), 2)
+    END,
+    CASE WHEN jsonb_typeof(a."metadata"->'currency') = 'string' THEN a."metadata"->>'currency' ELSE 'USD' END,
+    CASE WHEN jsonb_typeof(a."metadata"->'reviewScore') = 'number' THEN (a."metadata"->>'reviewScore')::DOUBLE PRECISION END,
+    COALESCE(CASE WHEN jsonb_typeof(a."metadata"->'address') = 'string' THEN a."metadata"->>'address' END, a."location"),
+    CASE WHEN jsonb_typeof(a."metadata"->'lat') = 'number' THEN (a."metadata"->>'lat')::DOUBLE PRECISION END,
+    CASE WHEN jsonb_typeof(a."metadata"->'lng') = 'number' THEN (a."metadata"->>'lng')::DOUBLE PRECISION END,
+    CASE
+        WHEN a."description" IS NOT NULL THEN COALESCE(a."metadata", '{}'::JSONB) || jsonb_build_object('notes', a."description")
+        ELSE a."metadata"
+    END,
+    COALESCE(a."startTime", d."date"),
+    CASE
+        WHEN a."endTime" IS NOT NULL AND a."endTime"::DATE > COALESCE(a."startTime", d."date")::DATE THEN a."endTime"
+        ELSE COALESCE(a."startTime", d."date") + make_interval(days => GREATEST(1,
+            CASE WHEN jsonb_typeof(a."metadata"->'nights') = 'number' THEN (a."metadata"->>'nights')::NUMERIC::INTEGER ELSE 1 END
+        ))
+    END,
+    a."deletedAt",
+    a."createdAt",
+    CURRENT_TIMESTAMP
+FROM "Activity" AS a
+JOIN "TripDay" AS d ON d."id" = a."tripDayId"
+WHERE a."type" = 'hotel'
+    AND (jsonb_typeof(a."metadata"->'night') IS DISTINCT FROM 'number' OR (a."metadata"->>'night')::NUMERIC = 1);
+
+-- The moved activities and the later-night copies are removed (their travel legs cascade); the hotel rows keep
+-- their ids and metadata.
+DELETE FROM "Activity" WHERE "type" = 'hotel';
+
+-- CreateIndex
+CREATE INDEX "Hotel_deletedAt_idx" ON "Hotel"("deletedAt");
+
+-- AlterTable
+ALTER TABLE "Hotel" ALTER COLUMN "checkIn" SET NOT NULL,
+ALTER COLUMN "checkOut" SET NOT NULL;
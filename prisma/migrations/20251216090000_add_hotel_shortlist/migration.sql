@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'shortlist';
+
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN     "priceLevel" INTEGER;
+
+-- CreateTable
+CREATE TABLE "HotelShortlistEntry" (
+    "id" TEXT NOT NULL,
+    "tripId" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "providerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "rating" DOUBLE PRECISION,
+    "userRatingsTotal" INTEGER,
+    "priceLevel" INTEGER,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "mapsUrl" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HotelShortlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HotelShortlistEntry_tripId_idx" ON "HotelShortlistEntry"("tripId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HotelShortlistEntry_tripId_city_providerId_key" ON "HotelShortlistEntry"("tripId", "city", "providerId");
+
+-- AddForeignKey
+ALTER TABLE "HotelShortlistEntry" ADD CONSTRAINT "HotelShortlistEntry_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip"("id") ON DELETE CASCADE ON UPDATE CASCADE;
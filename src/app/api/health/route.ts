@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { serverEnv, isFirebaseClientConfigured } from "@/lib/env";
 import { isFirebaseConfigured } from "@/lib/firebase-admin";
+import { getHotelProviders } from "@/lib/hotels";
+import { mapsCacheStats } from "@/lib/maps-cache";
 
 export async function GET() {
   try {
@@ -16,6 +18,8 @@ export async function GET() {
       geminiConfigured: Boolean(serverEnv.GEMINI_API_KEY),
       firebaseConfigured: isFirebaseConfigured,
       firebaseClientConfigured: isFirebaseClientConfigured,
+      mapsCache: mapsCacheStats(),
+      hotelProviders: getHotelProviders().map((provider) => provider.name),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { inviteStatus, parseInviteToken, verifyInviteSignature } from "@/lib/invites";
+import { prisma } from "@/lib/prisma";
+import { hasTripRole, normalizeEmail, resolveTripRole } from "@/lib/trip-access";
+
+const bodySchema = z.object({
+  token: z.string().min(1),
+});
+
+const statusMessages = {
+  revoked: "This invite link has been revoked.",
+  expired: "This invite link has expired.",
+  used: "This invite link has already been used.",
+} as const;
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(request: Request) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json();
+    const parsed = bodySchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { inviteId, signature } = parseInviteToken(parsed.data.token);
+    const invite = await prisma.tripInvite.findUnique({
+      where: { id: inviteId },
+      include: { trip: { select: { id: true, title: true, userId: true, deletedAt: true } } },
+    });
+    if (!invite || invite.trip.deletedAt || !verifyInviteSignature(invite, signature)) {
+      return NextResponse.json({ error: "Invalid invite link." }, { status: 404 });
+    }
+
+    const email = normalizeEmail(account.email);
+    const existing = await prisma.tripCollaborator.findUnique({
+      where: { tripId_email: { tripId: invite.tripId, email } },
+    });
+    const currentRole = resolveTripRole({ userId: invite.trip.userId, collaborators: existing ? [existing] : [] }, account);
+
+    // People who already have at least this level of access should not burn a single-use link.
+    if (hasTripRole(currentRole, invite.role)) {
+      return NextResponse.json({ tripId: invite.tripId, title: invite.trip.title, role: currentRole, joined: false });
+    }
+
+    const status = inviteStatus(invite);
+    if (status !== "active") {
+      return NextResponse.json({ error: statusMessages[status] }, { status: 410 });
+    }
+
+    const collaborator = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.tripInvite.updateMany({
+        where: {
+          id: invite.id,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+          ...(invite.maxUses !== null ? { useCount: { lt: invite.maxUses } } : {}),
+        },
+        data: { useCount: { increment: 1 } },
+      });
+      if (!claimed.count) {
+        throw new AuthError(410, statusMessages.used);
+      }
+      return tx.tripCollaborator.upsert({
+        where: { tripId_email: { tripId: invite.tripId, email } },
+        update: { role: invite.role },
+        create: { tripId: invite.tripId, email, role: invite.role },
+      });
+    });
+
+    return NextResponse.json({
+      tripId: invite.tripId,
+      title: invite.trip.title,
+      role: collaborator.role,
+      joined: true,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error accepting invite", error);
+    return NextResponse.json({ error: "Failed to accept invite" }, { status: 500 });
+  }
+}
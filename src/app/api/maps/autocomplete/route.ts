@@ -1,20 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { serverEnv } from "@/lib/env";
-
-const GOOGLE_AUTOCOMPLETE_URL = "https://maps.googleapis.com/maps/api/place/autocomplete/json" as const;
-
-type Prediction = {
-  description: string;
-  place_id: string;
-  structured_formatting?: {
-    main_text: string;
-    secondary_text?: string;
-  };
-};
+import { getMapsProvider } from "@/lib/maps";
+import { normalizeCacheText, withPlaceCache } from "@/lib/maps-cache";
+import { MapsLookupError } from "@/lib/maps-provider";
 
 export async function GET(request: NextRequest) {
-  if (!serverEnv.GOOGLE_MAPS_API_KEY) {
+  const maps = getMapsProvider();
+  if (!maps) {
     return NextResponse.json({ error: "Google Maps is not configured." }, { status: 503 });
   }
 
@@ -26,33 +18,23 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ predictions: [] });
   }
 
-  const params = new URLSearchParams({
-    input: query,
-    types: searchParams.get("types")?.trim() || "(cities)",
-    key: serverEnv.GOOGLE_MAPS_API_KEY,
-  });
-  if (sessionToken) params.set("sessiontoken", sessionToken);
-  const locationBias = searchParams.get("locationbias")?.trim();
-  if (locationBias) params.set("locationbias", locationBias);
-
-  const response = await fetch(`${GOOGLE_AUTOCOMPLETE_URL}?${params.toString()}`, { cache: "no-store" });
-  if (!response.ok) {
-    console.error("Google autocomplete failed", await response.text());
-    return NextResponse.json({ error: "Failed to fetch suggestions." }, { status: 502 });
+  const types = searchParams.get("types")?.trim() || "(cities)";
+  const locationBias = searchParams.get("locationbias")?.trim() || undefined;
+  // Session tokens only group billing, so they stay out of the cache key.
+  const cacheKey = `${types}|${locationBias ?? ""}|${normalizeCacheText(query)}`;
+
+  try {
+    const predictions = await withPlaceCache(maps.name, "autocomplete", cacheKey, () =>
+      maps.autocomplete(query, { types, locationBias, sessionToken }),
+    );
+    return NextResponse.json({ predictions });
+  } catch (error) {
+    if (error instanceof MapsLookupError) {
+      return NextResponse.json(
+        error.status === 200 ? { predictions: [], error: error.message || undefined } : { error: error.message },
+        { status: error.status },
+      );
+    }
+    throw error;
   }
-
-  const data: { status: string; predictions: Prediction[]; error_message?: string } = await response.json();
-  if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
-    console.warn("Autocomplete status", data.status, data.error_message);
-    return NextResponse.json({ predictions: [], error: data.error_message }, { status: 200 });
-  }
-
-  const predictions = (data.predictions || []).map((prediction) => ({
-    placeId: prediction.place_id,
-    description: prediction.description,
-    primary: prediction.structured_formatting?.main_text || prediction.description,
-    secondary: prediction.structured_formatting?.secondary_text || "",
-  }));
-
-  return NextResponse.json({ predictions });
 }
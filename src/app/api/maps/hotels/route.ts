@@ -1,31 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { serverEnv } from "@/lib/env";
+import { getHotelProviders, searchHotels } from "@/lib/hotels";
+import { getMapsProvider } from "@/lib/maps";
+import { cachedGeocode, withPlaceCache } from "@/lib/maps-cache";
+import type { MapsProvider } from "@/lib/maps-provider";
 
-const GOOGLE_TEXT_SEARCH_URL = "https://maps.googleapis.com/maps/api/place/textsearch/json" as const;
-const GOOGLE_DETAILS_URL = "https://maps.googleapis.com/maps/api/place/details/json" as const;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SORTS = ["rating", "price", "distance"] as const;
 
-async function getPlaceLocation(placeId: string, apiKey: string) {
-  const params = new URLSearchParams({
-    place_id: placeId,
-    key: apiKey,
-    fields: "geometry/location,name,formatted_address",
-  });
-  const response = await fetch(`${GOOGLE_DETAILS_URL}?${params.toString()}`, { cache: "no-store" });
-  if (!response.ok) {
-    console.error("Google place details failed", await response.text());
-    return null;
-  }
-  const data = await response.json();
-  if (data.status !== "OK") return null;
-  const loc = data.result?.geometry?.location;
-  if (typeof loc?.lat !== "number" || typeof loc?.lng !== "number") return null;
-  return {
-    lat: loc.lat,
-    lng: loc.lng,
-    name: data.result?.name as string | undefined,
-    address: data.result?.formatted_address as string | undefined,
-  };
+async function getPlaceLocation(maps: MapsProvider, placeId: string) {
+  const place = await withPlaceCache(maps.name, "details", placeId, () => maps.placeDetails(placeId)).catch(
+    () => null,
+  );
+  const { lat, lng } = place?.location ?? {};
+  if (typeof lat !== "number" || typeof lng !== "number") return null;
+  return { lat, lng, name: place!.name, address: place!.address };
 }
 
 function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number) {
@@ -40,10 +29,14 @@ function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number)
   return R * c;
 }
 
+// Searches every configured hotel provider (see src/lib/hotels.ts). With `checkIn`/`checkOut` the results carry
+// nightly prices for those dates; `page` walks further results while `hasMore` is true, and `providers` reports
+// which sources answered, came from cache, or were rate limited.
 export async function GET(request: NextRequest) {
-  if (!serverEnv.GOOGLE_MAPS_API_KEY) {
-    return NextResponse.json({ error: "Google Maps is not configured." }, { status: 503 });
+  if (!getHotelProviders().length) {
+    return NextResponse.json({ error: "No hotel search provider is configured." }, { status: 503 });
   }
+  const maps = getMapsProvider();
 
   const { searchParams } = new URL(request.url);
   const city = searchParams.get("city")?.trim();
@@ -59,89 +52,94 @@ export async function GET(request: NextRequest) {
       ?.split(",")
       .map((val) => Number(val))
       .filter((val) => !Number.isNaN(val) && val >= 0 && val <= 4) || [];
+  const maxPrice = Number(searchParams.get("maxPrice") || "0") || 0;
+  const checkIn = searchParams.get("checkIn")?.trim() || null;
+  const checkOut = searchParams.get("checkOut")?.trim() || null;
+  const adults = Math.min(8, Math.max(1, Number.parseInt(searchParams.get("adults") || "1", 10) || 1));
+  const currency = (searchParams.get("currency") || "USD").trim().toUpperCase();
+  const page = Math.max(1, Number.parseInt(searchParams.get("page") || "1", 10) || 1);
+  const sortParam = searchParams.get("sort");
+  const sort = SORTS.find((value) => value === sortParam) ?? "rating";
   const textQuery = query || city;
 
   if (!textQuery) {
     return NextResponse.json({ hotels: [], error: "Missing city or query." }, { status: 400 });
   }
+  if ((checkIn || checkOut) && !(checkIn && checkOut && DATE_PATTERN.test(checkIn) && DATE_PATTERN.test(checkOut))) {
+    return NextResponse.json({ hotels: [], error: "Give both checkIn and checkOut as YYYY-MM-DD." }, { status: 400 });
+  }
+  if (checkIn && checkOut && checkOut <= checkIn) {
+    return NextResponse.json({ hotels: [], error: "Check-out must be after check-in." }, { status: 400 });
+  }
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return NextResponse.json({ hotels: [], error: "Currency must be a 3-letter code." }, { status: 400 });
+  }
 
   let anchor = anchorLat && anchorLng ? { lat: anchorLat, lng: anchorLng } : null;
-  if (!anchor && anchorPlaceId) {
-    anchor = await getPlaceLocation(anchorPlaceId, serverEnv.GOOGLE_MAPS_API_KEY);
+  if (!anchor && anchorPlaceId && maps) {
+    anchor = await getPlaceLocation(maps, anchorPlaceId);
   }
+  // Providers that search by coordinates (Amadeus) need the city's centre when no anchor was picked.
+  const center = anchor ?? (maps ? await cachedGeocode(maps, textQuery).catch(() => null) : null);
 
   const radiusMeters =
     radiusMiles > 0
       ? Math.min(50000, Math.round(radiusMiles * 1609.34))
       : anchor
       ? 16093 // default ~10 miles when anchoring without explicit radius
-      : undefined;
+      : null;
 
-  const params = new URLSearchParams({
-    query: anchor ? "hotels" : `hotels in ${textQuery}`,
-    key: serverEnv.GOOGLE_MAPS_API_KEY,
+  const result = await searchHotels({
+    city: textQuery,
+    center,
+    anchored: Boolean(anchor),
+    radiusMeters,
+    checkIn,
+    checkOut,
+    adults,
+    currency,
+    page,
   });
-  if (anchor) {
-    params.set("location", `${anchor.lat},${anchor.lng}`);
-    if (radiusMeters) params.set("radius", radiusMeters.toString());
-  }
 
-  const response = await fetch(`${GOOGLE_TEXT_SEARCH_URL}?${params.toString()}`, { cache: "no-store" });
-  if (!response.ok) {
-    console.error("Google textsearch failed", await response.text());
-    return NextResponse.json({ error: "Failed to search hotels." }, { status: 502 });
-  }
-
-  const data = await response.json();
-  if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
-    console.warn("Hotel textsearch status", data.status, data.error_message);
-    return NextResponse.json({ hotels: [], error: data.error_message || "No results" }, { status: 200 });
-  }
-
-  type PlaceResult = {
-    place_id: string;
-    name: string;
-    formatted_address?: string;
-    rating?: number;
-    user_ratings_total?: number;
-    price_level?: number;
-    geometry?: { location?: { lat?: number; lng?: number } };
-  };
-
-  const hotels = (data.results || [])
-    .map((result: PlaceResult) => {
-      const hotelLat = result.geometry?.location?.lat;
-      const hotelLng = result.geometry?.location?.lng;
-      const distanceMiles =
-        anchor && typeof hotelLat === "number" && typeof hotelLng === "number"
-          ? haversineMiles(anchor.lat, anchor.lng, hotelLat, hotelLng)
-          : null;
-      return {
-        id: result.place_id,
-        name: result.name,
-        address: result.formatted_address,
-        rating: result.rating,
-        userRatingsTotal: result.user_ratings_total,
-        priceLevel: result.price_level,
-        mapsUrl: `https://www.google.com/maps/place/?q=place_id:${result.place_id}`,
-        distanceMiles,
-        lat: hotelLat,
-        lng: hotelLng,
-      };
-    })
-    .filter((hotel: { rating?: number; priceLevel?: number }) => {
-      if (minRating > 0 && (hotel.rating || 0) < minRating) return false;
+  const hotels = result.hotels
+    .map((hotel) => ({
+      ...hotel,
+      address: hotel.address ?? undefined,
+      rating: hotel.rating ?? undefined,
+      userRatingsTotal: hotel.userRatingsTotal ?? undefined,
+      priceLevel: hotel.priceLevel ?? undefined,
+      mapsUrl: hotel.mapsUrl ?? undefined,
+      distanceMiles:
+        anchor && hotel.location
+          ? haversineMiles(anchor.lat, anchor.lng, hotel.location.lat, hotel.location.lng)
+          : null,
+      lat: hotel.location?.lat,
+      lng: hotel.location?.lng,
+    }))
+    .filter((hotel) => {
+      // Booking and Amadeus have no star ratings; their 0-10 guest score stands in at half scale.
+      const rating = hotel.rating ?? (hotel.reviewScore !== null ? hotel.reviewScore / 2 : 0);
+      if (minRating > 0 && rating < minRating) return false;
       if (priceLevels.length && hotel.priceLevel !== undefined && !priceLevels.includes(hotel.priceLevel)) return false;
+      // nightlyPrice only ever comes from a quote in the requested currency, so budgets and sorting compare like
+      // with like; hotels quoted only in other currencies have none and are kept.
+      if (maxPrice > 0 && hotel.nightlyPrice !== null && hotel.nightlyPrice > maxPrice) return false;
       return true;
     })
-    .sort(
-      (a: { rating?: number; distanceMiles?: number | null }, b: { rating?: number; distanceMiles?: number | null }) => {
-        const ratingDiff = (b.rating || 0) - (a.rating || 0);
-        if (Math.abs(ratingDiff) > 0.01) return ratingDiff;
-        if (a.distanceMiles != null && b.distanceMiles != null) return a.distanceMiles - b.distanceMiles;
-        return 0;
-      },
-    );
+    .sort((a, b) => {
+      if (sort === "price" && a.nightlyPrice !== b.nightlyPrice) {
+        if (a.nightlyPrice === null) return 1;
+        if (b.nightlyPrice === null) return -1;
+        return a.nightlyPrice - b.nightlyPrice;
+      }
+      if (sort === "distance" && a.distanceMiles != null && b.distanceMiles != null) {
+        return a.distanceMiles - b.distanceMiles;
+      }
+      const ratingDiff = (b.rating || 0) - (a.rating || 0);
+      if (Math.abs(ratingDiff) > 0.01) return ratingDiff;
+      if (a.distanceMiles != null && b.distanceMiles != null) return a.distanceMiles - b.distanceMiles;
+      return 0;
+    });
 
-  return NextResponse.json({ hotels });
+  return NextResponse.json({ hotels, page, hasMore: result.hasMore, providers: result.providers });
 }
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { serverEnv } from "@/lib/env";
-
-const GOOGLE_DETAILS_URL = "https://maps.googleapis.com/maps/api/place/details/json" as const;
+import { getMapsProvider } from "@/lib/maps";
+import { withPlaceCache } from "@/lib/maps-cache";
+import { MapsLookupError } from "@/lib/maps-provider";
 
 export async function GET(request: NextRequest) {
-  if (!serverEnv.GOOGLE_MAPS_API_KEY) {
+  const maps = getMapsProvider();
+  if (!maps) {
     return NextResponse.json({ error: "Google Maps is not configured." }, { status: 503 });
   }
 
@@ -15,32 +16,17 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Missing placeId." }, { status: 400 });
   }
 
-  const params = new URLSearchParams({
-    place_id: placeId,
-    key: serverEnv.GOOGLE_MAPS_API_KEY,
-    fields: "formatted_address,name,geometry/location,place_id",
-  });
-
-  const response = await fetch(`${GOOGLE_DETAILS_URL}?${params.toString()}`, { cache: "no-store" });
-  if (!response.ok) {
-    console.error("Google place details failed", await response.text());
-    return NextResponse.json({ error: "Failed to load place." }, { status: 502 });
+  try {
+    // `openingHours` is stored on activities for the opening-hours check.
+    const place = await withPlaceCache(maps.name, "details", placeId, () => maps.placeDetails(placeId));
+    if (!place) {
+      return NextResponse.json({ error: "No details." }, { status: 200 });
+    }
+    return NextResponse.json(place);
+  } catch (error) {
+    if (error instanceof MapsLookupError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
   }
-
-  const data = await response.json();
-  if (data.status !== "OK") {
-    console.warn("Place details status", data.status, data.error_message);
-    return NextResponse.json({ error: data.error_message || "No details." }, { status: 200 });
-  }
-
-  const result = data.result;
-  return NextResponse.json({
-    placeId: result.place_id,
-    name: result.name,
-    address: result.formatted_address,
-    location: {
-      lat: result.geometry?.location?.lat,
-      lng: result.geometry?.location?.lng,
-    },
-  });
 }
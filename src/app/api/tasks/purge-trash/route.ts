@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { serverEnv } from "@/lib/env";
+import { purgeExpiredTrash } from "@/lib/trash";
+
+export async function POST(request: Request) {
+  if (!serverEnv.CRON_SECRET) {
+    return NextResponse.json({ error: "Scheduled tasks are not configured." }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${serverEnv.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeExpiredTrash();
+    return NextResponse.json({ purged: result });
+  } catch (error) {
+    console.error("Error purging trash", error);
+    return NextResponse.json({ error: "Failed to purge trash" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function GET(request: Request) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const templates = await prisma.trip.findMany({
+      where: { userId: account.id, isTemplate: true, deletedAt: null },
+      orderBy: { updatedAt: "desc" },
+      include: {
+        days: {
+          where: { deletedAt: null },
+          orderBy: { date: "asc" },
+          select: { city: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      templates: templates.map((template) => ({
+        id: template.id,
+        name: template.templateName ?? template.title,
+        title: template.title,
+        description: template.description,
+        homeCity: template.homeCity,
+        dayCount: template.days.length,
+        cities: template.days
+          .map((day) => day.city)
+          .filter((city, index, cities) => cities.indexOf(city) === index),
+        updatedAt: template.updatedAt,
+      })),
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error fetching templates", error);
+    return NextResponse.json({ error: "Failed to load templates." }, { status: 500 });
+  }
+}
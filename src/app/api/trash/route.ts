@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { purgeAfter } from "@/lib/trash";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Only owners can restore a trip, so the trash lists the caller's own deleted trips.
+export async function GET(request: Request) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const trips = await prisma.trip.findMany({
+      where: { userId: account.id, deletedAt: { not: null } },
+      orderBy: { deletedAt: "desc" },
+      select: { id: true, title: true, startDate: true, endDate: true, deletedAt: true },
+    });
+
+    return NextResponse.json({
+      trips: trips.map((trip) => ({ ...trip, purgeAfter: trip.deletedAt ? purgeAfter(trip.deletedAt) : null })),
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error loading trash", error);
+    return NextResponse.json({ error: "Failed to load trash" }, { status: 500 });
+  }
+}
@@ -0,0 +1,277 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Activity, Prisma, TripDay } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { ACTIVITY_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { ignoreStaleWrite } from "@/lib/concurrency";
+import {
+  createActivitySchema,
+  prepareActivityCreate,
+  prepareActivityUpdate,
+  updateActivitySchema,
+} from "@/lib/activity-writes";
+import { refreshTravelLegs } from "@/lib/travel-legs";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const MAX_BATCH_OPERATIONS = 100;
+// The writes run one after another inside the transaction; Prisma's default 5 s would roll back a full batch.
+const BATCH_TRANSACTION_TIMEOUT_MS = 30_000;
+
+// `version` is the optimistic-concurrency check for existing activities (the batch equivalent of If-Match).
+const operationSchema = z.discriminatedUnion("op", [
+  createActivitySchema.extend({ op: z.literal("create"), dayId: z.string().min(1) }),
+  updateActivitySchema
+    .omit({ dayId: true })
+    .extend({ op: z.literal("update"), activityId: z.string().min(1), version: z.number().int().optional() }),
+  z.object({
+    op: z.literal("move"),
+    activityId: z.string().min(1),
+    dayId: z.string().min(1),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    version: z.number().int().optional(),
+  }),
+  z.object({ op: z.literal("delete"), activityId: z.string().min(1), version: z.number().int().optional() }),
+]);
+
+const batchSchema = z.object({
+  operations: z.array(operationSchema).min(1).max(MAX_BATCH_OPERATIONS),
+});
+
+type BatchOperation = z.infer<typeof operationSchema>;
+
+type BatchResult = {
+  index: number;
+  op: BatchOperation["op"];
+  status: "created" | "updated" | "moved" | "deleted" | "failed" | "skipped";
+  activity?: Activity;
+  activityId?: string;
+  error?: string;
+};
+
+type PlannedWrite =
+  | { op: "create"; data: Prisma.ActivityUncheckedCreateInput }
+  | { op: "update" | "move"; existing: Activity & { tripDay: TripDay }; data: Prisma.ActivityUncheckedUpdateInput }
+  | { op: "delete"; existing: Activity & { tripDay: TripDay } };
+
+// Thrown inside the transaction to roll the whole batch back and report which operation failed.
+class BatchOperationError extends Error {
+  constructor(
+    readonly index: number,
+    readonly status: number,
+    message: string,
+    readonly current?: Activity | null,
+  ) {
+    super(message);
+  }
+}
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+function failedBatch(operations: BatchOperation[], failure: BatchOperationError) {
+  const results: BatchResult[] = operations.map((operation, index) =>
+    index === failure.index
+      ? {
+          index,
+          op: operation.op,
+          status: "failed",
+          activityId: operation.op === "create" ? undefined : operation.activityId,
+          error: failure.message,
+          ...(failure.current ? { activity: failure.current } : {}),
+        }
+      : { index, op: operation.op, status: "skipped" },
+  );
+  return NextResponse.json({ error: failure.message, failedIndex: failure.index, results }, { status: failure.status });
+}
+
+// Applies create/update/move/delete operations to a trip's activities in one transaction: either every operation
+// lands or none do. Inputs and travel lookups are prepared up front so the transaction itself only writes.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json();
+    const parsed = batchSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+    const { operations } = parsed.data;
+
+    const activityIds = operations.flatMap((operation) => (operation.op === "create" ? [] : [operation.activityId]));
+    if (new Set(activityIds).size !== activityIds.length) {
+      return NextResponse.json({ error: "Each activity can appear only once per batch." }, { status: 400 });
+    }
+
+    const [days, activities] = await Promise.all([
+      prisma.tripDay.findMany({ where: { tripId, deletedAt: null } }),
+      prisma.activity.findMany({
+        where: { id: { in: activityIds }, deletedAt: null, tripDay: { tripId, deletedAt: null } },
+        include: { tripDay: true },
+      }),
+    ]);
+    const daysById = new Map(days.map((day) => [day.id, day]));
+    const activitiesById = new Map(activities.map((activity) => [activity.id, activity]));
+
+    const planned: PlannedWrite[] = [];
+    try {
+      for (const [index, operation] of operations.entries()) {
+        if (operation.op === "create") {
+          const day = daysById.get(operation.dayId);
+          if (!day) throw new BatchOperationError(index, 404, "Day not found");
+          const prepared = await prepareActivityCreate(day, operation);
+          if (prepared.error !== undefined) throw new BatchOperationError(index, 400, prepared.error);
+          planned.push({ op: "create", data: prepared.data });
+          continue;
+        }
+
+        const existing = activitiesById.get(operation.activityId);
+        if (!existing) throw new BatchOperationError(index, 404, "Activity not found");
+        if (operation.version !== undefined && operation.version !== existing.version) {
+          throw new BatchOperationError(
+            index,
+            409,
+            "This activity was changed by someone else. Review the latest version and try again.",
+            existing,
+          );
+        }
+
+        if (operation.op === "delete") {
+          planned.push({ op: "delete", existing });
+          continue;
+        }
+
+        const targetDay = operation.op === "move" ? daysById.get(operation.dayId) : existing.tripDay;
+        if (!targetDay) throw new BatchOperationError(index, 404, "Target day not found");
+        const input =
+          operation.op === "move"
+            ? { startTime: operation.startTime, endTime: operation.endTime, endDate: operation.endDate }
+            : operation;
+        const prepared = await prepareActivityUpdate(existing, targetDay, input);
+        if (prepared.error !== undefined) throw new BatchOperationError(index, 400, prepared.error);
+        planned.push({ op: operation.op, existing, data: prepared.data });
+      }
+    } catch (error) {
+      if (error instanceof BatchOperationError) return failedBatch(operations, error);
+      throw error;
+    }
+
+    let results: BatchResult[];
+    try {
+      results = await prisma.$transaction(
+        async (tx) => {
+          const applied: BatchResult[] = [];
+          for (const [index, write] of planned.entries()) {
+            if (write.op === "create") {
+              const activity = await tx.activity.create({ data: write.data });
+              applied.push({ index, op: "create", status: "created", activity, activityId: activity.id });
+              continue;
+            }
+            const { existing } = write;
+            const activity = await tx.activity
+              .update({
+                where: { id: existing.id, version: existing.version },
+                data:
+                  write.op === "delete" ? { deletedAt: new Date(), version: { increment: 1 } } : write.data,
+              })
+              .catch(ignoreStaleWrite);
+            if (!activity) {
+              throw new BatchOperationError(
+                index,
+                409,
+                "This activity was changed by someone else. Review the latest version and try again.",
+                await tx.activity.findUnique({ where: { id: existing.id } }),
+              );
+            }
+            applied.push({
+              index,
+              op: write.op,
+              status: write.op === "delete" ? "deleted" : write.op === "move" ? "moved" : "updated",
+              activity,
+              activityId: activity.id,
+            });
+          }
+          return applied;
+        },
+        { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+      );
+    } catch (error) {
+      if (error instanceof BatchOperationError) return failedBatch(operations, error);
+      throw error;
+    }
+
+    // Audit after commit so a rolled-back batch never shows up in history or on live dashboards.
+    for (const result of results) {
+      const write = planned[result.index];
+      const activity = result.activity!;
+      if (write.op === "create") {
+        await recordTripEvent({
+          tripId,
+          actor: account,
+          entityType: "activity",
+          entityId: activity.id,
+          action: "create",
+          summary: `Added "${activity.title}"`,
+          after: activity,
+          fields: ACTIVITY_AUDIT_FIELDS,
+        });
+      } else if (write.op === "delete") {
+        await recordTripEvent({
+          tripId,
+          actor: account,
+          entityType: "activity",
+          entityId: activity.id,
+          action: "delete",
+          summary: `Removed "${write.existing.title}"`,
+          before: write.existing,
+          fields: ACTIVITY_AUDIT_FIELDS,
+        });
+      } else {
+        const moved = activity.tripDayId !== write.existing.tripDayId;
+        const targetDay = daysById.get(activity.tripDayId);
+        await recordTripEvent({
+          tripId,
+          actor: account,
+          entityType: "activity",
+          entityId: activity.id,
+          action: moved ? "move" : "update",
+          summary:
+            moved && targetDay
+              ? `Moved "${activity.title}" to ${targetDay.city} on ${targetDay.date.toISOString().slice(0, 10)}`
+              : `Updated "${activity.title}"`,
+          before: write.existing,
+          after: activity,
+          fields: ACTIVITY_AUDIT_FIELDS,
+        });
+      }
+    }
+
+    const touchedDayIds = planned.flatMap((write, index) => [
+      write.op === "create" ? null : write.existing.tripDayId,
+      results[index].activity?.tripDayId,
+    ]);
+    const travelLegs = await refreshTravelLegs(touchedDayIds);
+
+    return NextResponse.json({ results, travelLegs });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error applying activity batch", error);
+    return NextResponse.json({ error: "Failed to apply activity changes." }, { status: 500 });
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import {
+  applyCityRoutePlan,
+  CityRoutePlanError,
+  MAX_PLANNED_CITIES,
+  planCityRoute,
+} from "@/lib/city-route-planner";
+import { readExpectedVersion, versionConflict, versionHeaders } from "@/lib/concurrency";
+import { prisma } from "@/lib/prisma";
+import { TRAVEL_MODES } from "@/lib/travel";
+import { requireTripAccess } from "@/lib/trip-access";
+import { TRIP_DAYS_TRANSACTION_TIMEOUT_MS } from "@/lib/trip-days";
+
+const cityRouteSchema = z.object({
+  cities: z
+    .array(
+      z.object({
+        city: z.string().min(1),
+        placeId: z.string().nullable().optional(),
+        lat: z.number().nullable().optional(),
+        lng: z.number().nullable().optional(),
+        nights: z.number().int().min(1).max(60).optional(),
+      }),
+    )
+    .min(1)
+    .max(MAX_PLANNED_CITIES),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  keepOrder: z.boolean().optional(),
+  mode: z.enum(TRAVEL_MODES).optional(),
+  // Without `apply` the plan is only previewed.
+  apply: z.boolean().optional(),
+  replaceExisting: z.boolean().optional(),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Suggests a city order and nights per city for a date window and, with `apply`, creates the days and the
+// inter-city legs in one transaction. The plan is recomputed on apply, so what gets written matches the
+// preview for the same input.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json();
+    const parsed = cityRouteSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { tripId } = await context.params;
+    const { trip, role } = await requireTripAccess(account, tripId, "editor");
+
+    const { cities, startDate, endDate, keepOrder, mode, apply, replaceExisting } = parsed.data;
+    const plan = await planCityRoute({
+      cities,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      origin: trip.homeCity,
+      keepOrder,
+      mode,
+    });
+    if (!apply) {
+      return NextResponse.json({ plan });
+    }
+
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion !== null && expectedVersion !== trip.version) {
+      return versionConflict("trip", trip);
+    }
+
+    const result = await prisma.$transaction(
+      (tx) => applyCityRoutePlan(tx, trip, plan, Boolean(replaceExisting)),
+      { timeout: TRIP_DAYS_TRANSACTION_TIMEOUT_MS },
+    );
+    if (!result) {
+      return versionConflict("trip", await prisma.trip.findUnique({ where: { id: tripId } }));
+    }
+    if (result.conflicts.length) {
+      return NextResponse.json(
+        { error: "The trip already has days in this window.", conflicts: result.conflicts, plan },
+        { status: 409 },
+      );
+    }
+
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "trip",
+      entityId: tripId,
+      action: "update",
+      summary: `Planned ${plan.stops.map((stop) => stop.city).join(" → ")} (${result.created.length} days added${
+        result.trashed.length ? `, ${result.trashed.length} moved to trash` : ""
+      })`,
+      before: trip,
+      after: result.trip,
+      fields: ["startDate", "endDate"],
+    });
+
+    const withDays = await prisma.trip.findUniqueOrThrow({
+      where: { id: tripId },
+      include: {
+        collaborators: true,
+        days: {
+          where: { deletedAt: null },
+          orderBy: { date: "asc" },
+          include: {
+            activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+            travelSegments: true,
+            hotels: { where: { deletedAt: null } },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ plan, trip: { ...withDays, role } }, { headers: versionHeaders(withDays.version) });
+  } catch (error) {
+    if (error instanceof CityRoutePlanError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error planning city route", error);
+    return NextResponse.json({ error: "Failed to plan route" }, { status: 500 });
+  }
+}
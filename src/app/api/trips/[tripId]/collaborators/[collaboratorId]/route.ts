@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { disconnectTripAccount } from "@/lib/realtime";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const updateSchema = z.object({
+  role: z.enum(["viewer", "editor", "co_owner"]),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+async function findCollaborator(tripId: string, collaboratorId: string) {
+  const collaborator = await prisma.tripCollaborator.findFirst({
+    where: { id: collaboratorId, tripId },
+  });
+  if (!collaborator) {
+    throw new AuthError(404, "Collaborator not found");
+  }
+  return collaborator;
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ tripId: string; collaboratorId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, collaboratorId } = await context.params;
+    const json = await request.json();
+    const parsed = updateSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    await requireTripAccess(account, tripId, "co_owner");
+    await findCollaborator(tripId, collaboratorId);
+
+    const collaborator = await prisma.tripCollaborator.update({
+      where: { id: collaboratorId },
+      data: { role: parsed.data.role },
+    });
+
+    return NextResponse.json({ collaborator });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error updating collaborator", error);
+    return NextResponse.json({ error: "Failed to update collaborator" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ tripId: string; collaboratorId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, collaboratorId } = await context.params;
+
+    await requireTripAccess(account, tripId, "co_owner");
+    const collaborator = await findCollaborator(tripId, collaboratorId);
+
+    await prisma.tripCollaborator.delete({ where: { id: collaboratorId } });
+    disconnectTripAccount(tripId, collaborator.email);
+
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error removing collaborator", error);
+    return NextResponse.json({ error: "Failed to remove collaborator" }, { status: 500 });
+  }
+}
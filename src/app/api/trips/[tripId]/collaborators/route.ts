@@ -3,8 +3,12 @@ import { z } from "zod";
 
 import { authenticateRequest, AuthError } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { normalizeEmail, requireTripAccess } from "@/lib/trip-access";
 
-const bodySchema = z.object({ email: z.string().email() });
+const bodySchema = z.object({
+  email: z.string().email(),
+  role: z.enum(["viewer", "editor", "co_owner"]).optional(),
+});
 
 function handleAuthError(error: unknown) {
   if (error instanceof AuthError) {
@@ -13,6 +17,54 @@ function handleAuthError(error: unknown) {
   return null;
 }
 
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const { trip, role } = await requireTripAccess(account, tripId, "viewer");
+
+    const [owner, collaborators] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: trip.userId },
+        select: { id: true, email: true, displayName: true },
+      }),
+      prisma.tripCollaborator.findMany({
+        where: { tripId },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    // A collaborator is "active" once someone has signed in with the invited email; until then the
+    // invite is still pending.
+    const accounts = await prisma.user.findMany({
+      where: { email: { in: collaborators.map((collaborator) => collaborator.email) } },
+      select: { email: true, displayName: true },
+    });
+    const accountsByEmail = new Map(accounts.map((entry) => [normalizeEmail(entry.email), entry]));
+
+    return NextResponse.json({
+      role,
+      owner,
+      collaborators: collaborators.map((collaborator) => {
+        const match = accountsByEmail.get(normalizeEmail(collaborator.email));
+        return {
+          ...collaborator,
+          displayName: match?.displayName ?? null,
+          status: match ? "active" : "pending",
+        };
+      }),
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error listing collaborators", error);
+    return NextResponse.json({ error: "Failed to load collaborators" }, { status: 500 });
+  }
+}
+
 export async function POST(
   request: Request,
   context: { params: Promise<{ tripId: string }> },
@@ -26,18 +78,20 @@ export async function POST(
       return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
     }
 
-    const trip = await prisma.trip.findUnique({ where: { id: tripId } });
-    if (!trip || trip.userId !== account.id) {
-      return NextResponse.json({ error: "Trip not found or not owned" }, { status: 404 });
-    }
+    const { trip } = await requireTripAccess(account, tripId, "co_owner");
 
-    await prisma.tripCollaborator.upsert({
-      where: { tripId_email: { tripId, email: parsed.data.email.toLowerCase() } },
-      update: {},
-      create: { tripId, email: parsed.data.email.toLowerCase() },
+    const email = normalizeEmail(parsed.data.email);
+    const owner = await prisma.user.findUnique({ where: { id: trip.userId }, select: { email: true } });
+    if (owner && normalizeEmail(owner.email) === email) {
+      return NextResponse.json({ error: "The trip owner already has full access." }, { status: 400 });
+    }
+    const collaborator = await prisma.tripCollaborator.upsert({
+      where: { tripId_email: { tripId, email } },
+      update: parsed.data.role ? { role: parsed.data.role } : {},
+      create: { tripId, email, role: parsed.data.role ?? "editor" },
     });
 
-    return NextResponse.json({ added: true });
+    return NextResponse.json({ added: true, collaborator });
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
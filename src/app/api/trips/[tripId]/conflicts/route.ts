@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { findScheduleConflicts, travelSecondsFromLegs } from "@/lib/schedule-conflicts";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Every scheduling warning on the trip. Only stored travel legs are used here, so loading the dashboards view
+// never fans out into Directions calls.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "viewer");
+
+    const days = await prisma.tripDay.findMany({
+      where: { tripId, deletedAt: null },
+      orderBy: { date: "asc" },
+      include: { activities: { where: { deletedAt: null } }, travelSegments: true },
+    });
+
+    const conflicts = days.flatMap((day) =>
+      findScheduleConflicts(day.activities, day.timezone, travelSecondsFromLegs(day.travelSegments)),
+    );
+    return NextResponse.json({ conflicts });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error loading schedule conflicts", error);
+    return NextResponse.json({ error: "Failed to load schedule conflicts" }, { status: 500 });
+  }
+}
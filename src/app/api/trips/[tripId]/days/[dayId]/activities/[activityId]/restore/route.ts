@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { refreshTravelLegs } from "@/lib/travel-legs";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string; dayId: string; activityId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, dayId, activityId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const activity = await prisma.activity.findFirst({
+      where: { id: activityId, tripDayId: dayId, deletedAt: { not: null }, tripDay: { tripId } },
+      include: { tripDay: true },
+    });
+    if (!activity) {
+      return NextResponse.json({ error: "Activity not found in the trash" }, { status: 404 });
+    }
+    if (activity.tripDay.deletedAt) {
+      return NextResponse.json({ error: "Restore the day this activity belongs to first." }, { status: 409 });
+    }
+
+    const restored = await prisma.activity.update({ where: { id: activityId }, data: { deletedAt: null } });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "activity",
+      entityId: activityId,
+      action: "restore",
+      summary: `Restored "${restored.title}"`,
+    });
+
+    const travelLegs = await refreshTravelLegs([dayId]);
+    return NextResponse.json({ activity: restored, travelLegs });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error restoring activity", error);
+    return NextResponse.json({ error: "Failed to restore activity" }, { status: 500 });
+  }
+}
@@ -1,22 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 
 import { prisma } from "@/lib/prisma";
 import { authenticateRequest, AuthError } from "@/lib/auth";
-import { fetchTravelMetadata } from "@/lib/travel";
-
-const updateActivitySchema = z.object({
-  title: z.string().min(1).optional(),
-  notes: z.string().optional(),
-  startTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-  endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-  dayId: z.string().min(1).optional(),
-  location: z.string().optional(),
-  startLocation: z.string().optional(),
-  type: z.string().min(1).optional(),
-  metadata: z.record(z.string(), z.any()).optional(),
-  budget: z.coerce.number().nonnegative().optional(),
-});
+import { ACTIVITY_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { ignoreStaleWrite, readExpectedVersion, versionConflict, versionHeaders } from "@/lib/concurrency";
+import { prepareActivityUpdate, updateActivitySchema } from "@/lib/activity-writes";
+import { validateActivitySchedule } from "@/lib/schedule-conflicts";
+import { refreshTravelLegs } from "@/lib/travel-legs";
+import { requireTripAccess } from "@/lib/trip-access";
 
 function handleAuthError(error: unknown) {
   if (error instanceof AuthError) {
@@ -25,34 +16,13 @@ function handleAuthError(error: unknown) {
   return null;
 }
 
-function combineDateWithTime(dateValue: string | Date, time: string) {
-  const [hours, minutes] = time.split(":").map((value) => Number.parseInt(value, 10));
-  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
-    return null;
-  }
-  const base = new Date(dateValue);
-  if (Number.isNaN(base.valueOf())) {
-    return null;
-  }
-  const datePart = base.toISOString().split("T")[0];
-  const candidate = new Date(`${datePart}T${time}:00`);
-  return Number.isNaN(candidate.valueOf()) ? null : candidate;
-}
-
-async function assertOwnership(
-  userId: string,
-  tripId: string,
-  dayId: string,
-  activityId: string,
-) {
+async function findActivity(tripId: string, dayId: string, activityId: string) {
   return prisma.activity.findFirst({
     where: {
       id: activityId,
       tripDayId: dayId,
-      tripDay: {
-        tripId,
-        trip: { userId },
-      },
+      deletedAt: null,
+      tripDay: { tripId, deletedAt: null },
     },
     include: {
       tripDay: true,
@@ -60,11 +30,6 @@ async function assertOwnership(
   });
 }
 
-function extractTimeString(value?: Date | null) {
-  if (!value) return null;
-  return value.toISOString().slice(11, 16);
-}
-
 export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ tripId: string; dayId: string; activityId: string }> },
@@ -81,15 +46,20 @@ export async function PATCH(
     }
 
     const { tripId, dayId, activityId } = await context.params;
-    const existing = await assertOwnership(account.id, tripId, dayId, activityId);
+    await requireTripAccess(account, tripId, "editor");
+    const existing = await findActivity(tripId, dayId, activityId);
     if (!existing) {
       return NextResponse.json({ error: "Activity not found" }, { status: 404 });
     }
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion !== null && expectedVersion !== existing.version) {
+      return versionConflict("activity", await prisma.activity.findUnique({ where: { id: activityId } }));
+    }
 
     let targetDay = existing.tripDay;
     if (parsed.data.dayId && parsed.data.dayId !== existing.tripDayId) {
       const destination = await prisma.tripDay.findFirst({
-        where: { id: parsed.data.dayId, tripId, trip: { userId: account.id } },
+        where: { id: parsed.data.dayId, tripId, deletedAt: null },
       });
       if (!destination) {
         return NextResponse.json({ error: "Target day not found" }, { status: 404 });
@@ -97,64 +67,37 @@ export async function PATCH(
       targetDay = destination;
     }
 
-    const updates: Record<string, unknown> = {};
-    if (parsed.data.title !== undefined) updates.title = parsed.data.title;
-    if (parsed.data.notes !== undefined) updates.description = parsed.data.notes;
-    if (parsed.data.location !== undefined) updates.location = parsed.data.location || null;
-    if (parsed.data.startLocation !== undefined) updates.startLocation = parsed.data.startLocation || null;
-    if (parsed.data.type !== undefined) updates.type = parsed.data.type || null;
-    if (parsed.data.metadata !== undefined) updates.metadata = parsed.data.metadata ?? undefined;
-    if (parsed.data.budget !== undefined) updates.budget = parsed.data.budget ?? null;
-
-    if (parsed.data.startTime) {
-      const value = combineDateWithTime(targetDay.date, parsed.data.startTime);
-      if (!value) return NextResponse.json({ error: "Invalid start time" }, { status: 400 });
-      updates.startTime = value;
-    } else if (parsed.data.dayId && parsed.data.dayId !== existing.tripDayId && existing.startTime) {
-      const current = extractTimeString(existing.startTime);
-      const value = current ? combineDateWithTime(targetDay.date, current) : null;
-      if (value) updates.startTime = value;
+    const prepared = await prepareActivityUpdate(existing, targetDay, parsed.data);
+    if (prepared.error !== undefined) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 });
     }
 
-    if (parsed.data.endTime) {
-      const value = combineDateWithTime(targetDay.date, parsed.data.endTime);
-      if (!value) return NextResponse.json({ error: "Invalid end time" }, { status: 400 });
-      updates.endTime = value;
-    } else if (parsed.data.dayId && parsed.data.dayId !== existing.tripDayId && existing.endTime) {
-      const current = extractTimeString(existing.endTime);
-      const value = current ? combineDateWithTime(targetDay.date, current) : null;
-      if (value) updates.endTime = value;
+    const updated = await prisma.activity
+      .update({ where: { id: activityId, version: existing.version }, data: prepared.data })
+      .catch(ignoreStaleWrite);
+    if (!updated) {
+      return versionConflict("activity", await prisma.activity.findUnique({ where: { id: activityId } }));
     }
-
-    if (updates.endTime && updates.startTime && updates.endTime < updates.startTime) {
-      updates.endTime = new Date((updates.startTime as Date).getTime() + 60 * 60 * 1000);
-    }
-
-    const nextStartLocation =
-      parsed.data.startLocation !== undefined ? parsed.data.startLocation : existing.startLocation;
-    const nextLocation = parsed.data.location !== undefined ? parsed.data.location : existing.location;
-
-    if (parsed.data.startLocation !== undefined || parsed.data.location !== undefined) {
-      if (nextStartLocation && nextLocation) {
-        const travel = await fetchTravelMetadata(nextStartLocation, nextLocation);
-        updates.travelDistanceMeters = travel?.distanceMeters ?? null;
-        updates.travelDurationSeconds = travel?.durationSeconds ?? null;
-        updates.travelSummary = travel?.summary ?? null;
-        updates.travelPolyline = travel?.polyline ?? null;
-      } else {
-        updates.travelDistanceMeters = null;
-        updates.travelDurationSeconds = null;
-        updates.travelSummary = null;
-        updates.travelPolyline = null;
-      }
-    }
-
-    if (targetDay.id !== existing.tripDayId) {
-      updates.tripDayId = targetDay.id;
-    }
-
-    const updated = await prisma.activity.update({ where: { id: activityId }, data: updates });
-    return NextResponse.json({ activity: updated });
+    const moved = updated.tripDayId !== existing.tripDayId;
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "activity",
+      entityId: activityId,
+      action: moved ? "move" : "update",
+      summary: moved
+        ? `Moved "${updated.title}" to ${targetDay.city} on ${targetDay.date.toISOString().slice(0, 10)}`
+        : `Updated "${updated.title}"`,
+      before: existing,
+      after: updated,
+      fields: ACTIVITY_AUDIT_FIELDS,
+    });
+    const travelLegs = await refreshTravelLegs([existing.tripDayId, updated.tripDayId]);
+    const warnings = await validateActivitySchedule(updated.tripDayId, activityId);
+    return NextResponse.json(
+      { activity: updated, warnings, travelLegs },
+      { headers: versionHeaders(updated.version) },
+    );
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
@@ -170,13 +113,25 @@ export async function DELETE(
   try {
     const { account } = await authenticateRequest(request);
     const { tripId, dayId, activityId } = await context.params;
-    const existing = await assertOwnership(account.id, tripId, dayId, activityId);
+    await requireTripAccess(account, tripId, "editor");
+    const existing = await findActivity(tripId, dayId, activityId);
     if (!existing) {
       return NextResponse.json({ error: "Activity not found" }, { status: 404 });
     }
 
-    await prisma.activity.delete({ where: { id: activityId } });
-    return NextResponse.json({ success: true });
+    await prisma.activity.update({ where: { id: activityId }, data: { deletedAt: new Date() } });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "activity",
+      entityId: activityId,
+      action: "delete",
+      summary: `Removed "${existing.title}"`,
+      before: existing,
+      fields: ACTIVITY_AUDIT_FIELDS,
+    });
+    const travelLegs = await refreshTravelLegs([dayId]);
+    return NextResponse.json({ success: true, travelLegs });
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
@@ -1,21 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 
 import { prisma } from "@/lib/prisma";
 import { authenticateRequest, AuthError } from "@/lib/auth";
-import { fetchTravelMetadata } from "@/lib/travel";
-
-const createActivitySchema = z.object({
-  title: z.string().min(1),
-  startTime: z.string().regex(/^\d{2}:\d{2}$/),
-  endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-  notes: z.string().optional(),
-  location: z.string().optional(),
-  startLocation: z.string().optional(),
-  type: z.string().min(1).optional(),
-  metadata: z.record(z.string(), z.any()).optional(),
-  budget: z.coerce.number().nonnegative().optional(),
-});
+import { ACTIVITY_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { createActivitySchema, prepareActivityCreate } from "@/lib/activity-writes";
+import { validateActivitySchedule } from "@/lib/schedule-conflicts";
+import { refreshTravelLegs } from "@/lib/travel-legs";
+import { requireTripAccess } from "@/lib/trip-access";
 
 function handleAuthError(error: unknown) {
   if (error instanceof AuthError) {
@@ -24,20 +15,6 @@ function handleAuthError(error: unknown) {
   return null;
 }
 
-function combineDateWithTime(dateValue: string | Date, time: string) {
-  const [hours, minutes] = time.split(":" ).map((value) => Number.parseInt(value, 10));
-  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
-    return null;
-  }
-  const base = new Date(dateValue);
-  if (Number.isNaN(base.valueOf())) {
-    return null;
-  }
-  const datePart = base.toISOString().split("T")[0];
-  const candidate = new Date(`${datePart}T${time}:00`);
-  return Number.isNaN(candidate.valueOf()) ? null : candidate;
-}
-
 export async function POST(
   request: NextRequest,
   context: { params: Promise<{ tripId: string; dayId: string }> },
@@ -54,59 +31,34 @@ export async function POST(
     }
 
     const { tripId, dayId } = await context.params;
-    const day = await prisma.tripDay.findFirst({
-      where: {
-        id: dayId,
-        tripId,
-        trip: {
-          OR: [
-            { userId: account.id },
-            account.email ? { collaborators: { some: { email: account.email } } } : undefined,
-          ].filter(Boolean) as [{ userId: string } | { collaborators: { some: { email: string } } }],
-        },
-      },
-    });
+    await requireTripAccess(account, tripId, "editor");
+    const day = await prisma.tripDay.findFirst({ where: { id: dayId, tripId, deletedAt: null } });
 
     if (!day) {
       return NextResponse.json({ error: "Day not found" }, { status: 404 });
     }
 
-    const startTime = combineDateWithTime(day.date, parsed.data.startTime);
-    if (!startTime) {
-      return NextResponse.json({ error: "Invalid start time." }, { status: 400 });
+    const prepared = await prepareActivityCreate(day, parsed.data);
+    if (prepared.error !== undefined) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 });
     }
 
-    let endTime = parsed.data.endTime ? combineDateWithTime(day.date, parsed.data.endTime) : null;
-    if (parsed.data.endTime && !endTime) {
-      return NextResponse.json({ error: "Invalid end time." }, { status: 400 });
-    }
-    if (endTime && endTime < startTime) {
-      endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
-    }
-
-    const travel = await fetchTravelMetadata(parsed.data.startLocation, parsed.data.location);
-
-    const activity = await prisma.activity.create({
-      data: {
-        tripDayId: dayId,
-        title: parsed.data.title,
-        description: parsed.data.notes || null,
-        location: parsed.data.location || null,
-        startLocation: parsed.data.startLocation || null,
-        travelDistanceMeters: travel?.distanceMeters ?? null,
-        travelDurationSeconds: travel?.durationSeconds ?? null,
-        travelSummary: travel?.summary ?? null,
-        travelPolyline: travel?.polyline ?? null,
-        startTime,
-        endTime,
-        type: parsed.data.type || null,
-        source: parsed.data.type === "hotel" ? "hotel" : undefined,
-        metadata: parsed.data.metadata ?? undefined,
-        budget: parsed.data.budget ?? null,
-      },
+    const activity = await prisma.activity.create({ data: prepared.data });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "activity",
+      entityId: activity.id,
+      action: "create",
+      summary: `Added "${activity.title}"`,
+      after: activity,
+      fields: ACTIVITY_AUDIT_FIELDS,
     });
 
-    return NextResponse.json({ activity });
+    const travelLegs = await refreshTravelLegs([dayId]);
+    const warnings = await validateActivitySchedule(dayId, activity.id);
+
+    return NextResponse.json({ activity, warnings, travelLegs });
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
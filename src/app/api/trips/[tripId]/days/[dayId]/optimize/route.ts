@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { optimizeDayRoute, RouteOptimizationError } from "@/lib/route-optimizer";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const optimizeSchema = z.object({
+  // Extra activities to keep at their current time, on top of hotels, bookings and transport.
+  fixedActivityIds: z.array(z.string().min(1)).max(50).optional(),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Previews a travel-minimising order for the day. Nothing is written: the response carries batch operations the
+// client sends to the activities batch endpoint once the traveller accepts the preview.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string; dayId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json().catch(() => ({}));
+    const parsed = optimizeSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
+    const { tripId, dayId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const day = await prisma.tripDay.findFirst({
+      where: { id: dayId, tripId, deletedAt: null },
+      include: { activities: { where: { deletedAt: null } } },
+    });
+    if (!day) {
+      return NextResponse.json({ error: "Day not found" }, { status: 404 });
+    }
+
+    const optimization = await optimizeDayRoute(day, day.activities, parsed.data.fixedActivityIds);
+    return NextResponse.json({ optimization });
+  } catch (error) {
+    if (error instanceof RouteOptimizationError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error optimizing day route", error);
+    return NextResponse.json({ error: "Failed to optimize route" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+import { dateKey } from "@/lib/trip-days";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string; dayId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, dayId } = await context.params;
+    const { trip } = await requireTripAccess(account, tripId, "editor");
+
+    const day = await prisma.tripDay.findFirst({ where: { id: dayId, tripId, deletedAt: { not: null } } });
+    if (!day) {
+      return NextResponse.json({ error: "Day not found in the trash" }, { status: 404 });
+    }
+    // The trip may have gained a new day on this date since (e.g. re-created when its dates changed).
+    const taken = await prisma.tripDay.findFirst({ where: { tripId, date: day.date, deletedAt: null } });
+    if (taken) {
+      return NextResponse.json(
+        { error: `The trip already has a day on ${day.date.toISOString().slice(0, 10)}. Move or delete it first.` },
+        { status: 409 },
+      );
+    }
+    // The trip's dates may have moved since; a day outside them would be trashed again by the next range sync.
+    const target = dateKey(day.date);
+    if ((trip.startDate && target < dateKey(trip.startDate)) || (trip.endDate && target > dateKey(trip.endDate))) {
+      return NextResponse.json(
+        { error: `${target} is outside the trip's dates. Change the trip's start or end date first.` },
+        { status: 409 },
+      );
+    }
+
+    const restored = await prisma.tripDay.update({
+      where: { id: dayId },
+      data: { deletedAt: null },
+      include: {
+        activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+        travelSegments: true,
+        hotels: { where: { deletedAt: null } },
+      },
+    });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "day",
+      entityId: dayId,
+      action: "restore",
+      summary: `Restored ${restored.city} on ${restored.date.toISOString().slice(0, 10)}`,
+    });
+
+    return NextResponse.json({ day: restored });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error restoring day", error);
+    return NextResponse.json({ error: "Failed to restore day" }, { status: 500 });
+  }
+}
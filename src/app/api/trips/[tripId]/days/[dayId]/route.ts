@@ -3,13 +3,22 @@ import { z } from "zod";
 
 import { prisma } from "@/lib/prisma";
 import { authenticateRequest, AuthError } from "@/lib/auth";
+import { DAY_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { ignoreStaleWrite, readExpectedVersion, versionConflict, versionHeaders } from "@/lib/concurrency";
+import { requireTripAccess } from "@/lib/trip-access";
+import { timeZoneForCoordinates } from "@/lib/timezone-lookup";
+import { isValidTimeZone } from "@/lib/timezones";
+import { dateKey, moveDayToDate, rezoneDayActivities, toNoonUtc } from "@/lib/trip-days";
 
 const updateDaySchema = z.object({
+  date: z.string().optional(),
   city: z.string().optional(),
   notes: z.string().optional(),
+  notesPrivate: z.boolean().optional(),
   cityPlaceId: z.string().nullable().optional(),
   cityLatitude: z.number().nullable().optional(),
   cityLongitude: z.number().nullable().optional(),
+  timezone: z.string().nullable().optional(),
 });
 
 function handleAuthError(error: unknown) {
@@ -36,44 +45,123 @@ export async function PATCH(
     }
 
     const { tripId, dayId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
 
-    const day = await prisma.tripDay.findFirst({
-      where: {
-        id: dayId,
-        tripId,
-        trip: { userId: account.id },
-      },
-    });
+    const day = await prisma.tripDay.findFirst({ where: { id: dayId, tripId, deletedAt: null } });
 
     if (!day) {
       return NextResponse.json({ error: "Day not found" }, { status: 404 });
     }
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion !== null && expectedVersion !== day.version) {
+      return versionConflict("day", day);
+    }
+
+    let nextDate: Date | null = null;
+    if (parsed.data.date !== undefined) {
+      const parsedDate = new Date(parsed.data.date);
+      if (Number.isNaN(parsedDate.getTime())) {
+        return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+      }
+      if (dateKey(toNoonUtc(parsedDate)) !== dateKey(day.date)) {
+        nextDate = toNoonUtc(parsedDate);
+      }
+    }
+    // A day outside the trip's range would be trashed by the next range sync, so the trip's dates change first.
+    if (nextDate) {
+      const trip = await prisma.trip.findUnique({ where: { id: tripId }, select: { startDate: true, endDate: true } });
+      const target = dateKey(nextDate);
+      if (
+        (trip?.startDate && target < dateKey(trip.startDate)) ||
+        (trip?.endDate && target > dateKey(trip.endDate))
+      ) {
+        return NextResponse.json(
+          { error: "That date is outside the trip's dates. Change the trip's start or end date first." },
+          { status: 400 },
+        );
+      }
+    }
 
-    const updated = await prisma.tripDay.update({
-      where: { id: dayId },
-      data: {
-        city: parsed.data.city ?? day.city,
-        notes: parsed.data.notes ?? day.notes,
-        cityPlaceId:
-          parsed.data.cityPlaceId === undefined ? day.cityPlaceId : parsed.data.cityPlaceId,
-        cityLatitude:
+    // An explicit zone wins; otherwise a new city location picks the zone from the coordinates.
+    let nextZone = day.timezone;
+    if (parsed.data.timezone !== undefined) {
+      if (parsed.data.timezone && !isValidTimeZone(parsed.data.timezone)) {
+        return NextResponse.json({ error: "Unknown timezone" }, { status: 400 });
+      }
+      nextZone = parsed.data.timezone;
+    } else if (parsed.data.cityLatitude !== undefined || parsed.data.cityLongitude !== undefined) {
+      nextZone =
+        timeZoneForCoordinates(
           parsed.data.cityLatitude === undefined ? day.cityLatitude : parsed.data.cityLatitude,
-        cityLongitude:
           parsed.data.cityLongitude === undefined ? day.cityLongitude : parsed.data.cityLongitude,
-      },
+        ) ?? day.timezone;
+    }
+
+    // Moving a day onto a date another day already holds swaps the two, so days can be reordered without a
+    // temporary gap. Activities move with their day and keep their times of day.
+    const result = await prisma.$transaction(async (tx) => {
+      const saved = await tx.tripDay
+        .update({
+          where: { id: dayId, version: day.version },
+          data: {
+            city: parsed.data.city ?? day.city,
+            notes: parsed.data.notes ?? day.notes,
+            notesPrivate: parsed.data.notesPrivate ?? day.notesPrivate,
+            cityPlaceId:
+              parsed.data.cityPlaceId === undefined ? day.cityPlaceId : parsed.data.cityPlaceId,
+            cityLatitude:
+              parsed.data.cityLatitude === undefined ? day.cityLatitude : parsed.data.cityLatitude,
+            cityLongitude:
+              parsed.data.cityLongitude === undefined ? day.cityLongitude : parsed.data.cityLongitude,
+            timezone: nextZone,
+            version: { increment: 1 },
+          },
+        })
+        .catch(ignoreStaleWrite);
+      if (!saved) return null;
+      await rezoneDayActivities(tx, dayId, day.timezone, nextZone);
+      if (!nextDate) return { saved, swapped: null };
+
+      const occupant = await tx.tripDay.findFirst({
+        where: { tripId, deletedAt: null, date: nextDate, id: { not: dayId } },
+      });
+      const swapped = occupant ? await moveDayToDate(tx, occupant, day.date) : null;
+      return { saved: await moveDayToDate(tx, saved, nextDate), swapped };
+    });
+    if (!result) {
+      return versionConflict("day", await prisma.tripDay.findUnique({ where: { id: dayId } }));
+    }
+    const { saved: updated, swapped } = result;
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "day",
+      entityId: dayId,
+      action: "update",
+      summary: `Updated ${updated.city} on ${updated.date.toISOString().slice(0, 10)}`,
+      before: day,
+      after: updated,
+      fields: DAY_AUDIT_FIELDS,
     });
 
-    return NextResponse.json({
-      day: {
-        id: updated.id,
-        date: updated.date,
-        city: updated.city,
-        notes: updated.notes,
-        cityPlaceId: updated.cityPlaceId,
-        cityLatitude: updated.cityLatitude,
-        cityLongitude: updated.cityLongitude,
+    return NextResponse.json(
+      {
+        day: {
+          id: updated.id,
+          date: updated.date,
+          city: updated.city,
+          notes: updated.notes,
+          notesPrivate: updated.notesPrivate,
+          cityPlaceId: updated.cityPlaceId,
+          cityLatitude: updated.cityLatitude,
+          cityLongitude: updated.cityLongitude,
+          timezone: updated.timezone,
+          version: updated.version,
+        },
+        swappedDayId: swapped?.id ?? null,
       },
-    });
+      { headers: versionHeaders(updated.version) },
+    );
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
@@ -81,3 +169,39 @@ export async function PATCH(
     return NextResponse.json({ error: "Failed to update day." }, { status: 500 });
   }
 }
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string; dayId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, dayId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const day = await prisma.tripDay.findFirst({ where: { id: dayId, tripId, deletedAt: null } });
+    if (!day) {
+      return NextResponse.json({ error: "Day not found" }, { status: 404 });
+    }
+
+    // Activities stay untouched so restoring the day brings its plans back with it.
+    await prisma.tripDay.update({ where: { id: dayId }, data: { deletedAt: new Date() } });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "day",
+      entityId: dayId,
+      action: "delete",
+      summary: `Removed ${day.city} on ${day.date.toISOString().slice(0, 10)}`,
+      before: day,
+      fields: DAY_AUDIT_FIELDS,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error deleting day", error);
+    return NextResponse.json({ error: "Failed to delete day." }, { status: 500 });
+  }
+}
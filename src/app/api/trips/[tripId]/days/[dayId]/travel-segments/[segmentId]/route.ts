@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { TRAVEL_MODES } from "@/lib/travel";
+import { fetchLegTravel } from "@/lib/travel-legs";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const updateSegmentSchema = z.object({
+  mode: z.enum(TRAVEL_MODES),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Switches a leg to another mode (say, walking instead of driving) and looks its travel time up again.
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string; dayId: string; segmentId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json();
+    const parsed = updateSegmentSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
+    const { tripId, dayId, segmentId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+    const existing = await prisma.travelSegment.findFirst({
+      where: { id: segmentId, tripDayId: dayId, tripDay: { tripId, deletedAt: null } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Travel leg not found" }, { status: 404 });
+    }
+    if (existing.mode === parsed.data.mode) {
+      return NextResponse.json({ segment: existing });
+    }
+
+    const travel = await fetchLegTravel(existing.fromCity, existing.toCity, parsed.data.mode);
+    const segment = await prisma.travelSegment.update({
+      where: { id: segmentId },
+      data: {
+        mode: parsed.data.mode,
+        distanceKm: travel?.distanceKm ?? null,
+        durationMinutes: travel?.durationMinutes ?? null,
+        summary: travel?.summary ?? null,
+        polyline: travel?.polyline ?? null,
+        routeKey: travel?.routeKey ?? null,
+        cachedAt: travel?.cachedAt ?? null,
+      },
+    });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "day",
+      entityId: dayId,
+      action: "update",
+      summary: `Set ${segment.fromCity} → ${segment.toCity} to ${segment.mode}`,
+    });
+
+    return NextResponse.json({ segment });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error updating travel leg", error);
+    return NextResponse.json({ error: "Failed to update travel leg." }, { status: 500 });
+  }
+}
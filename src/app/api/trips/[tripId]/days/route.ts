@@ -3,6 +3,9 @@ import { z } from "zod";
 
 import { prisma } from "@/lib/prisma";
 import { authenticateRequest, AuthError } from "@/lib/auth";
+import { DAY_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { timeZoneForCoordinates } from "@/lib/timezone-lookup";
+import { requireTripAccess } from "@/lib/trip-access";
 
 const createDaySchema = z.object({
   date: z.string().min(1),
@@ -40,10 +43,7 @@ export async function POST(
     }
 
     const { tripId } = await context.params;
-    const trip = await prisma.trip.findFirst({ where: { id: tripId, userId: account.id } });
-    if (!trip) {
-      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
-    }
+    await requireTripAccess(account, tripId, "editor");
 
     const dateValue = parseDate(parsed.data.date);
     if (!dateValue) {
@@ -62,8 +62,19 @@ export async function POST(
           parsed.data.cityLatitude === undefined ? null : parsed.data.cityLatitude,
         cityLongitude:
           parsed.data.cityLongitude === undefined ? null : parsed.data.cityLongitude,
+        timezone: timeZoneForCoordinates(parsed.data.cityLatitude, parsed.data.cityLongitude),
       },
     });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "day",
+      entityId: day.id,
+      action: "create",
+      summary: `Added ${day.city} on ${day.date.toISOString().slice(0, 10)}`,
+      after: day,
+      fields: DAY_AUDIT_FIELDS,
+    });
 
     return NextResponse.json({
       day: {
@@ -74,6 +85,7 @@ export async function POST(
         cityPlaceId: day.cityPlaceId,
         cityLatitude: day.cityLatitude,
         cityLongitude: day.cityLongitude,
+        timezone: day.timezone,
       },
     });
   } catch (error) {
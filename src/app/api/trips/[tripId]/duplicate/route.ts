@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+import { copyTrip } from "@/lib/trip-copy";
+
+const duplicateSchema = z.object({
+  title: z.string().min(1).optional(),
+  startDate: z.string().optional(),
+  stripTimes: z.boolean().optional(),
+  stripBudgets: z.boolean().optional(),
+  asTemplate: z.boolean().optional(),
+  templateName: z.string().min(1).max(120).optional(),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Anyone who can see a trip can copy it into their own account, either as a new trip re-based on `startDate` or
+// as a named template. Using a template is the same call with `asTemplate` left off.
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const json = await request.json().catch(() => ({}));
+    const parsed = duplicateSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { trip: source } = await requireTripAccess(account, tripId, "viewer");
+    const { title, startDate, stripTimes, stripBudgets, asTemplate, templateName } = parsed.data;
+
+    let parsedStart: Date | null = null;
+    if (startDate) {
+      parsedStart = new Date(startDate);
+      if (Number.isNaN(parsedStart.getTime())) {
+        return NextResponse.json({ error: "Invalid start date" }, { status: 400 });
+      }
+    }
+
+    const defaultTitle = source.isTemplate ? source.title : `${source.title} (copy)`;
+    const copy = await prisma.$transaction((tx) =>
+      copyTrip(tx, source, account, {
+        title: title ?? defaultTitle,
+        startDate: parsedStart,
+        stripTimes,
+        stripBudgets,
+        asTemplate,
+        templateName,
+      }),
+    );
+    await recordTripEvent({
+      tripId: copy.id,
+      actor: account,
+      entityType: "trip",
+      entityId: copy.id,
+      action: "create",
+      summary: asTemplate
+        ? `Saved "${source.title}" as template "${copy.templateName}"`
+        : `Created from ${source.isTemplate ? "template" : "trip"} "${source.templateName ?? source.title}"`,
+    });
+
+    const created = await prisma.trip.findUniqueOrThrow({
+      where: { id: copy.id },
+      include: {
+        collaborators: true,
+        days: {
+          orderBy: { date: "asc" },
+          include: {
+            activities: { orderBy: { startTime: "asc" } },
+            travelSegments: true,
+            hotels: { where: { deletedAt: null } },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ trip: { ...created, role: "owner" } }, { status: 201 });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error duplicating trip", error);
+    return NextResponse.json({ error: "Failed to duplicate trip" }, { status: 500 });
+  }
+}
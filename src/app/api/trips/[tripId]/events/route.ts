@@ -0,0 +1,89 @@
+import { randomUUID } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import {
+  joinTripPresence,
+  leaveTripPresence,
+  listTripViewers,
+  registerTripConnection,
+  subscribeToTrip,
+  type TripStreamEvent,
+} from "@/lib/realtime";
+import { normalizeEmail, requireTripAccess } from "@/lib/trip-access";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const HEARTBEAT_MS = 25_000;
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request, { allowQueryToken: true });
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "viewer");
+
+    const connectionId = randomUUID();
+    const dayId = request.nextUrl.searchParams.get("dayId");
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        send("ready", { connectionId, viewers: listTripViewers(tripId) });
+
+        const unsubscribe = subscribeToTrip(tripId, (event: TripStreamEvent) => send(event.type, event));
+        joinTripPresence(tripId, connectionId, account, dayId);
+        const unregister = registerTripConnection(tripId, connectionId, normalizeEmail(account.email), () => cleanup());
+
+        const heartbeat = setInterval(() => {
+          controller.enqueue(encoder.encode(": ping\n\n"));
+        }, HEARTBEAT_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          unregister();
+          leaveTripPresence(tripId, connectionId);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client.
+          }
+        };
+        request.signal.addEventListener("abort", () => cleanup(), { once: true });
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error opening trip event stream", error);
+    return NextResponse.json({ error: "Failed to open event stream" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const querySchema = z.object({
+  entityId: z.string().min(1).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    await requireTripAccess(account, tripId, "viewer");
+
+    const { entityId, cursor, limit } = parsed.data;
+    const events = await prisma.tripAuditEvent.findMany({
+      where: { tripId, ...(entityId ? { entityId } : {}) },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = events.length > limit;
+    const page = hasMore ? events.slice(0, limit) : events;
+
+    return NextResponse.json({
+      events: page,
+      nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error loading trip history", error);
+    return NextResponse.json({ error: "Failed to load trip history" }, { status: 500 });
+  }
+}
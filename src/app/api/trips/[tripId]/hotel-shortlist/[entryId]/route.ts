@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ tripId: string; entryId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, entryId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const entry = await prisma.hotelShortlistEntry.findFirst({ where: { id: entryId, tripId } });
+    if (!entry) {
+      return NextResponse.json({ error: "Shortlist entry not found" }, { status: 404 });
+    }
+    await prisma.hotelShortlistEntry.delete({ where: { id: entryId } });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "shortlist",
+      entityId: entryId,
+      action: "delete",
+      summary: `Removed ${entry.name} in ${entry.city} from the shortlist`,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error removing from hotel shortlist", error);
+    return NextResponse.json({ error: "Failed to remove from shortlist." }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const entrySchema = z.object({
+  city: z.string().trim().min(1),
+  providerId: z.string().min(1),
+  name: z.string().min(1),
+  address: z.string().nullable().optional(),
+  rating: z.number().min(0).max(10).nullable().optional(),
+  userRatingsTotal: z.number().int().nonnegative().nullable().optional(),
+  priceLevel: z.number().int().min(0).max(4).nullable().optional(),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  mapsUrl: z.string().url().nullable().optional(),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Candidates for one city (`?city=`), or the whole trip's shortlist without it.
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "viewer");
+
+    const city = new URL(request.url).searchParams.get("city")?.trim();
+    const entries = await prisma.hotelShortlistEntry.findMany({
+      where: { tripId, ...(city ? { city: { equals: city, mode: "insensitive" } } : {}) },
+      orderBy: [{ city: "asc" }, { createdAt: "asc" }],
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error listing hotel shortlist", error);
+    return NextResponse.json({ error: "Failed to load shortlist." }, { status: 500 });
+  }
+}
+
+// Shortlisting the same hotel for the same city again refreshes its details instead of adding a duplicate. The
+// city is matched case-insensitively, as GET does, and an existing entry's spelling is kept for the whole city.
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json().catch(() => ({}));
+    const parsed = entrySchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const { providerId, ...details } = parsed.data;
+    const sameCity = await prisma.hotelShortlistEntry.findFirst({
+      where: { tripId, city: { equals: details.city, mode: "insensitive" } },
+      select: { city: true },
+    });
+    const city = sameCity?.city ?? details.city;
+    const key = { tripId_city_providerId: { tripId, city, providerId } };
+    const existing = await prisma.hotelShortlistEntry.findUnique({ where: key, select: { id: true } });
+    const entry = await prisma.hotelShortlistEntry.upsert({
+      where: key,
+      update: { ...details, city },
+      create: { tripId, providerId, ...details, city, createdById: account.id },
+    });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "shortlist",
+      entityId: entry.id,
+      action: existing ? "update" : "create",
+      summary: `Shortlisted ${entry.name} in ${entry.city}`,
+    });
+    return NextResponse.json({ entry });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error adding to hotel shortlist", error);
+    return NextResponse.json({ error: "Failed to shortlist hotel." }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string; hotelId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, hotelId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const hotel = await prisma.hotel.findFirst({
+      where: { id: hotelId, deletedAt: { not: null }, tripDay: { tripId } },
+      include: { tripDay: true },
+    });
+    if (!hotel) {
+      return NextResponse.json({ error: "Stay not found in the trash" }, { status: 404 });
+    }
+    if (hotel.tripDay.deletedAt) {
+      return NextResponse.json({ error: "Restore the day this stay checks in on first." }, { status: 409 });
+    }
+
+    const restored = await prisma.hotel.update({
+      where: { id: hotelId },
+      data: { deletedAt: null, version: { increment: 1 } },
+    });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "hotel",
+      entityId: hotelId,
+      action: "restore",
+      summary: `Restored the stay at "${restored.name}"`,
+    });
+
+    return NextResponse.json({ hotel: restored });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error restoring hotel", error);
+    return NextResponse.json({ error: "Failed to restore stay" }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { HOTEL_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { ignoreStaleWrite, readExpectedVersion, versionConflict, versionHeaders } from "@/lib/concurrency";
+import { prepareHotelUpdate, updateHotelSchema } from "@/lib/hotel-writes";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+async function findHotel(tripId: string, hotelId: string) {
+  return prisma.hotel.findFirst({
+    where: { id: hotelId, deletedAt: null, tripDay: { tripId, deletedAt: null } },
+    include: { tripDay: true },
+  });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string; hotelId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json();
+    const parsed = updateHotelSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { tripId, hotelId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+    const existing = await findHotel(tripId, hotelId);
+    if (!existing) {
+      return NextResponse.json({ error: "Hotel not found" }, { status: 404 });
+    }
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion !== null && expectedVersion !== existing.version) {
+      return versionConflict("hotel", await prisma.hotel.findUnique({ where: { id: hotelId } }));
+    }
+
+    const prepared = await prepareHotelUpdate(tripId, existing, parsed.data);
+    if (prepared.error !== undefined) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 });
+    }
+
+    const updated = await prisma.hotel
+      .update({ where: { id: hotelId, version: existing.version }, data: prepared.data })
+      .catch(ignoreStaleWrite);
+    if (!updated) {
+      return versionConflict("hotel", await prisma.hotel.findUnique({ where: { id: hotelId } }));
+    }
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "hotel",
+      entityId: hotelId,
+      action: "update",
+      summary: `Updated the stay at "${updated.name}"`,
+      before: existing,
+      after: updated,
+      fields: HOTEL_AUDIT_FIELDS,
+    });
+
+    return NextResponse.json({ hotel: updated }, { headers: versionHeaders(updated.version) });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error updating hotel", error);
+    return NextResponse.json({ error: "Failed to update hotel." }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string; hotelId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, hotelId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+    const existing = await findHotel(tripId, hotelId);
+    if (!existing) {
+      return NextResponse.json({ error: "Hotel not found" }, { status: 404 });
+    }
+
+    // Soft delete: the stay sits in the trip's trash until restored or purged.
+    await prisma.hotel.update({
+      where: { id: hotelId },
+      data: { deletedAt: new Date(), version: { increment: 1 } },
+    });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "hotel",
+      entityId: hotelId,
+      action: "delete",
+      summary: `Removed the stay at "${existing.name}"`,
+      before: existing,
+      fields: HOTEL_AUDIT_FIELDS,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error deleting hotel", error);
+    return NextResponse.json({ error: "Failed to delete hotel." }, { status: 500 });
+  }
+}
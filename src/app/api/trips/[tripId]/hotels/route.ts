@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { HOTEL_AUDIT_FIELDS, recordTripEvent } from "@/lib/audit";
+import { createHotelSchema, prepareHotelCreate } from "@/lib/hotel-writes";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Every stay on the trip's live days, in check-in order.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "viewer");
+
+    const hotels = await prisma.hotel.findMany({
+      where: { deletedAt: null, tripDay: { tripId, deletedAt: null } },
+      orderBy: { checkIn: "asc" },
+    });
+    return NextResponse.json({ hotels });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error listing hotels", error);
+    return NextResponse.json({ error: "Failed to load hotels." }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const json = await request.json();
+    const parsed = createHotelSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const prepared = await prepareHotelCreate(tripId, parsed.data);
+    if (prepared.error !== undefined) {
+      return NextResponse.json({ error: prepared.error }, { status: 400 });
+    }
+
+    const hotel = await prisma.hotel.create({ data: prepared.data });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "hotel",
+      entityId: hotel.id,
+      action: "create",
+      summary: `Added a stay at "${hotel.name}" from ${prepared.day.date.toISOString().slice(0, 10)}`,
+      after: hotel,
+      fields: HOTEL_AUDIT_FIELDS,
+    });
+
+    return NextResponse.json({ hotel });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error creating hotel", error);
+    return NextResponse.json({ error: "Failed to add hotel." }, { status: 500 });
+  }
+}
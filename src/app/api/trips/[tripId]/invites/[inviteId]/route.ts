@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ tripId: string; inviteId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId, inviteId } = await context.params;
+    await requireTripAccess(account, tripId, "co_owner");
+
+    const result = await prisma.tripInvite.updateMany({
+      where: { id: inviteId, tripId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (!result.count) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ revoked: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error revoking invite", error);
+    return NextResponse.json({ error: "Failed to revoke invite" }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import type { TripInvite } from "@prisma/client";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { assertInvitesConfigured, createInviteToken, inviteStatus } from "@/lib/invites";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const bodySchema = z.object({
+  role: z.enum(["viewer", "editor", "co_owner"]).default("viewer"),
+  expiresInHours: z.number().int().min(1).max(24 * 30).default(72),
+  singleUse: z.boolean().default(false),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+function serializeInvite(invite: TripInvite, request: Request) {
+  const status = inviteStatus(invite);
+  const url = status === "active" ? new URL(`/invite/${createInviteToken(invite)}`, request.url).toString() : null;
+  return { ...invite, status, url };
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "co_owner");
+    assertInvitesConfigured();
+
+    const invites = await prisma.tripInvite.findMany({
+      where: { tripId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ invites: invites.map((invite) => serializeInvite(invite, request)) });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error listing invites", error);
+    return NextResponse.json({ error: "Failed to load invites" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const json = await request.json().catch(() => ({}));
+    const parsed = bodySchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    await requireTripAccess(account, tripId, "co_owner");
+    assertInvitesConfigured();
+
+    const invite = await prisma.tripInvite.create({
+      data: {
+        tripId,
+        role: parsed.data.role,
+        createdById: account.id,
+        expiresAt: new Date(Date.now() + parsed.data.expiresInHours * 60 * 60 * 1000),
+        maxUses: parsed.data.singleUse ? 1 : null,
+      },
+    });
+
+    return NextResponse.json({ invite: serializeInvite(invite, request) }, { status: 201 });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error creating invite", error);
+    return NextResponse.json({ error: "Failed to create invite" }, { status: 500 });
+  }
+}
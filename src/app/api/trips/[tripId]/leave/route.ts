@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { disconnectTripAccount } from "@/lib/realtime";
+import { normalizeEmail, requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const { role } = await requireTripAccess(account, tripId, "viewer");
+
+    if (role === "owner") {
+      return NextResponse.json(
+        { error: "Owners cannot leave their own trip. Delete it instead." },
+        { status: 400 },
+      );
+    }
+
+    const email = normalizeEmail(account.email);
+    await prisma.tripCollaborator.delete({ where: { tripId_email: { tripId, email } } });
+    disconnectTripAccount(tripId, email);
+
+    return NextResponse.json({ left: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error leaving trip", error);
+    return NextResponse.json({ error: "Failed to leave trip" }, { status: 500 });
+  }
+}
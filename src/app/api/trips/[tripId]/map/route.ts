@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { buildTripMap } from "@/lib/trip-map";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+// Pins, day cities and stored route polylines for the trip map. Geocodes go through the place cache, so only
+// locations nobody has mapped before reach the maps provider.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "viewer");
+
+    return NextResponse.json(await buildTripMap(tripId));
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error loading trip map", error);
+    return NextResponse.json({ error: "Failed to load trip map" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { updateTripPresence } from "@/lib/realtime";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const bodySchema = z.object({
+  connectionId: z.string().min(1),
+  dayId: z.string().min(1).nullable(),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const json = await request.json();
+    const parsed = bodySchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    await requireTripAccess(account, tripId, "viewer");
+
+    const updated = updateTripPresence(tripId, parsed.data.connectionId, account.id, parsed.data.dayId);
+    if (!updated) {
+      return NextResponse.json({ error: "Connection not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ updated: true });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error updating presence", error);
+    return NextResponse.json({ error: "Failed to update presence" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { generateShareSlug } from "@/lib/public-trip";
+import { requireTripAccess } from "@/lib/trip-access";
+
+const bodySchema = z.object({
+  enabled: z.boolean().optional(),
+  rotateSlug: z.boolean().optional(),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const json = await request.json();
+    const parsed = bodySchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { trip } = await requireTripAccess(account, tripId, "owner");
+
+    const isPublic = parsed.data.enabled ?? trip.isPublic;
+    // Rotating gives the trip a fresh slug so previously shared links stop working.
+    const shareSlug = parsed.data.rotateSlug || (isPublic && !trip.shareSlug) ? generateShareSlug() : trip.shareSlug;
+
+    const updated = await prisma.trip.update({
+      where: { id: tripId },
+      data: { isPublic, shareSlug },
+      select: { isPublic: true, shareSlug: true },
+    });
+
+    return NextResponse.json({
+      ...updated,
+      url: updated.shareSlug ? new URL(`/t/${updated.shareSlug}`, request.url).toString() : null,
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error updating public link", error);
+    return NextResponse.json({ error: "Failed to update public link" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const { trip } = await requireTripAccess(account, tripId, "owner", { includeDeleted: true });
+    if (!trip.deletedAt) {
+      return NextResponse.json({ error: "Trip is not in the trash" }, { status: 400 });
+    }
+
+    const restored = await prisma.trip.update({
+      where: { id: tripId },
+      data: { deletedAt: null },
+      include: {
+        collaborators: true,
+        days: {
+          where: { deletedAt: null },
+          orderBy: { date: "asc" },
+          include: {
+            activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+            travelSegments: true,
+            hotels: { where: { deletedAt: null } },
+          },
+        },
+      },
+    });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "trip",
+      entityId: tripId,
+      action: "restore",
+      summary: `Restored trip "${restored.title}"`,
+    });
+
+    return NextResponse.json({ trip: { ...restored, role: "owner" } });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error restoring trip", error);
+    return NextResponse.json({ error: "Failed to restore trip" }, { status: 500 });
+  }
+}
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
-import { prisma } from "@/lib/prisma";
+import { prisma, type Prisma } from "@/lib/prisma";
 import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent, TRIP_AUDIT_FIELDS } from "@/lib/audit";
+import { ignoreStaleWrite, readExpectedVersion, versionConflict, versionHeaders } from "@/lib/concurrency";
+import { requireTripAccess } from "@/lib/trip-access";
+import {
+  dateKey,
+  daysBetween,
+  MAX_TRIP_DAYS,
+  syncTripDayRange,
+  TRIP_DAYS_TRANSACTION_TIMEOUT_MS,
+} from "@/lib/trip-days";
 
 const updateTripSchema = z.object({
   title: z.string().min(1).optional(),
@@ -14,6 +24,19 @@ const updateTripSchema = z.object({
   profile: z.record(z.string(), z.any()).optional(),
 });
 
+const tripDetailInclude = {
+  collaborators: true,
+  days: {
+    where: { deletedAt: null },
+    orderBy: { date: "asc" },
+    include: {
+      activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+      travelSegments: true,
+      hotels: { where: { deletedAt: null } },
+    },
+  },
+} satisfies Prisma.TripInclude;
+
 function parseDateInput(value?: string) {
   if (!value) return undefined;
   const parsed = new Date(value);
@@ -29,20 +52,44 @@ function handleAuthError(error: unknown) {
   return null;
 }
 
-export async function DELETE(
+export async function GET(
   request: NextRequest,
   context: { params: Promise<{ tripId: string }> },
 ) {
   try {
     const { account } = await authenticateRequest(request);
     const { tripId } = await context.params;
+    const { role } = await requireTripAccess(account, tripId, "viewer");
 
-    const trip = await prisma.trip.findFirst({ where: { id: tripId, userId: account.id } });
-    if (!trip) {
-      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
-    }
+    const trip = await prisma.trip.findUnique({ where: { id: tripId }, include: tripDetailInclude });
+
+    return NextResponse.json({ trip: trip ? { ...trip, role } : null });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error loading trip", error);
+    return NextResponse.json({ error: "Failed to load trip." }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const { trip } = await requireTripAccess(account, tripId, "owner");
 
-    await prisma.trip.delete({ where: { id: tripId } });
+    await prisma.trip.update({ where: { id: tripId }, data: { deletedAt: new Date() } });
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "trip",
+      entityId: tripId,
+      action: "delete",
+      summary: `Moved trip "${trip.title}" to the trash`,
+    });
     return NextResponse.json({ success: true });
   } catch (error) {
     const authResponse = handleAuthError(error);
@@ -65,9 +112,10 @@ export async function PATCH(
     }
 
     const { tripId } = await context.params;
-    const trip = await prisma.trip.findFirst({ where: { id: tripId, userId: account.id } });
-    if (!trip) {
-      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    const { trip } = await requireTripAccess(account, tripId, "editor");
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion !== null && expectedVersion !== trip.version) {
+      return versionConflict("trip", await prisma.trip.findUnique({ where: { id: tripId } }));
     }
 
     const updateData: Record<string, unknown> = {};
@@ -81,8 +129,58 @@ export async function PATCH(
     if (parsed.data.profile !== undefined) updateData.profile = parsed.data.profile ?? undefined;
     if (parsed.data.profileId !== undefined) updateData.profileId = parsed.data.profileId ?? undefined;
 
-    const updated = await prisma.trip.update({ where: { id: tripId }, data: updateData });
-    return NextResponse.json({ trip: updated });
+    const nextStart = "startDate" in updateData ? (updateData.startDate as Date | null) : trip.startDate;
+    const nextEnd = "endDate" in updateData ? (updateData.endDate as Date | null) : trip.endDate;
+    if (nextStart && nextEnd && nextEnd < nextStart) {
+      return NextResponse.json({ error: "End date must be on or after the start date." }, { status: 400 });
+    }
+    if (nextStart && nextEnd && daysBetween(nextStart, nextEnd) + 1 > MAX_TRIP_DAYS) {
+      return NextResponse.json({ error: `A trip can span at most ${MAX_TRIP_DAYS} days.` }, { status: 400 });
+    }
+    const rangeChanged =
+      nextStart !== null &&
+      nextEnd !== null &&
+      (dateKey(nextStart) !== (trip.startDate ? dateKey(trip.startDate) : null) ||
+        dateKey(nextEnd) !== (trip.endDate ? dateKey(trip.endDate) : null));
+
+    // Changing the date range regenerates the day list in the same transaction so the trip never shows dates
+    // without matching days.
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const saved = await tx.trip
+          .update({
+            where: { id: tripId, version: trip.version },
+            data: { ...updateData, version: { increment: 1 } },
+          })
+          .catch(ignoreStaleWrite);
+        if (!saved) return null;
+        const dayChanges = rangeChanged ? await syncTripDayRange(tx, saved, nextStart, nextEnd) : null;
+        return { saved, dayChanges };
+      },
+      { timeout: TRIP_DAYS_TRANSACTION_TIMEOUT_MS },
+    );
+    if (!result) {
+      return versionConflict("trip", await prisma.trip.findUnique({ where: { id: tripId } }));
+    }
+    const { saved: updated, dayChanges } = result;
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "trip",
+      entityId: tripId,
+      action: "update",
+      summary: dayChanges
+        ? `Updated trip "${updated.title}" (${dayChanges.created.length} days added, ${dayChanges.trashed.length} moved to trash)`
+        : `Updated trip "${updated.title}"`,
+      before: trip,
+      after: updated,
+      fields: TRIP_AUDIT_FIELDS,
+    });
+    if (dayChanges) {
+      const withDays = await prisma.trip.findUniqueOrThrow({ where: { id: tripId }, include: tripDetailInclude });
+      return NextResponse.json({ trip: withDays, daysChanged: true }, { headers: versionHeaders(updated.version) });
+    }
+    return NextResponse.json({ trip: updated }, { headers: versionHeaders(updated.version) });
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { recordTripEvent } from "@/lib/audit";
+import { readExpectedVersion, versionConflict, versionHeaders } from "@/lib/concurrency";
+import { prisma } from "@/lib/prisma";
+import { requireTripAccess } from "@/lib/trip-access";
+import { shiftTrip, TRIP_DAYS_TRANSACTION_TIMEOUT_MS } from "@/lib/trip-days";
+
+const shiftSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(-365)
+    .max(365)
+    .refine((value) => value !== 0, "Shift by at least one day"),
+});
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    const json = await request.json();
+    const parsed = shiftSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten().fieldErrors }, { status: 400 });
+    }
+
+    const { trip, role } = await requireTripAccess(account, tripId, "editor");
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion !== null && expectedVersion !== trip.version) {
+      return versionConflict("trip", trip);
+    }
+
+    const shifted = await prisma.$transaction(
+      (tx) => shiftTrip(tx, trip, parsed.data.days),
+      { timeout: TRIP_DAYS_TRANSACTION_TIMEOUT_MS },
+    );
+    if (!shifted) {
+      return versionConflict("trip", await prisma.trip.findUnique({ where: { id: tripId } }));
+    }
+    const { days } = parsed.data;
+    await recordTripEvent({
+      tripId,
+      actor: account,
+      entityType: "trip",
+      entityId: tripId,
+      action: "update",
+      summary: `Shifted trip by ${days} ${Math.abs(days) === 1 ? "day" : "days"}`,
+      before: trip,
+      after: shifted,
+      fields: ["startDate", "endDate"],
+    });
+
+    const withDays = await prisma.trip.findUniqueOrThrow({
+      where: { id: tripId },
+      include: {
+        collaborators: true,
+        days: {
+          where: { deletedAt: null },
+          orderBy: { date: "asc" },
+          include: {
+            activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+            travelSegments: true,
+            hotels: { where: { deletedAt: null } },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ trip: { ...withDays, role } }, { headers: versionHeaders(withDays.version) });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error shifting trip", error);
+    return NextResponse.json({ error: "Failed to shift trip" }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { authenticateRequest, AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { purgeAfter } from "@/lib/trash";
+import { requireTripAccess } from "@/lib/trip-access";
+
+function handleAuthError(error: unknown) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return null;
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ tripId: string }> },
+) {
+  try {
+    const { account } = await authenticateRequest(request);
+    const { tripId } = await context.params;
+    await requireTripAccess(account, tripId, "editor");
+
+    const [days, activities, hotels] = await Promise.all([
+      prisma.tripDay.findMany({
+        where: { tripId, deletedAt: { not: null } },
+        orderBy: { deletedAt: "desc" },
+        include: { _count: { select: { activities: { where: { deletedAt: null } } } } },
+      }),
+      // Activities inside a trashed day come back with the day, so only list ones deleted on their own.
+      prisma.activity.findMany({
+        where: { deletedAt: { not: null }, tripDay: { tripId, deletedAt: null } },
+        orderBy: { deletedAt: "desc" },
+        include: { tripDay: { select: { id: true, date: true, city: true } } },
+      }),
+      prisma.hotel.findMany({
+        where: { deletedAt: { not: null }, tripDay: { tripId, deletedAt: null } },
+        orderBy: { deletedAt: "desc" },
+        include: { tripDay: { select: { id: true, date: true, city: true } } },
+      }),
+    ]);
+
+    return NextResponse.json({
+      days: days.map(({ _count, ...day }) => ({
+        ...day,
+        activityCount: _count.activities,
+        purgeAfter: day.deletedAt ? purgeAfter(day.deletedAt) : null,
+      })),
+      activities: activities.map((activity) => ({
+        ...activity,
+        purgeAfter: activity.deletedAt ? purgeAfter(activity.deletedAt) : null,
+      })),
+      hotels: hotels.map((hotel) => ({
+        ...hotel,
+        purgeAfter: hotel.deletedAt ? purgeAfter(hotel.deletedAt) : null,
+      })),
+    });
+  } catch (error) {
+    const authResponse = handleAuthError(error);
+    if (authResponse) return authResponse;
+    console.error("Error loading trip trash", error);
+    return NextResponse.json({ error: "Failed to load trash" }, { status: 500 });
+  }
+}
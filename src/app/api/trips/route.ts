@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { authenticateRequest, AuthError } from "@/lib/auth";
+import { accessibleTripsFilter, resolveTripRole } from "@/lib/trip-access";
 
 const createTripSchema = z.object({
   title: z.string().min(1),
@@ -78,26 +79,25 @@ export async function GET(request: Request) {
     await ensureActivityBudgetColumn();
     await ensureProfileColumns();
     const trips = await prisma.trip.findMany({
-      where: {
-        OR: [{ userId: account.id }, { collaborators: { some: { email: account.email } } }],
-      },
+      where: accessibleTripsFilter(account),
       orderBy: { createdAt: "desc" },
       take: 25,
       include: {
         collaborators: true,
         days: {
+          where: { deletedAt: null },
           orderBy: { date: "asc" },
           include: {
-            activities: { orderBy: { startTime: "asc" } },
+            activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
             travelSegments: true,
-            hotels: true,
+            hotels: { where: { deletedAt: null } },
           },
         },
       },
     });
 
     return NextResponse.json({
-      trips,
+      trips: trips.map((trip) => ({ ...trip, role: resolveTripRole(trip, account) })),
       user: {
         id: account.id,
         credits: account.credits,
@@ -155,7 +155,7 @@ export async function POST(req: Request) {
       },
     });
 
-    return NextResponse.json({ trip }, { status: 201 });
+    return NextResponse.json({ trip: { ...trip, role: "owner" } }, { status: 201 });
   } catch (error) {
     const authResponse = handleAuthError(error);
     if (authResponse) return authResponse;
@@ -1,8 +1,11 @@
 "use client";
 
-import { Suspense, useEffect, useState } from "react";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import { useSearchParams } from "next/navigation";
 
+import { AddStayForm, type StayCandidate, type StayTripDay } from "@/components/add-stay-form";
+import { useAuth } from "@/components/auth-provider";
+
 type HotelResult = {
   id: string;
   name: string;
@@ -14,8 +17,96 @@ type HotelResult = {
   distanceMiles?: number | null;
   lat?: number | null;
   lng?: number | null;
+  reviewScore?: number | null;
+  nightlyPrice?: number | null;
+  totalPrice?: number | null;
+  currency?: string | null;
+  quotes?: PriceQuote[];
+  sources?: string[];
+};
+
+type PriceQuote = {
+  provider: string;
+  nightlyPrice: number;
+  currency: string;
+  url: string | null;
+};
+
+type ProviderStatus = {
+  name: string;
+  status: "ok" | "cached" | "stale" | "rate_limited" | "error" | "skipped";
+  message?: string;
+};
+
+const PROVIDER_LABELS: Record<string, string> = {
+  google: "Google",
+  booking: "Booking.com",
+  amadeus: "Amadeus",
+  fixture: "Sample data",
+};
+
+const formatPrice = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+};
+
+type ResearchTrip = {
+  id: string;
+  title: string;
+  role?: string;
+  days: StayTripDay[];
 };
 
+type ShortlistEntry = {
+  id: string;
+  city: string;
+  providerId: string;
+  name: string;
+  address: string | null;
+  rating: number | null;
+  userRatingsTotal: number | null;
+  priceLevel: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  mapsUrl: string | null;
+};
+
+const resultCandidate = (hotel: HotelResult): StayCandidate => ({
+  providerId: hotel.id,
+  name: hotel.name,
+  address: hotel.address,
+  rating: hotel.rating,
+  userRatingsTotal: hotel.userRatingsTotal,
+  priceLevel: hotel.priceLevel,
+  latitude: hotel.lat,
+  longitude: hotel.lng,
+  mapsUrl: hotel.mapsUrl,
+  pricePerNight: hotel.nightlyPrice,
+  currency: hotel.currency,
+});
+
+// "Lisbon" matches a day in "Lisbon, Portugal" and the other way round.
+const cityKey = (city: string) => city.split(",")[0].trim().toLowerCase();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The trip's first run of days in the city: check in on the first, check out the morning after the last.
+function tripStayDates(days: StayTripDay[], city: string) {
+  const key = cityKey(city);
+  if (!key) return null;
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const start = sorted.findIndex((day) => cityKey(day.city) === key);
+  if (start < 0) return null;
+  let end = start;
+  while (end + 1 < sorted.length && cityKey(sorted[end + 1].city) === key) end += 1;
+  const checkIn = sorted[start].date.slice(0, 10);
+  const checkOut = new Date(Date.parse(sorted[end].date.slice(0, 10)) + DAY_MS).toISOString().slice(0, 10);
+  return { checkIn, checkOut };
+}
+
 type AnchorPlace = {
   placeId: string;
   description: string;
@@ -26,18 +117,176 @@ type AnchorPlace = {
 function HotelResearchContent() {
   const params = useSearchParams();
   const initialCity = params.get("city") || "";
+  const initialTripId = params.get("tripId") || "";
+  const initialDayId = params.get("dayId") || null;
+  const { idToken } = useAuth();
   const [query, setQuery] = useState(initialCity);
   const [radiusMiles, setRadiusMiles] = useState("");
   const [minRating, setMinRating] = useState("0");
   const [priceLevel, setPriceLevel] = useState("any");
+  const [checkIn, setCheckIn] = useState("");
+  const [checkOut, setCheckOut] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [sort, setSort] = useState("rating");
   const [anchorInput, setAnchorInput] = useState("");
   const [anchorPlace, setAnchorPlace] = useState<AnchorPlace | null>(null);
   const [anchorSuggestions, setAnchorSuggestions] = useState<Array<{ placeId: string; description: string }>>([]);
   const [anchorLoading, setAnchorLoading] = useState(false);
   const [hotels, setHotels] = useState<HotelResult[]>([]);
   const [loading, setLoading] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [providerStatuses, setProviderStatuses] = useState<ProviderStatus[]>([]);
+  const [searchedNights, setSearchedNights] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [expandedHotelId, setExpandedHotelId] = useState<string | null>(null);
+  const [searchedCity, setSearchedCity] = useState("");
+  const [trips, setTrips] = useState<ResearchTrip[]>([]);
+  const [selectedTripId, setSelectedTripId] = useState(initialTripId);
+  const [shortlist, setShortlist] = useState<ShortlistEntry[]>([]);
+  const [shortlistError, setShortlistError] = useState<string | null>(null);
+  const [addingStayFor, setAddingStayFor] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const jsonHeaders = useMemo(() => {
+    const base: Record<string, string> = { "Content-Type": "application/json" };
+    if (idToken) base.Authorization = `Bearer ${idToken}`;
+    return base;
+  }, [idToken]);
+
+  const selectedTrip = trips.find((trip) => trip.id === selectedTripId) || null;
+  const shortlistedIds = new Set(shortlist.map((entry) => entry.providerId));
+
+  // Check in on the first day in the searched city, preferring the day the dashboard was on.
+  const defaultDayId = useMemo(() => {
+    const days = selectedTrip?.days || [];
+    const key = cityKey(searchedCity);
+    const inCity = (day: StayTripDay) => Boolean(key) && cityKey(day.city) === key;
+    const fromDashboard = days.find((day) => day.id === initialDayId);
+    return (
+      (fromDashboard && inCity(fromDashboard) ? fromDashboard : null) ??
+      days.find(inCity) ??
+      fromDashboard ??
+      days[0] ??
+      null
+    )?.id ?? null;
+  }, [selectedTrip, searchedCity, initialDayId]);
+
+  // Price for the nights the trip spends in the city unless dates were already picked.
+  useEffect(() => {
+    const dates = selectedTrip ? tripStayDates(selectedTrip.days, query) : null;
+    if (!dates) return;
+    setCheckIn((prev) => prev || dates.checkIn);
+    setCheckOut((prev) => prev || dates.checkOut);
+  }, [selectedTrip, query]);
+
+  useEffect(() => {
+    if (!idToken) return;
+    let cancelled = false;
+    async function loadTrips() {
+      try {
+        const res = await fetch("/api/trips", { headers: { Authorization: `Bearer ${idToken}` } });
+        if (!res.ok) return;
+        const data = await res.json();
+        // Viewers can browse but not add stays, so only offer trips the user can edit.
+        const editable = ((data.trips || []) as ResearchTrip[]).filter((trip) => trip.role !== "viewer");
+        if (cancelled) return;
+        setTrips(editable);
+        setSelectedTripId((prev) => (editable.some((trip) => trip.id === prev) ? prev : editable[0]?.id || ""));
+      } catch {
+        // The page still searches without trips.
+      }
+    }
+    loadTrips();
+    return () => {
+      cancelled = true;
+    };
+  }, [idToken]);
+
+  useEffect(() => {
+    if (!idToken || !selectedTripId || !searchedCity) {
+      setShortlist([]);
+      return;
+    }
+    let cancelled = false;
+    async function loadShortlist() {
+      try {
+        const res = await fetch(
+          `/api/trips/${selectedTripId}/hotel-shortlist?city=${encodeURIComponent(searchedCity)}`,
+          { headers: { Authorization: `Bearer ${idToken}` } },
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || `Failed to load shortlist (${res.status})`);
+        if (!cancelled) {
+          setShortlist(data.entries || []);
+          setShortlistError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setShortlistError(err instanceof Error ? err.message : "Failed to load shortlist");
+      }
+    }
+    loadShortlist();
+    return () => {
+      cancelled = true;
+    };
+  }, [idToken, selectedTripId, searchedCity]);
+
+  async function toggleShortlist(candidate: StayCandidate) {
+    if (!selectedTripId || !searchedCity) return;
+    setShortlistError(null);
+    try {
+      const existing = shortlist.find((entry) => entry.providerId === candidate.providerId);
+      if (existing) {
+        const res = await fetch(`/api/trips/${selectedTripId}/hotel-shortlist/${existing.id}`, {
+          method: "DELETE",
+          headers: jsonHeaders,
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body?.error || `Failed to update shortlist (${res.status})`);
+        }
+        setShortlist((prev) => prev.filter((entry) => entry.id !== existing.id));
+        return;
+      }
+      const res = await fetch(`/api/trips/${selectedTripId}/hotel-shortlist`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...candidate, city: searchedCity }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : `Failed to update shortlist (${res.status})`);
+      }
+      setShortlist((prev) => [...prev, data.entry as ShortlistEntry]);
+    } catch (err) {
+      setShortlistError(err instanceof Error ? err.message : "Failed to update shortlist");
+    }
+  }
+
+  // The compare table highlights the best-rated and cheapest candidates.
+  const bestRating = Math.max(0, ...shortlist.map((entry) => entry.rating ?? 0));
+  const lowestPriceLevel = Math.min(...shortlist.map((entry) => entry.priceLevel ?? Infinity));
+
+  function renderAddStay(key: string, candidate: StayCandidate) {
+    if (!selectedTrip || addingStayFor !== key) return null;
+    return (
+      <AddStayForm
+        key={`${selectedTrip.id}-${key}`}
+        tripId={selectedTrip.id}
+        days={selectedTrip.days}
+        candidate={candidate}
+        defaultDayId={defaultDayId}
+        defaultNights={searchedNights}
+        jsonHeaders={jsonHeaders}
+        onSaved={(hotel) => {
+          setAddingStayFor(null);
+          setSavedMessage(`Added ${hotel.name} to ${selectedTrip.title}.`);
+        }}
+        onCancel={() => setAddingStayFor(null)}
+      />
+    );
+  }
 
   async function fetchAnchorSuggestions(value: string) {
     const trimmed = value.trim();
@@ -77,39 +326,93 @@ function HotelResearchContent() {
     }
   }
 
+  async function fetchHotelsPage(nextPage: number) {
+    const params = new URLSearchParams({ city: query.trim(), page: String(nextPage), sort });
+    if (radiusMiles.trim()) params.set("radiusMiles", radiusMiles.trim());
+    if (minRating !== "0") params.set("minRating", minRating);
+    if (priceLevel !== "any") params.set("priceLevels", priceLevel);
+    if (maxPrice.trim()) params.set("maxPrice", maxPrice.trim());
+    if (checkIn && checkOut) {
+      params.set("checkIn", checkIn);
+      params.set("checkOut", checkOut);
+    }
+    if (anchorPlace) {
+      params.set("anchorLat", String(anchorPlace.lat));
+      params.set("anchorLng", String(anchorPlace.lng));
+      params.set("anchorPlaceId", anchorPlace.placeId);
+    }
+    const res = await fetch(`/api/maps/hotels?${params.toString()}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(body?.error || "Search failed");
+    }
+    const data = await res.json();
+    setPage(nextPage);
+    setHasMore(Boolean(data.hasMore));
+    setProviderStatuses(data.providers || []);
+    return (data.hotels || []) as HotelResult[];
+  }
+
   async function searchHotels(event?: React.FormEvent<HTMLFormElement>) {
     if (event) event.preventDefault();
     if (!query.trim()) {
       setHotels([]);
       return;
     }
+    if (Boolean(checkIn) !== Boolean(checkOut) || (checkIn && checkOut <= checkIn)) {
+      setError("Pick a check-out date after check-in, or clear both dates.");
+      return;
+    }
     setLoading(true);
     setError(null);
+    setSearchedCity(query.trim());
+    setSearchedNights(
+      checkIn && checkOut ? Math.round((Date.parse(checkOut) - Date.parse(checkIn)) / DAY_MS) : null,
+    );
+    setAddingStayFor(null);
     try {
-      const params = new URLSearchParams({ city: query.trim() });
-      if (radiusMiles.trim()) params.set("radiusMiles", radiusMiles.trim());
-      if (minRating !== "0") params.set("minRating", minRating);
-      if (priceLevel !== "any") params.set("priceLevels", priceLevel);
-      if (anchorPlace) {
-        params.set("anchorLat", String(anchorPlace.lat));
-        params.set("anchorLng", String(anchorPlace.lng));
-        params.set("anchorPlaceId", anchorPlace.placeId);
-      }
-      const res = await fetch(`/api/maps/hotels?${params.toString()}`);
-      if (!res.ok) {
-        const body = await res.json().catch(() => ({}));
-        throw new Error(body?.error || "Search failed");
-      }
-      const data = await res.json();
-      setHotels(data.hotels || []);
+      setHotels(await fetchHotelsPage(1));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Search failed");
       setHotels([]);
+      setHasMore(false);
+      setProviderStatuses([]);
     } finally {
       setLoading(false);
     }
   }
 
+  async function loadMoreHotels() {
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const more = await fetchHotelsPage(page + 1);
+      // Hotels already listed come back with the later page's quotes merged in; they replace the shown card.
+      setHotels((prev) => {
+        const updates = new Map(more.map((hotel) => [hotel.id, hotel]));
+        const seen = new Set(prev.map((hotel) => hotel.id));
+        return [
+          ...prev.map((hotel) => updates.get(hotel.id) ?? hotel),
+          ...more.filter((hotel) => !seen.has(hotel.id)),
+        ];
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const providerNotes = providerStatuses
+    .filter((provider) => provider.status !== "ok" && provider.status !== "cached")
+    .map((provider) => {
+      const label = PROVIDER_LABELS[provider.name] ?? provider.name;
+      if (provider.status === "skipped") return `${label}: add dates for prices`;
+      if (provider.status === "stale") return `${label}: showing earlier results (${provider.message ?? "unavailable"})`;
+      if (provider.status === "rate_limited") return `${label}: busy, try again shortly`;
+      return `${label}: ${provider.message ?? "unavailable"}`;
+    });
+
   useEffect(() => {
     if (initialCity) {
       searchHotels();
@@ -124,11 +427,51 @@ function HotelResearchContent() {
           <p className="text-xs font-black uppercase tracking-[0.35em] text-dayglo-pink">Hotel research</p>
           <h1 className="text-3xl font-black">Find stays via Google Maps</h1>
           <p className="text-sm text-dayglo-void/80">
-            Search hotels in a city. Results link directly to Google Maps for details and booking info. Filter by distance,
-            rating, and price level to get closer matches.
+            Search hotels in a city across every configured source. Add stay dates to see nightly prices, then filter by
+            distance, rating, price level, or budget to get closer matches.
           </p>
         </header>
 
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border-2 border-dayglo-void bg-white p-4 shadow-hard-sm">
+          {!idToken ? (
+            <p className="text-sm font-semibold text-dayglo-void/80">
+              Sign in on the dashboard to shortlist hotels and add them to a trip.
+            </p>
+          ) : trips.length ? (
+            <>
+              <label className="flex items-center gap-2 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">
+                Trip
+                <select
+                  value={selectedTripId}
+                  onChange={(e) => {
+                    setSelectedTripId(e.target.value);
+                    setAddingStayFor(null);
+                    setSavedMessage(null);
+                  }}
+                  className="rounded-md border-2 border-dayglo-void bg-paper px-2 py-1 text-sm font-semibold normal-case tracking-normal text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                >
+                  {trips.map((trip) => (
+                    <option key={trip.id} value={trip.id}>
+                      {trip.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs font-semibold text-dayglo-void/70">Shortlists and stays are saved to this trip.</p>
+            </>
+          ) : (
+            <p className="text-sm font-semibold text-dayglo-void/80">You have no trips you can edit yet.</p>
+          )}
+          {savedMessage && selectedTrip && (
+            <p className="w-full text-xs font-black text-dayglo-void">
+              {savedMessage}{" "}
+              <a href={`/dashboard?tripId=${selectedTrip.id}`} className="text-dayglo-pink underline">
+                Open trip
+              </a>
+            </p>
+          )}
+        </div>
+
         <form
           onSubmit={searchHotels}
           className="flex flex-col gap-3 rounded-lg border-2 border-dayglo-void bg-white p-4 shadow-hard-sm sm:flex-row sm:flex-wrap"
@@ -223,6 +566,47 @@ function HotelResearchContent() {
                 <option value="4">$$$$</option>
               </select>
             </div>
+            <div className="flex flex-col">
+              <label className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">Check in</label>
+              <input
+                type="date"
+                value={checkIn}
+                onChange={(e) => setCheckIn(e.target.value)}
+                className="w-36 rounded-md border-2 border-dayglo-void bg-paper px-2 py-1 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+              />
+            </div>
+            <div className="flex flex-col">
+              <label className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">Check out</label>
+              <input
+                type="date"
+                value={checkOut}
+                min={checkIn || undefined}
+                onChange={(e) => setCheckOut(e.target.value)}
+                className="w-36 rounded-md border-2 border-dayglo-void bg-paper px-2 py-1 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+              />
+            </div>
+            <div className="flex flex-col">
+              <label className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">Max / night</label>
+              <input
+                value={maxPrice}
+                onChange={(e) => setMaxPrice(e.target.value.replace(/[^0-9.]/g, ""))}
+                inputMode="decimal"
+                className="w-28 rounded-md border-2 border-dayglo-void bg-paper px-2 py-1 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                placeholder="Any"
+              />
+            </div>
+            <div className="flex flex-col">
+              <label className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">Sort by</label>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value)}
+                className="w-28 rounded-md border-2 border-dayglo-void bg-paper px-2 py-1 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+              >
+                <option value="rating">Rating</option>
+                <option value="price">Price</option>
+                <option value="distance">Distance</option>
+              </select>
+            </div>
           </div>
           <button
             type="submit"
@@ -234,6 +618,72 @@ function HotelResearchContent() {
         </form>
 
         {error && <p className="text-sm text-rose-500">{error}</p>}
+        {providerNotes.length > 0 && (
+          <p className="text-xs font-semibold text-dayglo-void/70">{providerNotes.join(" · ")}</p>
+        )}
+        {shortlistError && <p className="text-sm text-rose-500">{shortlistError}</p>}
+
+        {selectedTrip && shortlist.length > 0 && (
+          <section className="space-y-3 rounded-lg border-2 border-dayglo-void bg-white p-4 shadow-hard-sm">
+            <div>
+              <p className="text-xs font-black uppercase tracking-[0.35em] text-dayglo-pink">Shortlist</p>
+              <h2 className="text-xl font-black">Compare stays in {searchedCity}</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">
+                    <th className="py-1 pr-3">Hotel</th>
+                    <th className="py-1 pr-3">Rating</th>
+                    <th className="py-1 pr-3">Reviews</th>
+                    <th className="py-1 pr-3">Price</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {shortlist.map((entry) => (
+                    <tr key={entry.id} className="border-t border-dayglo-void/20 align-top">
+                      <td className="py-2 pr-3">
+                        <p className="font-black">{entry.name}</p>
+                        {entry.address && <p className="text-xs text-dayglo-void/70">{entry.address}</p>}
+                        {renderAddStay(`shortlist:${entry.id}`, entry)}
+                      </td>
+                      <td className={`py-2 pr-3 font-semibold ${entry.rating && entry.rating === bestRating ? "bg-dayglo-lime/40" : ""}`}>
+                        {entry.rating ?? "—"}
+                      </td>
+                      <td className="py-2 pr-3 font-semibold">{entry.userRatingsTotal ?? "—"}</td>
+                      <td
+                        className={`py-2 pr-3 font-semibold ${
+                          entry.priceLevel !== null && entry.priceLevel === lowestPriceLevel ? "bg-dayglo-lime/40" : ""
+                        }`}
+                      >
+                        {typeof entry.priceLevel === "number" ? "$".repeat(entry.priceLevel || 1) : "—"}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex flex-col items-end gap-1 text-[11px] font-black uppercase tracking-[0.2em]">
+                          <button
+                            type="button"
+                            onClick={() => setAddingStayFor(`shortlist:${entry.id}`)}
+                            className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-2 py-0.5 text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none"
+                          >
+                            Add to trip
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => toggleShortlist(entry)}
+                            className="text-dayglo-void underline hover:text-dayglo-pink"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
 
         <div className="grid gap-3">
           {hotels.map((hotel) => (
@@ -242,8 +692,38 @@ function HotelResearchContent() {
                 <div>
                   <p className="text-lg font-black text-dayglo-void">{hotel.name}</p>
                   {hotel.address && <p className="text-sm text-dayglo-void/80">{hotel.address}</p>}
+                  {typeof hotel.nightlyPrice === "number" && hotel.currency && (
+                    <p className="text-sm font-black text-dayglo-pink">
+                      {formatPrice(hotel.nightlyPrice, hotel.currency)} / night
+                      {typeof hotel.totalPrice === "number" && (
+                        <span className="ml-2 text-xs font-semibold text-dayglo-void/70">
+                          {formatPrice(hotel.totalPrice, hotel.currency)} total
+                        </span>
+                      )}
+                    </p>
+                  )}
                 </div>
-                <div className="flex items-center gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {selectedTrip && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => toggleShortlist(resultCandidate(hotel))}
+                        className={`rounded-md border-2 border-dayglo-void px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none ${
+                          shortlistedIds.has(hotel.id) ? "bg-dayglo-pink" : "bg-white"
+                        }`}
+                      >
+                        {shortlistedIds.has(hotel.id) ? "Shortlisted" : "Shortlist"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setAddingStayFor((prev) => (prev === `result:${hotel.id}` ? null : `result:${hotel.id}`))}
+                        className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none"
+                      >
+                        Add to trip
+                      </button>
+                    </>
+                  )}
                   <button
                     type="button"
                     onClick={() => setExpandedHotelId((prev) => (prev === hotel.id ? null : hotel.id))}
@@ -267,6 +747,9 @@ function HotelResearchContent() {
                 {hotel.rating && (
                   <span className="rounded border border-dayglo-void/40 bg-dayglo-yellow/40 px-2 py-1">Rating {hotel.rating} ⭐</span>
                 )}
+                {typeof hotel.reviewScore === "number" && (
+                  <span className="rounded border border-dayglo-void/40 bg-dayglo-yellow/40 px-2 py-1">Guest score {hotel.reviewScore}/10</span>
+                )}
                 {hotel.userRatingsTotal && (
                   <span className="rounded border border-dayglo-void/40 bg-dayglo-yellow/40 px-2 py-1">{hotel.userRatingsTotal} reviews</span>
                 )}
@@ -278,7 +761,25 @@ function HotelResearchContent() {
                     {hotel.distanceMiles.toFixed(1)} mi from anchor
                   </span>
                 )}
+                {hotel.quotes?.map((quote) =>
+                  quote.url ? (
+                    <a
+                      key={quote.provider}
+                      href={quote.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="rounded border border-dayglo-void/40 bg-dayglo-lime/40 px-2 py-1 underline hover:bg-dayglo-yellow"
+                    >
+                      {PROVIDER_LABELS[quote.provider] ?? quote.provider} {formatPrice(quote.nightlyPrice, quote.currency)}
+                    </a>
+                  ) : (
+                    <span key={quote.provider} className="rounded border border-dayglo-void/40 bg-dayglo-lime/40 px-2 py-1">
+                      {PROVIDER_LABELS[quote.provider] ?? quote.provider} {formatPrice(quote.nightlyPrice, quote.currency)}
+                    </span>
+                  ),
+                )}
               </div>
+              {renderAddStay(`result:${hotel.id}`, resultCandidate(hotel))}
               {expandedHotelId === hotel.id && (
                 <div className="mt-3 rounded-lg border-2 border-dayglo-void bg-dayglo-yellow/20 p-3 shadow-hard-sm">
                   {hotel.lat != null && hotel.lng != null && (
@@ -305,6 +806,16 @@ function HotelResearchContent() {
           {!loading && hotels.length === 0 && !error && (
             <p className="text-sm text-dayglo-void/80">No hotels yet. Search above to see results.</p>
           )}
+          {hasMore && hotels.length > 0 && (
+            <button
+              type="button"
+              onClick={loadMoreHotels}
+              disabled={loadingMore}
+              className="justify-self-center rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-4 py-2 text-sm font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none disabled:cursor-wait"
+            >
+              {loadingMore ? "Loading..." : "Load more"}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+import { useAuth } from "@/components/auth-provider";
+
+export default function AcceptInvitePage() {
+  const router = useRouter();
+  const params = useParams<{ token: string }>();
+  const { user, idToken, status, firebaseConfigured, signInWithGoogle } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+  const attempted = useRef(false);
+
+  const isReady = status === "ready" && Boolean(user && idToken);
+
+  useEffect(() => {
+    if (!isReady || !idToken || !params?.token || attempted.current) return;
+    attempted.current = true;
+    async function acceptInvite() {
+      setAccepting(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/invites/accept", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${idToken}`,
+          },
+          body: JSON.stringify({ token: params.token }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(data?.error || `Failed to accept invite (${res.status})`);
+        }
+        router.push(`/dashboard?tripId=${data.tripId ?? ""}`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Something went wrong");
+        setAccepting(false);
+      }
+    }
+    acceptInvite();
+  }, [idToken, isReady, params?.token, router]);
+
+  return (
+    <div className="min-h-screen bg-paper text-dayglo-void">
+      <div className="mx-auto w-full max-w-xl px-6 py-16">
+        <header className="space-y-2 text-center">
+          <p className="text-xs font-black uppercase tracking-[0.35em] text-dayglo-pink">Trip Invite</p>
+          <h1 className="text-4xl font-black uppercase">You&apos;re invited</h1>
+          <p className="text-sm text-dayglo-void/80">Sign in and we&apos;ll add you to the trip.</p>
+        </header>
+
+        {!firebaseConfigured && (
+          <p className="mt-8 rounded-lg border-2 border-dayglo-void bg-white p-4 text-sm font-semibold text-dayglo-void">
+            Firebase is not configured. Add NEXT_PUBLIC_FIREBASE_* env vars to enable auth.
+          </p>
+        )}
+
+        <div className="mt-10 rounded-lg border-2 border-dayglo-void bg-white p-6 text-center shadow-hard">
+          {!isReady ? (
+            <>
+              <p className="text-sm font-semibold">Sign in with Google to join this trip.</p>
+              <button
+                type="button"
+                onClick={() => signInWithGoogle().catch((err) => setError(err.message))}
+                disabled={!firebaseConfigured || status === "loading"}
+                className="mt-4 rounded-md border-2 border-dayglo-void bg-dayglo-lime px-4 py-2 text-sm font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-not-allowed"
+              >
+                Sign in with Google
+              </button>
+            </>
+          ) : accepting ? (
+            <p className="text-sm font-semibold">Joining trip...</p>
+          ) : (
+            !error && <p className="text-sm font-semibold">Checking invite...</p>
+          )}
+          {error && (
+            <div className="mt-3 space-y-3">
+              <p className="text-sm text-rose-500">{error}</p>
+              <button
+                type="button"
+                onClick={() => router.push("/dashboard")}
+                className="rounded-md border-2 border-dayglo-void bg-white px-4 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow"
+              >
+                Go to dashboard
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -51,6 +51,10 @@ export default function StartTripPage() {
       .slice(0, 10);
   };
   const [selectedProfileId, setSelectedProfileId] = useState<string>("");
+  const [templates, setTemplates] = useState<
+    Array<{ id: string; name: string; title: string; homeCity?: string | null; dayCount: number; cities: string[] }>
+  >([]);
+  const [templateId, setTemplateId] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -70,9 +74,24 @@ export default function StartTripPage() {
         console.warn("Failed to load saved profiles", error);
       }
     }
+    async function fetchTemplates() {
+      try {
+        const res = await fetch("/api/templates", {
+          headers: { Authorization: `Bearer ${idToken}` },
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        setTemplates(data.templates || []);
+      } catch (error) {
+        console.warn("Failed to load trip templates", error);
+      }
+    }
     fetchProfiles();
+    fetchTemplates();
   }, [idToken, isReady]);
 
+  const selectedTemplate = templates.find((template) => template.id === templateId) ?? null;
+
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!isReady || !idToken) {
@@ -82,6 +101,25 @@ export default function StartTripPage() {
     setLoading(true);
     setError(null);
     try {
+      // Templates carry their own days and length, so only the title and new start date are sent.
+      if (selectedTemplate) {
+        if (!form.startDate) throw new Error("Pick a start date for the template.");
+        const res = await fetch(`/api/trips/${selectedTemplate.id}/duplicate`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${idToken}`,
+          },
+          body: JSON.stringify({ title: form.title, startDate: form.startDate }),
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(typeof body?.error === "string" ? body.error : "Failed to create trip");
+        }
+        const data = await res.json();
+        router.push(`/dashboard?tripId=${data.trip?.id ?? ""}`);
+        return;
+      }
       const res = await fetch("/api/trips", {
         method: "POST",
         headers: {
@@ -153,6 +191,39 @@ export default function StartTripPage() {
         ) : (
           <form onSubmit={handleSubmit} className="mt-10 space-y-4 rounded-lg border-2 border-dayglo-void bg-white p-6 shadow-hard">
             {error && <p className="rounded-md border-2 border-rose-500 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p>}
+            {templates.length > 0 && (
+              <div>
+                <label className="text-xs font-black uppercase" htmlFor="template">
+                  Start from a template
+                </label>
+                <select
+                  id="template"
+                  value={templateId}
+                  onChange={(event) => {
+                    const id = event.target.value;
+                    setTemplateId(id);
+                    const found = templates.find((template) => template.id === id);
+                    if (found) {
+                      setForm((prev) => ({ ...prev, title: prev.title || found.title, homeCity: found.homeCity || prev.homeCity }));
+                    }
+                  }}
+                  className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-paper px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                >
+                  <option value="">Blank trip</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name} · {template.dayCount} {template.dayCount === 1 ? "day" : "days"}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate && (
+                  <p className="mt-1 text-xs font-semibold text-dayglo-void/70">
+                    {selectedTemplate.cities.join(" → ") || "No cities yet"}. Days, activities, hotels, and the profile are
+                    copied; the end date follows from the template&apos;s length.
+                  </p>
+                )}
+              </div>
+            )}
             <div>
               <label className="text-xs font-black uppercase" htmlFor="title">
                 Trip title
@@ -185,6 +256,7 @@ export default function StartTripPage() {
                 <input
                   id="startDate"
                   type="date"
+                  required={Boolean(selectedTemplate)}
                   value={form.startDate}
                   onChange={(event) => setForm((prev) => ({ ...prev, startDate: event.target.value }))}
                   className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-paper px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
@@ -197,6 +269,7 @@ export default function StartTripPage() {
                 <input
                   id="endDate"
                   type="date"
+                  disabled={Boolean(selectedTemplate)}
                   value={form.endDate}
                   onChange={(event) => setForm((prev) => ({ ...prev, endDate: event.target.value }))}
                   className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-paper px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
@@ -0,0 +1,112 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { stayDates } from "@/lib/hotel-stays";
+import { loadPublicTrip } from "@/lib/public-trip";
+import { formatTimeInZone } from "@/lib/timezones";
+
+export const dynamic = "force-dynamic";
+
+type PublicTripPageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+// Times are shown in the local zone of the day's city, whatever the reader's own zone is.
+const formatTime = (iso: string | null, timeZone: string | null) => (iso ? formatTimeInZone(iso, timeZone) : null);
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+export async function generateMetadata({ params }: PublicTripPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const trip = await loadPublicTrip(slug);
+  return {
+    title: trip ? `${trip.title} | The Trip` : "Trip not found | The Trip",
+    robots: { index: false },
+  };
+}
+
+export default async function PublicTripPage({ params }: PublicTripPageProps) {
+  const { slug } = await params;
+  const trip = await loadPublicTrip(slug);
+  if (!trip) notFound();
+
+  return (
+    <div className="min-h-screen bg-paper text-dayglo-void">
+      <div className="mx-auto w-full max-w-3xl space-y-8 px-6 py-16">
+        <header className="space-y-2">
+          <p className="text-xs font-black uppercase tracking-[0.35em] text-dayglo-pink">Itinerary</p>
+          <h1 className="text-4xl font-black uppercase">{trip.title}</h1>
+          {trip.startDate && trip.endDate && (
+            <p className="text-sm font-semibold">
+              {formatDay(trip.startDate)} – {formatDay(trip.endDate)}
+            </p>
+          )}
+          {trip.description && <p className="text-sm text-dayglo-void/80">{trip.description}</p>}
+          {trip.cityRoute.length > 0 && (
+            <p className="text-xs font-black uppercase tracking-[0.2em]">
+              {[trip.homeCity, ...trip.cityRoute].filter(Boolean).join(" → ")}
+            </p>
+          )}
+        </header>
+
+        <ol className="space-y-6">
+          {trip.days.map((day) => (
+            <li key={day.id} className="rounded-lg border-2 border-dayglo-void bg-white p-5 shadow-hard">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-lg font-black uppercase">{day.city}</h2>
+                <p className="text-xs font-black uppercase tracking-[0.2em] text-dayglo-void/70">{formatDay(day.date)}</p>
+              </div>
+              {day.notes && <p className="mt-2 text-sm text-dayglo-void/80">{day.notes}</p>}
+
+              {day.activities.length > 0 ? (
+                <ul className="mt-4 space-y-3">
+                  {day.activities.map((activity) => {
+                    const start = formatTime(activity.startTime, day.timezone);
+                    const end = formatTime(activity.endTime, day.timezone);
+                    return (
+                      <li key={activity.id} className="border-l-4 border-dayglo-lime pl-3">
+                        <p className="text-xs font-black uppercase tracking-[0.2em] text-dayglo-void/70">
+                          {start ? (end ? `${start} – ${end}` : start) : "Anytime"}
+                        </p>
+                        <p className="font-semibold">{activity.title}</p>
+                        {activity.location && <p className="text-xs text-dayglo-void/70">{activity.location}</p>}
+                        {activity.notes && <p className="mt-1 text-sm text-dayglo-void/80">{activity.notes}</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="mt-4 text-sm text-dayglo-void/60">Nothing scheduled yet.</p>
+              )}
+
+              {day.hotels.length > 0 && (
+                <div className="mt-4 rounded-md border-2 border-dayglo-void bg-paper px-3 py-2">
+                  <p className="text-[11px] font-black uppercase tracking-[0.2em]">Staying at</p>
+                  {day.hotels.map((hotel) => {
+                    const { nights } = stayDates(hotel, day.timezone);
+                    return (
+                      <p key={hotel.id} className="text-sm font-semibold">
+                        {hotel.name}
+                        <span className="font-normal text-dayglo-void/70">
+                          {" "}
+                          · {nights} night{nights === 1 ? "" : "s"}
+                        </span>
+                        {hotel.address && <span className="font-normal text-dayglo-void/70"> · {hotel.address}</span>}
+                      </p>
+                    );
+                  })}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
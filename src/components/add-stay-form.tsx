@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+
+import type { HotelStay } from "@/lib/hotel-stays";
+
+// A hotel found on /hotel-research (a search result or a shortlist entry), as much as the stay needs from it.
+export type StayCandidate = {
+  providerId: string;
+  name: string;
+  address?: string | null;
+  rating?: number | null;
+  userRatingsTotal?: number | null;
+  priceLevel?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  mapsUrl?: string | null;
+  // The quoted nightly rate when the search had stay dates.
+  pricePerNight?: number | null;
+  currency?: string | null;
+};
+
+export type StayTripDay = { id: string; date: string; city: string };
+
+type AddStayFormProps = {
+  tripId: string;
+  days: StayTripDay[];
+  candidate: StayCandidate;
+  defaultDayId?: string | null;
+  defaultNights?: number | null;
+  jsonHeaders: HeadersInit;
+  onSaved: (hotel: HotelStay) => void;
+  onCancel: () => void;
+};
+
+export function AddStayForm({
+  tripId,
+  days,
+  candidate,
+  defaultDayId,
+  defaultNights,
+  jsonHeaders,
+  onSaved,
+  onCancel,
+}: AddStayFormProps) {
+  const [dayId, setDayId] = useState(defaultDayId ?? days[0]?.id ?? "");
+  const [nights, setNights] = useState(String(defaultNights ?? 1));
+  const [pricePerNight, setPricePerNight] = useState(
+    candidate.pricePerNight != null ? String(candidate.pricePerNight) : "",
+  );
+  const [currency, setCurrency] = useState(candidate.currency ?? "USD");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const day = days.find((entry) => entry.id === dayId);
+    const nightCount = Number.parseInt(nights, 10);
+    if (!day || !Number.isFinite(nightCount) || nightCount < 1) {
+      setError("Pick a check-in day and at least one night.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/hotels`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({
+          name: candidate.name,
+          checkInDate: day.date.slice(0, 10),
+          nights: nightCount,
+          providerId: candidate.providerId,
+          address: candidate.address ?? null,
+          latitude: candidate.latitude ?? null,
+          longitude: candidate.longitude ?? null,
+          rating: candidate.rating ?? null,
+          priceLevel: candidate.priceLevel ?? null,
+          pricePerNight: pricePerNight.trim() ? pricePerNight.trim() : null,
+          currency: currency.trim() || undefined,
+          metadata: {
+            source: "hotel-research",
+            ...(candidate.mapsUrl ? { offer: candidate.mapsUrl } : {}),
+            ...(candidate.userRatingsTotal ? { userRatingsTotal: candidate.userRatingsTotal } : {}),
+          },
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : `Failed to add stay (${res.status})`);
+      }
+      onSaved(data.hotel as HotelStay);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add stay");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClass =
+    "rounded-md border-2 border-dayglo-void bg-paper px-2 py-1 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard";
+  const labelClass = "flex flex-col text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70";
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mt-3 flex flex-wrap items-end gap-2 rounded-lg border-2 border-dayglo-void bg-dayglo-lime/20 p-3 shadow-hard-sm"
+    >
+      <label className={labelClass}>
+        Check in
+        <select value={dayId} onChange={(e) => setDayId(e.target.value)} className={inputClass}>
+          {days.map((day) => (
+            <option key={day.id} value={day.id}>
+              {format(new Date(day.date), "EEE, MMM d")} — {day.city}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={labelClass}>
+        Nights
+        <input
+          type="number"
+          min={1}
+          value={nights}
+          onChange={(e) => setNights(e.target.value)}
+          className={`${inputClass} w-20`}
+        />
+      </label>
+      <label className={labelClass}>
+        Price / night
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={pricePerNight}
+          onChange={(e) => setPricePerNight(e.target.value)}
+          placeholder="Optional"
+          className={`${inputClass} w-28`}
+        />
+      </label>
+      <label className={labelClass}>
+        Currency
+        <input
+          value={currency}
+          maxLength={3}
+          onChange={(e) => setCurrency(e.target.value)}
+          className={`${inputClass} w-20`}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={saving || !days.length}
+        className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none disabled:cursor-wait disabled:opacity-60"
+      >
+        {saving ? "Adding..." : "Add stay"}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void underline hover:text-dayglo-pink"
+      >
+        Cancel
+      </button>
+      {error && <p className="w-full text-xs font-semibold text-rose-500">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+
+import type { CityRoutePlan } from "@/lib/city-route-planner";
+
+type CityRow = { city: string; nights: string };
+
+type CityRoutePlannerProps = {
+  tripId: string;
+  tripVersion?: number;
+  jsonHeaders: HeadersInit;
+  initialCities: string[];
+  initialStartDate: string;
+  initialEndDate: string;
+  // Receives the trip (with its days) returned once the plan has been written.
+  onApplied: (trip: unknown) => void;
+};
+
+const MODE_OPTIONS = [
+  { value: "", label: "Auto (train, fly long hops)" },
+  { value: "train", label: "Train" },
+  { value: "car", label: "Drive" },
+  { value: "flight", label: "Fly" },
+  { value: "transit", label: "Transit" },
+] as const;
+
+const dayLabel = (date: string) => format(new Date(`${date}T12:00:00Z`), "MMM d");
+
+export function CityRoutePlanner({
+  tripId,
+  tripVersion,
+  jsonHeaders,
+  initialCities,
+  initialStartDate,
+  initialEndDate,
+  onApplied,
+}: CityRoutePlannerProps) {
+  const [rows, setRows] = useState<CityRow[]>(() =>
+    (initialCities.length ? initialCities : [""]).map((city) => ({ city, nights: "" })),
+  );
+  const [startDate, setStartDate] = useState(initialStartDate);
+  const [endDate, setEndDate] = useState(initialEndDate);
+  const [keepOrder, setKeepOrder] = useState(false);
+  const [mode, setMode] = useState("");
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [plan, setPlan] = useState<CityRoutePlan | null>(null);
+  const [conflicts, setConflicts] = useState<string[]>([]);
+  const [busy, setBusy] = useState<"preview" | "apply" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // "Create days" re-plans from the form, so any edit drops the preview it would no longer match.
+  const edit = (change: () => void) => {
+    change();
+    setPlan(null);
+  };
+
+  const updateRow = (index: number, patch: Partial<CityRow>) =>
+    edit(() => setRows((prev) => prev.map((row, position) => (position === index ? { ...row, ...patch } : row))));
+
+  async function submit(apply: boolean) {
+    const cities = rows
+      .filter((row) => row.city.trim())
+      .map((row) => {
+        const nights = Number.parseInt(row.nights, 10);
+        return { city: row.city.trim(), ...(Number.isFinite(nights) && nights > 0 ? { nights } : {}) };
+      });
+    if (!cities.length || !startDate || !endDate) {
+      setError("Add at least one city and both dates.");
+      return;
+    }
+    setBusy(apply ? "apply" : "preview");
+    setError(null);
+    setConflicts([]);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/city-route`, {
+        method: "POST",
+        headers: apply && tripVersion ? { ...jsonHeaders, "If-Match": `"${tripVersion}"` } : jsonHeaders,
+        body: JSON.stringify({
+          cities,
+          startDate,
+          endDate,
+          keepOrder,
+          mode: mode || undefined,
+          apply,
+          replaceExisting: apply ? replaceExisting : undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 409 && Array.isArray(data.conflicts)) {
+        setConflicts(data.conflicts);
+        throw new Error(data.error || "The trip already has days in this window.");
+      }
+      if (!res.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : `Failed to plan route (${res.status})`);
+      }
+      setPlan(data.plan as CityRoutePlan);
+      if (apply && data.trip) {
+        onApplied(data.trip);
+        setPlan(null);
+        setReplaceExisting(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to plan route");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const inputClass =
+    "rounded-md border-2 border-dayglo-void bg-white px-2 py-1 text-xs font-semibold text-dayglo-void focus:outline-none focus:ring-2 focus:ring-dayglo-pink";
+  const buttonClass =
+    "rounded-md border-2 border-dayglo-void px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-not-allowed disabled:opacity-60";
+
+  return (
+    <div className="mt-4 space-y-3 border-t-2 border-dashed border-dayglo-void/40 pt-3">
+      <p className="text-[11px] font-black uppercase tracking-[0.3em] text-dayglo-pink">Plan cities</p>
+      <p className="text-xs font-semibold text-dayglo-void/70">
+        List the cities and a date window. Leave nights blank to share the rest of the window.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <label className="flex flex-col text-[11px] font-black uppercase text-dayglo-void">
+          From
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => edit(() => setStartDate(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col text-[11px] font-black uppercase text-dayglo-void">
+          To
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => edit(() => setEndDate(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col text-[11px] font-black uppercase text-dayglo-void">
+          Between cities
+          <select value={mode} onChange={(e) => edit(() => setMode(e.target.value))} className={inputClass}>
+            {MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="space-y-1">
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              value={row.city}
+              onChange={(e) => updateRow(index, { city: e.target.value })}
+              placeholder="City"
+              className={`${inputClass} flex-1`}
+            />
+            <input
+              type="number"
+              min={1}
+              value={row.nights}
+              onChange={(e) => updateRow(index, { nights: e.target.value })}
+              placeholder="Nights"
+              className={`${inputClass} w-20`}
+            />
+            <button
+              type="button"
+              onClick={() => edit(() => setRows((prev) => prev.filter((_, position) => position !== index)))}
+              disabled={rows.length === 1}
+              className="text-xs font-black text-dayglo-void/70 hover:text-dayglo-pink disabled:opacity-40"
+              aria-label="Remove city"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => edit(() => setRows((prev) => [...prev, { city: "", nights: "" }]))}
+          className={`${buttonClass} bg-white`}
+        >
+          Add city
+        </button>
+        <label className="flex items-center gap-1 text-[11px] font-semibold text-dayglo-void">
+          <input
+            type="checkbox"
+            checked={keepOrder}
+            onChange={(e) => edit(() => setKeepOrder(e.target.checked))}
+          />
+          Keep my order
+        </label>
+        <button
+          type="button"
+          onClick={() => submit(false)}
+          disabled={busy !== null}
+          className={`${buttonClass} bg-dayglo-cyan`}
+        >
+          {busy === "preview" ? "Planning..." : "Suggest route"}
+        </button>
+      </div>
+      {error && <p className="text-xs font-semibold text-rose-500">{error}</p>}
+      {conflicts.length > 0 && (
+        <p className="text-[11px] font-semibold text-dayglo-void/70">
+          Existing days: {conflicts.map(dayLabel).join(", ")}. Tick “replace” to move them to the trash.
+        </p>
+      )}
+      {plan && (
+        <div className="space-y-2">
+          <ol className="space-y-1">
+            {plan.stops.map((stop, index) => {
+              const leg = plan.legs[index - 1];
+              return (
+                <li key={`${stop.city}-${stop.arrivalDate}`} className="text-xs font-semibold text-dayglo-void">
+                  {leg && (
+                    <p className="pl-3 text-[11px] text-dayglo-void/70">
+                      ↓ {leg.mode}
+                      {leg.summary
+                        ? ` • ${leg.summary}`
+                        : leg.distanceKm !== null
+                        ? ` • ${Math.round(leg.distanceKm).toLocaleString("en-US")} km`
+                        : ""}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between rounded-md border border-dayglo-void/40 bg-dayglo-yellow/20 px-3 py-1">
+                    <span className="font-black">{stop.city}</span>
+                    <span className="data-mono text-[11px]">
+                      {dayLabel(stop.arrivalDate)} → {dayLabel(stop.departureDate)} · {stop.nights} night
+                      {stop.nights === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+          <p className="text-[11px] font-semibold text-dayglo-void/70">
+            {plan.reordered ? "Reordered to cut travel. " : ""}
+            {plan.totalKm !== null ? `${plan.totalKm.toLocaleString("en-US")} km between cities.` : ""}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-1 text-[11px] font-semibold text-dayglo-void">
+              <input
+                type="checkbox"
+                checked={replaceExisting}
+                onChange={(e) => setReplaceExisting(e.target.checked)}
+              />
+              Replace existing days in this window
+            </label>
+            <button
+              type="button"
+              onClick={() => submit(true)}
+              disabled={busy !== null}
+              className={`${buttonClass} bg-dayglo-lime`}
+            >
+              {busy === "apply" ? "Creating..." : "Create days"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
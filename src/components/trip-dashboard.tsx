@@ -2,11 +2,23 @@
 
 import Image from "next/image";
 import { useRouter } from "next/navigation";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import { addDays, endOfWeek, format, startOfWeek } from "date-fns";
 
 import { useAuth } from "@/components/auth-provider";
+import { CityRoutePlanner } from "@/components/city-route-planner";
+import { TripMap } from "@/components/trip-map";
 import { clientEnv } from "@/lib/env";
+import {
+  DEFAULT_CHECK_IN_TIME,
+  DEFAULT_CHECK_OUT_TIME,
+  stayCoversNight,
+  stayDates,
+  stayTotal,
+  type HotelStay,
+} from "@/lib/hotel-stays";
+import type { RouteOptimization } from "@/lib/route-optimizer";
+import { formatTimeInZone, timeZoneLabel, wallClockInZone, zonedTimeToUtc } from "@/lib/timezones";
 
 type Activity = {
   id: string;
@@ -21,23 +33,13 @@ type Activity = {
   travelDurationSeconds?: number | null;
   travelSummary?: string | null;
   travelPolyline?: string | null;
+  travelMode?: TravelMode | null;
   type?: string | null;
   metadata?: Record<string, unknown> | null;
   source?: string | null;
   budget?: number | string | null;
-};
-
-type HotelActivityMetadata = {
-  kind?: string;
-  hotelId?: string;
-  nights?: number;
-  price?: number;
-  currency?: string;
-  distanceKm?: number;
-  reviewScore?: number;
-  offer?: string;
-  address?: string;
-  description?: string;
+  notesPrivate?: boolean;
+  version?: number;
 };
 
 type TripDay = {
@@ -47,8 +49,26 @@ type TripDay = {
   cityPlaceId?: string | null;
   cityLatitude?: number | null;
   cityLongitude?: number | null;
+  timezone?: string | null;
   notes?: string | null;
+  notesPrivate?: boolean;
+  version?: number;
   activities?: Activity[];
+  travelSegments?: TravelSegment[];
+  hotels?: HotelStay[];
+};
+
+type TravelSegment = {
+  id: string;
+  tripDayId: string;
+  fromActivityId?: string | null;
+  toActivityId?: string | null;
+  fromCity: string;
+  toCity: string;
+  mode: TravelMode;
+  distanceKm?: number | null;
+  durationMinutes?: number | null;
+  summary?: string | null;
 };
 
 type PlaceSuggestion = {
@@ -78,7 +98,107 @@ type Trip = {
   profileId?: string | null;
   profile?: TravelProfile | null;
   days: TripDay[];
-  collaborators?: Array<{ id: string; email: string }>;
+  isPublic?: boolean;
+  shareSlug?: string | null;
+  version?: number;
+  role?: TripRole | null;
+  collaborators?: Array<{ id: string; email: string; role?: CollaboratorRole }>;
+};
+
+type CollaboratorRole = "viewer" | "editor" | "co_owner";
+type TripRole = "owner" | CollaboratorRole;
+
+type TripInviteLink = {
+  id: string;
+  role: CollaboratorRole;
+  expiresAt: string;
+  maxUses: number | null;
+  useCount: number;
+  status: "active" | "expired" | "revoked" | "used";
+  url: string | null;
+};
+
+type TripHistoryEvent = {
+  id: string;
+  actorEmail: string;
+  entityType: "trip" | "day" | "activity";
+  entityId: string;
+  action: "create" | "update" | "move" | "delete";
+  summary?: string | null;
+  changes?: Record<string, { before: unknown; after: unknown }> | null;
+  createdAt: string;
+};
+
+const formatHistoryValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return `${value.slice(0, 10)} ${value.slice(11, 16)}`;
+  }
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+type ScheduleConflict = {
+  kind: "overlap" | "transit" | "opening_hours";
+  dayId: string;
+  activityId: string;
+  otherActivityId: string | null;
+  message: string;
+  minutes: number;
+};
+
+type TrashedTrip = {
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAfter: string | null;
+};
+
+type TrashedDay = TripDay & { deletedAt: string; purgeAfter: string | null; activityCount: number };
+
+type TrashedActivity = Activity & {
+  deletedAt: string;
+  purgeAfter: string | null;
+  tripDay: { id: string; date: string; city: string };
+};
+
+type TrashedHotel = HotelStay & {
+  deletedAt: string;
+  purgeAfter: string | null;
+  tripDay: { id: string; date: string; city: string };
+};
+
+type TripViewer = {
+  connectionId: string;
+  userId: string;
+  email: string;
+  displayName: string | null;
+  dayId: string | null;
+};
+
+type TripMember = {
+  id: string;
+  email: string;
+  role: CollaboratorRole;
+  displayName?: string | null;
+  status: "active" | "pending";
+};
+
+type TravelMode = "car" | "walk" | "transit" | "train" | "flight" | "boat";
+
+const travelModeLabels: Record<TravelMode, string> = {
+  car: "Drive",
+  walk: "Walk",
+  transit: "Transit",
+  train: "Train",
+  flight: "Flight",
+  boat: "Boat",
+};
+
+const collaboratorRoleLabels: Record<CollaboratorRole, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+  co_owner: "Co-owner",
 };
 
 type TravelProfile = {
@@ -109,18 +229,37 @@ type ChatMessage = {
 const randomId = () => Math.random().toString(36).slice(2, 11);
 
 const emptyDayForm = {
+  date: "",
   city: "",
   notes: "",
+  notesPrivate: false,
 };
 
 const emptyActivityForm = {
   title: "",
   startTime: "",
   endTime: "",
+  endDate: "",
   notes: "",
+  notesPrivate: false,
   location: "",
   startLocation: "",
+  travelMode: "" as TravelMode | "",
   budget: "",
+  // Opening periods from the picked place, saved into the activity's metadata for the conflict check.
+  openingHours: null as unknown[] | null,
+};
+
+const emptyHotelForm = {
+  name: "",
+  address: "",
+  checkInDayId: "",
+  nights: "1",
+  checkInTime: DEFAULT_CHECK_IN_TIME,
+  checkOutTime: DEFAULT_CHECK_OUT_TIME,
+  pricePerNight: "",
+  currency: "USD",
+  rating: "",
 };
 
 const emptyTripDetailsForm = {
@@ -151,16 +290,23 @@ const initialChat: ChatMessage[] = [
   },
 ];
 
-const formatTime = (iso?: string | null) => {
+// Times render in the zone of the activity's day so they read the same for every viewer.
+const formatTime = (iso?: string | null, timeZone?: string | null) => {
   if (!iso) return "--:--";
-  const date = new Date(iso);
-  // Use the stored UTC time so wall-clock values match the inputs regardless of viewer timezone
-  return date.toISOString().slice(11, 16);
+  return formatTimeInZone(iso, timeZone);
 };
-const formatTimeRange = (activity: Activity) => {
-  const start = formatTime(activity.startTime);
-  const end = activity.endTime ? formatTime(activity.endTime) : null;
-  return end ? `${start} – ${end}` : start;
+// Whole days between the local start and end dates, e.g. 1 for a 22:00–06:00 sleeper train.
+const getActivityDaySpan = (activity: Activity, timeZone?: string | null) => {
+  if (!activity.startTime || !activity.endTime) return 0;
+  const start = wallClockInZone(activity.startTime, timeZone).date;
+  const end = wallClockInZone(activity.endTime, timeZone).date;
+  return Math.round((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000));
+};
+const formatTimeRange = (activity: Activity, timeZone?: string | null) => {
+  const start = formatTime(activity.startTime, timeZone);
+  const end = activity.endTime ? formatTime(activity.endTime, timeZone) : null;
+  const span = getActivityDaySpan(activity, timeZone);
+  return end ? `${start} – ${end}${span > 0 ? ` (+${span})` : ""}` : start;
 };
 
 const buildTripContext = (trip: Trip | null, day: TripDay | null) => {
@@ -191,8 +337,8 @@ const buildTripContext = (trip: Trip | null, day: TripDay | null) => {
     const planned = (day.activities || [])
       .slice(0, 6)
       .map((activity) => {
-        const start = activity.startTime ? formatTime(activity.startTime) : null;
-        const end = activity.endTime ? formatTime(activity.endTime) : null;
+        const start = activity.startTime ? formatTime(activity.startTime, day.timezone) : null;
+        const end = activity.endTime ? formatTime(activity.endTime, day.timezone) : null;
         const timeRange = start ? `${start}${end ? `-${end}` : ""}` : "";
         const location = activity.location ? ` @ ${activity.location}` : "";
         const label = activity.title || "Activity";
@@ -203,6 +349,10 @@ const buildTripContext = (trip: Trip | null, day: TripDay | null) => {
     if (planned) {
       parts.push(`Today: ${planned}`);
     }
+    const stay = buildDayHotelMap(trip.days).get(day.id)?.[0];
+    if (stay) {
+      parts.push(`Staying at ${stay.name}${stay.address ? ` (${stay.address})` : ""}`);
+    }
   }
   const otherStops = Array.from(
     new Set(trip.days.map((entry) => entry.city).filter((city) => city && city !== day?.city)),
@@ -237,24 +387,78 @@ const summarizeProfile = (profile?: TravelProfile | null) => {
     .join(" | ");
 };
 
-const getHotelMetadata = (activity: Activity): HotelActivityMetadata | null => {
-  if (activity.type !== "hotel") return null;
-  const meta = (activity.metadata || {}) as Record<string, unknown>;
-  const nights = typeof meta.nights === "number" && meta.nights > 0 ? meta.nights : undefined;
-  const price = typeof meta.price === "number" ? meta.price : undefined;
-  const distanceKm = typeof meta.distanceKm === "number" ? meta.distanceKm : undefined;
-  const reviewScore = typeof meta.reviewScore === "number" ? meta.reviewScore : undefined;
+// Hour slots offered as drop targets when dragging an activity to a new start time. Where the pointer sits across
+// a slot picks the quarter hour within it.
+const DROP_SLOT_HOURS = Array.from({ length: 24 }, (_, index) => index);
+const DROP_SLOT_STEP_MINUTES = 15;
+
+function dropSlotTime(event: React.DragEvent, hour: number) {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const steps = 60 / DROP_SLOT_STEP_MINUTES;
+  const fraction = rect.width ? (event.clientX - rect.left) / rect.width : 0;
+  const step = Math.min(steps - 1, Math.max(0, Math.floor(fraction * steps)));
+  return `${String(hour).padStart(2, "0")}:${String(step * DROP_SLOT_STEP_MINUTES).padStart(2, "0")}`;
+}
+
+const getDayStart = (day: TripDay) => zonedTimeToUtc(day.date.slice(0, 10), "00:00", day.timezone)?.getTime() ?? null;
+
+// Each day shows its own activities plus anything that started earlier and is still running when the day begins
+// (sleeper trains, red-eye flights, multi-night hotel stays).
+const buildDayActivityMap = (days: TripDay[]) => {
+  const all = days.flatMap((day) => day.activities || []);
+  const map = new Map<string, Activity[]>();
+  for (const day of days) {
+    const dayStart = getDayStart(day);
+    const carried =
+      dayStart === null
+        ? []
+        : all.filter(
+            (activity) =>
+              activity.tripDayId !== day.id &&
+              activity.startTime &&
+              activity.endTime &&
+              new Date(activity.startTime).getTime() < dayStart &&
+              new Date(activity.endTime).getTime() > dayStart,
+          );
+    map.set(
+      day.id,
+      [...(day.activities || []), ...carried].sort((a, b) => {
+        const aTime = a.startTime ? new Date(a.startTime).getTime() : Number.MAX_SAFE_INTEGER;
+        const bTime = b.startTime ? new Date(b.startTime).getTime() : Number.MAX_SAFE_INTEGER;
+        return aTime - bTime;
+      }),
+    );
+  }
+  return map;
+};
+
+// Stays live on their check-in day; every day whose night falls inside one lists it, counted on the check-in
+// day's calendar.
+const buildDayHotelMap = (days: TripDay[]) => {
+  const stays = days.flatMap((day) => (day.hotels || []).map((hotel) => ({ hotel, timeZone: day.timezone ?? null })));
+  return new Map(
+    days.map((day) => [
+      day.id,
+      stays
+        .filter(({ hotel, timeZone }) => stayCoversNight(hotel, day.date.slice(0, 10), timeZone))
+        .map(({ hotel }) => hotel),
+    ]),
+  );
+};
+
+const describeStay = (hotel: HotelStay, timeZone?: string | null) => {
+  const dates = stayDates(hotel, timeZone);
+  const dayLabel = (date: string) => format(new Date(`${date}T12:00:00`), "MMM d");
+  const total = stayTotal(hotel, dates.nights);
+  const currency = hotel.currency || "USD";
   return {
-    kind: typeof meta.kind === "string" ? meta.kind : undefined,
-    hotelId: typeof meta.hotelId === "string" ? meta.hotelId : undefined,
-    nights,
-    price,
-    currency: typeof meta.currency === "string" ? meta.currency : undefined,
-    distanceKm,
-    reviewScore,
-    offer: typeof meta.offer === "string" ? meta.offer : undefined,
-    address: typeof meta.address === "string" ? meta.address : undefined,
-    description: typeof meta.description === "string" ? meta.description : undefined,
+    ...dates,
+    range: `${dayLabel(dates.checkInDate)} ${dates.checkInTime} → ${dayLabel(dates.checkOutDate)} ${dates.checkOutTime}`,
+    nightsLabel: `${dates.nights} night${dates.nights === 1 ? "" : "s"}`,
+    priceLabel:
+      total === null
+        ? null
+        : `${Number(hotel.pricePerNight).toFixed(0)} ${currency}/night · ${total.toFixed(0)} ${currency} total`,
   };
 };
 
@@ -285,9 +489,50 @@ export function TripDashboard({
   const [chatExpanded, setChatExpanded] = useState(false);
   const [planningDay, setPlanningDay] = useState(false);
   const [planDayStatus, setPlanDayStatus] = useState<string | null>(null);
-  const [isHotelActivity, setIsHotelActivity] = useState(false);
-  const [hotelStayNights, setHotelStayNights] = useState(1);
+  const [hotelForm, setHotelForm] = useState(emptyHotelForm);
+  const [editingHotelId, setEditingHotelId] = useState<string | null>(null);
+  const [showHotelForm, setShowHotelForm] = useState(false);
+  const [savingHotel, setSavingHotel] = useState(false);
   const [shareEmail, setShareEmail] = useState("");
+  const [shareRole, setShareRole] = useState<CollaboratorRole>("editor");
+  const [showSharePanel, setShowSharePanel] = useState(false);
+  const [tripMembers, setTripMembers] = useState<TripMember[]>([]);
+  const [tripOwnerEmail, setTripOwnerEmail] = useState<string | null>(null);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+  const [inviteLinks, setInviteLinks] = useState<TripInviteLink[]>([]);
+  const [inviteForm, setInviteForm] = useState<{ role: CollaboratorRole; singleUse: boolean }>({
+    role: "viewer",
+    singleUse: false,
+  });
+  const [creatingInvite, setCreatingInvite] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyEvents, setHistoryEvents] = useState<TripHistoryEvent[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [scheduleConflicts, setScheduleConflicts] = useState<ScheduleConflict[]>([]);
+  const [scheduleConflictsError, setScheduleConflictsError] = useState<string | null>(null);
+  const [activityWarnings, setActivityWarnings] = useState<ScheduleConflict[]>([]);
+  const [draggedActivityId, setDraggedActivityId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  const [dropTargetTime, setDropTargetTime] = useState<string | null>(null);
+  const [reschedulingActivityId, setReschedulingActivityId] = useState<string | null>(null);
+  const [focusedActivityId, setFocusedActivityId] = useState<string | null>(null);
+  const [routeOptimization, setRouteOptimization] = useState<RouteOptimization | null>(null);
+  const [routePinnedIds, setRoutePinnedIds] = useState<string[]>([]);
+  const [optimizingRoute, setOptimizingRoute] = useState(false);
+  const [applyingRoute, setApplyingRoute] = useState(false);
+  const [routeOptimizationError, setRouteOptimizationError] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashedTrips, setTrashedTrips] = useState<TrashedTrip[]>([]);
+  const [trashedDays, setTrashedDays] = useState<TrashedDay[]>([]);
+  const [trashedActivities, setTrashedActivities] = useState<TrashedActivity[]>([]);
+  const [trashedHotels, setTrashedHotels] = useState<TrashedHotel[]>([]);
+  const [loadingTrash, setLoadingTrash] = useState(false);
+  const [trashError, setTrashError] = useState<string | null>(null);
+  const [tripViewers, setTripViewers] = useState<TripViewer[]>([]);
+  const liveConnectionIdRef = useRef<string | null>(null);
+  const selectedDayIdRef = useRef<string | null>(null);
   const [shareStatus, setShareStatus] = useState<string | null>(null);
   const [tripDetailsForm, setTripDetailsForm] = useState(emptyTripDetailsForm);
   const [savedProfiles, setSavedProfiles] = useState<TravelProfile[]>([]);
@@ -298,6 +543,10 @@ export function TripDashboard({
   const [settingsKeywordsInput, setSettingsKeywordsInput] = useState("");
   const [showTripDetailsForm, setShowTripDetailsForm] = useState(false);
   const [savingTripDetails, setSavingTripDetails] = useState(false);
+  const [shiftDays, setShiftDays] = useState("");
+  const [shiftingTrip, setShiftingTrip] = useState(false);
+  const [copyForm, setCopyForm] = useState({ startDate: "", templateName: "", stripTimes: false, stripBudgets: false });
+  const [copyingTrip, setCopyingTrip] = useState(false);
   const [tripDetailsStatus, setTripDetailsStatus] = useState<string | null>(null);
   const [showAddDayForm, setShowAddDayForm] = useState(false);
   const [newDayForm, setNewDayForm] = useState({ date: "", city: "", notes: "" });
@@ -328,16 +577,19 @@ export function TripDashboard({
   const [calendarEventId, setCalendarEventId] = useState<string | null>(null);
 
   const isAuthenticated = Boolean(user && idToken);
+  // Sent with every write so this tab can skip the live event for its own change; other tabs still refresh.
+  const [tabId] = useState(createPlacesToken);
+
   const authHeaders = useMemo(() => {
     if (!idToken) return undefined;
-    return { Authorization: `Bearer ${idToken}` } satisfies HeadersInit;
-  }, [idToken]);
+    return { Authorization: `Bearer ${idToken}`, "X-Trip-Tab": tabId } satisfies HeadersInit;
+  }, [idToken, tabId]);
 
   const jsonHeaders = useMemo(() => {
-    const base: Record<string, string> = { "Content-Type": "application/json" };
+    const base: Record<string, string> = { "Content-Type": "application/json", "X-Trip-Tab": tabId };
     if (idToken) base.Authorization = `Bearer ${idToken}`;
     return base;
-  }, [idToken]);
+  }, [idToken, tabId]);
 
   const currencyFormatter = useMemo(
     () => new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }),
@@ -543,20 +795,32 @@ const sortActivitiesByStart = (activities: Activity[]) =>
   }, [idToken, authHeaders]);
 
   const selectedTrip = trips.find((trip) => trip.id === selectedTripId) || null;
+  // Trips loaded before roles existed have no role field; treat them as owned so nothing locks up.
+  const selectedTripRole: TripRole = selectedTrip?.role ?? "owner";
+  const canEditTrip = Boolean(selectedTrip) && selectedTripRole !== "viewer";
+  const canManageSharing = selectedTripRole === "owner" || selectedTripRole === "co_owner";
+  const isTripOwner = selectedTripRole === "owner";
+  // Collapse multiple tabs from the same person and leave out this tab.
+  const otherViewers = tripViewers.filter(
+    (viewer, index, all) =>
+      viewer.connectionId !== liveConnectionIdRef.current &&
+      viewer.email !== user?.email &&
+      all.findIndex((entry) => entry.userId === viewer.userId) === index,
+  );
   const selectedDay = selectedTrip?.days.find((day) => day.id === selectedDayId) || null;
+  const dayTimeZones = useMemo(
+    () => new Map((selectedTrip?.days || []).map((day) => [day.id, day.timezone ?? null])),
+    [selectedTrip],
+  );
   const hotelSearchCity = selectedDay?.city || selectedTrip?.homeCity || selectedTrip?.days[0]?.city || "";
-  const orderedActivities = (selectedDay?.activities || [])
-    .slice()
-    .sort((a, b) => {
-      const aTime = a.startTime ? new Date(a.startTime).getTime() : 0;
-      const bTime = b.startTime ? new Date(b.startTime).getTime() : 0;
-      return aTime - bTime;
-    });
-  const hotelActivities = orderedActivities.filter((activity) => activity.type === "hotel");
+  const dayActivities = useMemo(() => buildDayActivityMap(selectedTrip?.days || []), [selectedTrip]);
+  const orderedActivities = selectedDay ? dayActivities.get(selectedDay.id) || [] : [];
+  const dayHotels = useMemo(() => buildDayHotelMap(selectedTrip?.days || []), [selectedTrip]);
+  const selectedDayHotels = selectedDay ? dayHotels.get(selectedDay.id) || [] : [];
   const calendarDay = selectedTrip?.days.find((day) => day.id === calendarDayId) || null;
-  const calendarEvent = calendarDay?.activities?.find((activity) => activity.id === calendarEventId) || null;
-  const calendarHotels = calendarDay?.activities?.filter((activity) => activity.type === "hotel") || [];
-  const calendarEventHotel = calendarEvent ? getHotelMetadata(calendarEvent) : null;
+  const calendarDayActivities = calendarDay ? dayActivities.get(calendarDay.id) || [] : [];
+  const calendarEvent = calendarDayActivities.find((activity) => activity.id === calendarEventId) || null;
+  const calendarHotels = calendarDay ? dayHotels.get(calendarDay.id) || [] : [];
   const calendarEventBudgetValue = calendarEvent ? formatBudget(getActivityBudgetValue(calendarEvent)) : null;
 
   useEffect(() => {
@@ -620,11 +884,20 @@ const sortActivitiesByStart = (activities: Activity[]) =>
       const category = categorize(activity);
       buckets[category] = (buckets[category] || 0) + value;
     });
+    // Stays are priced per night on the Hotel rows, not as activity budgets.
+    (selectedTrip?.days || []).forEach((day) => {
+      (day.hotels || []).forEach((hotel) => {
+        const value = stayTotal(hotel, stayDates(hotel, day.timezone).nights);
+        if (value === null) return;
+        total += value;
+        buckets.Lodging = (buckets.Lodging || 0) + value;
+      });
+    });
     const byCategory = Object.entries(buckets)
       .map(([category, value]) => ({ category, value }))
       .sort((a, b) => b.value - a.value);
     return { total, byCategory };
-  }, [tripActivities]);
+  }, [tripActivities, selectedTrip]);
 
   const cityStops = useMemo(() => {
     if (!selectedTrip) {
@@ -659,19 +932,37 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     if (!selectedTrip) {
       return {
         dayStats: [] as Array<{ day: TripDay; durationSeconds: number; distanceMeters: number }>,
+        byMode: [] as Array<{ mode: TravelMode; seconds: number }>,
         totalSeconds: 0,
         totalMeters: 0,
       };
     }
+    const secondsByMode: Partial<Record<TravelMode, number>> = {};
     const dayStats = selectedTrip.days.map((day) => {
       const travelActivities = (day.activities || []).filter((activity) => isTravelActivity(activity));
-      const durationSeconds = travelActivities.reduce((sum, activity) => sum + (activity.travelDurationSeconds || 0), 0);
-      const distanceMeters = travelActivities.reduce((sum, activity) => sum + (activity.travelDistanceMeters || 0), 0);
+      const legs = day.travelSegments || [];
+      travelActivities.forEach((activity) => {
+        const mode = activity.travelMode ?? "car";
+        secondsByMode[mode] = (secondsByMode[mode] || 0) + (activity.travelDurationSeconds || 0);
+      });
+      legs.forEach((leg) => {
+        secondsByMode[leg.mode] = (secondsByMode[leg.mode] || 0) + (leg.durationMinutes || 0) * 60;
+      });
+      const durationSeconds =
+        travelActivities.reduce((sum, activity) => sum + (activity.travelDurationSeconds || 0), 0) +
+        legs.reduce((sum, leg) => sum + (leg.durationMinutes || 0) * 60, 0);
+      const distanceMeters =
+        travelActivities.reduce((sum, activity) => sum + (activity.travelDistanceMeters || 0), 0) +
+        legs.reduce((sum, leg) => sum + Math.round((leg.distanceKm || 0) * 1000), 0);
       return { day, durationSeconds, distanceMeters };
     });
+    const byMode = (Object.entries(secondsByMode) as Array<[TravelMode, number]>)
+      .filter(([, seconds]) => seconds > 0)
+      .map(([mode, seconds]) => ({ mode, seconds }))
+      .sort((a, b) => b.seconds - a.seconds);
     const totalSeconds = dayStats.reduce((sum, stat) => sum + stat.durationSeconds, 0);
     const totalMeters = dayStats.reduce((sum, stat) => sum + stat.distanceMeters, 0);
-    return { dayStats, totalSeconds, totalMeters };
+    return { dayStats, byMode, totalSeconds, totalMeters };
   }, [selectedTrip]);
 
   const topTravelDays = useMemo(
@@ -719,8 +1010,39 @@ const sortActivitiesByStart = (activities: Activity[]) =>
 
   const lodgingStats = useMemo(() => {
     if (!selectedTrip) return { nightsPlanned: 0, missing: [] as TripDay[] };
-    const missing = selectedTrip.days.filter((day) => !(day.activities || []).some((activity) => activity.type === "hotel"));
+    const missing = selectedTrip.days.filter((day) => !(dayHotels.get(day.id) || []).length);
     return { nightsPlanned: selectedTrip.days.length - missing.length, missing };
+  }, [selectedTrip, dayHotels]);
+
+  // Changes whenever any activity on the trip is added, removed, or saved, so the conflicts panel and map refetch.
+  const scheduleSignature = useMemo(
+    () =>
+      selectedTrip
+        ? selectedTrip.days
+            .flatMap((day) => (day.activities || []).map((activity) => `${activity.id}:${activity.version ?? 0}`))
+            .join(",")
+        : "",
+    [selectedTrip],
+  );
+
+  const travelLegsByPair = useMemo(() => {
+    const legs = new Map<string, TravelSegment>();
+    selectedTrip?.days.forEach((day) =>
+      (day.travelSegments || []).forEach((segment) => {
+        if (segment.fromActivityId && segment.toActivityId) {
+          legs.set(`${segment.fromActivityId}->${segment.toActivityId}`, segment);
+        }
+      }),
+    );
+    return legs;
+  }, [selectedTrip]);
+
+  const activityTitles = useMemo(() => {
+    const titles = new Map<string, { title: string; day: TripDay }>();
+    selectedTrip?.days.forEach((day) =>
+      (day.activities || []).forEach((activity) => titles.set(activity.id, { title: activity.title, day })),
+    );
+    return titles;
   }, [selectedTrip]);
 
   const calendarWeeks = useMemo(() => {
@@ -780,13 +1102,19 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     // Avoid popping open autocomplete when switching days by suppressing suggestion fetch during programmatic updates.
     suppressSuggestionsRef.current = true;
     if (selectedDay) {
-      setDayForm({ city: selectedDay.city, notes: selectedDay.notes || "" });
+      setDayForm({
+        date: selectedDay.date.slice(0, 10),
+        city: selectedDay.city,
+        notes: selectedDay.notes || "",
+        notesPrivate: Boolean(selectedDay.notesPrivate),
+      });
       setEditingActivityId(null);
       setEditingActivityOriginalDayId(null);
       setActivityForm(emptyActivityForm);
       setActivityDayId(selectedDay.id);
-      setIsHotelActivity(false);
-      setHotelStayNights(1);
+      setEditingHotelId(null);
+      setHotelForm(emptyHotelForm);
+      setShowHotelForm(false);
       setCityQuery(dayPlaces[selectedDay.id]?.description || selectedDay.city || "");
     } else {
       setDayForm(emptyDayForm);
@@ -903,6 +1231,322 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     return () => clearTimeout(handler);
   }, [cityQuery, placesSessionToken, selectedDayPlace]);
 
+  useEffect(() => {
+    setShowSharePanel(false);
+    setTripMembers([]);
+    setTripOwnerEmail(null);
+    setInviteLinks([]);
+    setShowHistory(false);
+    setHistoryEvents([]);
+    setHistoryCursor(null);
+    setScheduleConflicts([]);
+    setActivityWarnings([]);
+  }, [selectedTripId]);
+
+  useEffect(() => {
+    if (view !== "dashboards" || !selectedTripId || !authHeaders) return;
+    const controller = new AbortController();
+    setScheduleConflictsError(null);
+    fetch(`/api/trips/${selectedTripId}/conflicts`, { headers: authHeaders, signal: controller.signal })
+      .then(async (res) => {
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body?.error || `Failed to check schedule (${res.status})`);
+        }
+        const data = await res.json();
+        setScheduleConflicts(data.conflicts || []);
+      })
+      .catch((error) => {
+        if ((error as Error).name === "AbortError") return;
+        setScheduleConflictsError(error instanceof Error ? error.message : "Failed to check schedule");
+      });
+    return () => controller.abort();
+  }, [view, selectedTripId, authHeaders, scheduleSignature]);
+
+  useEffect(() => {
+    selectedDayIdRef.current = selectedDayId;
+  }, [selectedDayId]);
+
+  // A route preview belongs to the day it was computed for.
+  useEffect(() => {
+    setRouteOptimization(null);
+    setRoutePinnedIds([]);
+    setRouteOptimizationError(null);
+  }, [selectedDayId]);
+
+  // Scrolls to an activity opened from the map or the conflicts card once the timeline has rendered it.
+  useEffect(() => {
+    if (view !== "timeline" || !focusedActivityId) return;
+    const frame = window.requestAnimationFrame(() => {
+      document
+        .getElementById(`activity-card-${focusedActivityId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+    const timeout = window.setTimeout(() => setFocusedActivityId(null), 2500);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.clearTimeout(timeout);
+    };
+  }, [view, focusedActivityId, selectedDayId]);
+
+  // Live updates: one event stream per open trip. Changes made by someone else trigger a refetch of that trip,
+  // and presence events keep the "who's here" chips in sync.
+  useEffect(() => {
+    if (!selectedTripId || !idToken || typeof EventSource === "undefined") return;
+    const tripId = selectedTripId;
+    const headers = { Authorization: `Bearer ${idToken}` };
+    const params = new URLSearchParams({ token: idToken });
+    if (selectedDayIdRef.current) params.set("dayId", selectedDayIdRef.current);
+    const source = new EventSource(`/api/trips/${tripId}/events?${params.toString()}`);
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    async function refreshTrip() {
+      try {
+        const res = await fetch(`/api/trips/${tripId}`, { headers });
+        if (res.status === 404 || res.status === 403) {
+          setTrips((prev) => prev.filter((trip) => trip.id !== tripId));
+          setSelectedTripId((prev) => (prev === tripId ? null : prev));
+          return;
+        }
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!data.trip) return;
+        const refreshed: Trip = {
+          ...data.trip,
+          days: sortDaysByDate(data.trip.days || []).map((day: TripDay) => ({
+            ...day,
+            activities: sortActivitiesByStart(day.activities || []),
+          })),
+        };
+        setTrips((prev) => prev.map((trip) => (trip.id === tripId ? refreshed : trip)));
+        setSelectedDayId((prev) =>
+          prev && refreshed.days.some((day) => day.id === prev) ? prev : refreshed.days[0]?.id ?? null,
+        );
+      } catch (error) {
+        console.warn("Failed to refresh trip", error);
+      }
+    }
+
+    source.addEventListener("ready", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      liveConnectionIdRef.current = data.connectionId ?? null;
+      setTripViewers(data.viewers || []);
+    });
+    source.addEventListener("presence", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setTripViewers(data.viewers || []);
+    });
+    source.addEventListener("change", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      if (data.originTabId && data.originTabId === tabId) return;
+      if (refreshTimer) clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(refreshTrip, 400);
+    });
+
+    return () => {
+      if (refreshTimer) clearTimeout(refreshTimer);
+      source.close();
+      liveConnectionIdRef.current = null;
+      setTripViewers([]);
+    };
+  }, [selectedTripId, idToken, tabId]);
+
+  useEffect(() => {
+    const connectionId = liveConnectionIdRef.current;
+    if (!selectedTripId || !connectionId || !jsonHeaders.Authorization) return;
+    fetch(`/api/trips/${selectedTripId}/presence`, {
+      method: "POST",
+      headers: jsonHeaders,
+      body: JSON.stringify({ connectionId, dayId: selectedDayId }),
+    }).catch(() => undefined);
+  }, [selectedDayId, selectedTripId, jsonHeaders]);
+
+  // PATCHes carry the version we last loaded. On a 409 the user chooses between overwriting with their edit and
+  // taking the server copy; `null` means they kept the server copy and the caller should stop.
+  async function sendVersionedPatch<T extends { version?: number }>(
+    url: string,
+    body: unknown,
+    version: number | undefined,
+    onKeepTheirs: (current: T) => void,
+  ) {
+    const send = (ifMatch?: number) =>
+      fetch(url, {
+        method: "PATCH",
+        headers: ifMatch ? { ...jsonHeaders, "If-Match": `"${ifMatch}"` } : jsonHeaders,
+        body: JSON.stringify(body),
+      });
+    const res = await send(version);
+    if (res.status !== 409) return res;
+    const conflict = await res.json().catch(() => ({}));
+    const current = conflict?.current as T | undefined;
+    if (!current) {
+      throw new Error(conflict?.error || "Someone else changed this; reload and try again.");
+    }
+    const overwrite = window.confirm(
+      `${conflict.error || "Someone else changed this."}\n\nOK: save your version over theirs.\nCancel: discard your edit and keep theirs.`,
+    );
+    if (overwrite) return send(current.version);
+    onKeepTheirs(current);
+    return null;
+  }
+
+  // Activity edits return the refreshed travel legs of every day they touched, keyed by day id.
+  function mergeTravelLegs(tripId: string, legs?: Record<string, TravelSegment[]> | null) {
+    if (!legs || !Object.keys(legs).length) return;
+    setTrips((prev) =>
+      prev.map((trip) =>
+        trip.id === tripId
+          ? {
+              ...trip,
+              days: trip.days.map((day) => (legs[day.id] ? { ...day, travelSegments: legs[day.id] } : day)),
+            }
+          : trip,
+      ),
+    );
+  }
+
+  async function changeLegMode(segment: TravelSegment, mode: TravelMode) {
+    if (!selectedTrip || segment.mode === mode) return;
+    const tripId = selectedTrip.id;
+    setTripError(null);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/days/${segment.tripDayId}/travel-segments/${segment.id}`, {
+        method: "PATCH",
+        headers: jsonHeaders,
+        body: JSON.stringify({ mode }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to update travel leg (${res.status})`);
+      }
+      const data = await res.json();
+      const updated = data.segment as TravelSegment;
+      const day = selectedTrip.days.find((entry) => entry.id === updated.tripDayId);
+      mergeTravelLegs(tripId, {
+        [updated.tripDayId]: (day?.travelSegments || []).map((entry) => (entry.id === updated.id ? updated : entry)),
+      });
+    } catch (err) {
+      setTripError(err instanceof Error ? err.message : "Failed to update travel leg");
+    }
+  }
+
+  // Day moves and range changes touch several days (and their activity times) at once, so take the server's copy.
+  function replaceTripDays(tripId: string, trip: Trip) {
+    const days = sortDaysByDate(trip.days || []).map((day) => ({
+      ...day,
+      activities: sortActivitiesByStart(day.activities || []),
+    }));
+    setTrips((prev) =>
+      prev.map((existing) =>
+        existing.id === tripId
+          ? {
+              ...existing,
+              startDate: trip.startDate,
+              endDate: trip.endDate,
+              version: trip.version,
+              days,
+            }
+          : existing,
+      ),
+    );
+    setSelectedDayId((prev) => (prev && days.some((day) => day.id === prev) ? prev : days[0]?.id ?? null));
+  }
+
+  async function reloadTrip(tripId: string) {
+    const res = await fetch(`/api/trips/${tripId}`, { headers: authHeaders });
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      throw new Error(body?.error || `Failed to reload trip (${res.status})`);
+    }
+    const data = await res.json();
+    if (data.trip) replaceTripDays(tripId, data.trip as Trip);
+  }
+
+  async function shiftTripDates() {
+    if (!selectedTrip) return;
+    const days = Number.parseInt(shiftDays, 10);
+    if (!Number.isFinite(days) || days === 0) {
+      setTripError("Enter a non-zero number of days to shift by.");
+      return;
+    }
+    setShiftingTrip(true);
+    setTripError(null);
+    setTripDetailsStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTrip.id}/shift`, {
+        method: "POST",
+        headers: selectedTrip.version ? { ...jsonHeaders, "If-Match": `"${selectedTrip.version}"` } : jsonHeaders,
+        body: JSON.stringify({ days }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(typeof body?.error === "string" ? body.error : `Failed to shift trip (${res.status})`);
+      }
+      const data = await res.json();
+      const shifted = data.trip as Trip;
+      replaceTripDays(selectedTrip.id, shifted);
+      setTripDetailsForm((prev) => ({
+        ...prev,
+        startDate: shifted.startDate ? shifted.startDate.slice(0, 10) : "",
+        endDate: shifted.endDate ? shifted.endDate.slice(0, 10) : "",
+      }));
+      setShiftDays("");
+      setTripDetailsStatus(`Trip moved ${Math.abs(days)} ${Math.abs(days) === 1 ? "day" : "days"} ${days > 0 ? "later" : "earlier"}`);
+    } catch (error) {
+      setTripError(error instanceof Error ? error.message : "Failed to shift trip");
+    } finally {
+      setShiftingTrip(false);
+    }
+  }
+
+  async function copySelectedTrip(asTemplate: boolean) {
+    if (!selectedTrip) return;
+    setCopyingTrip(true);
+    setTripError(null);
+    setTripDetailsStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTrip.id}/duplicate`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({
+          startDate: copyForm.startDate || undefined,
+          stripTimes: copyForm.stripTimes,
+          stripBudgets: copyForm.stripBudgets,
+          asTemplate,
+          templateName: asTemplate ? copyForm.templateName || selectedTrip.title : undefined,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(typeof body?.error === "string" ? body.error : `Failed to copy trip (${res.status})`);
+      }
+      const data = await res.json();
+      const created = data.trip as Trip;
+      setCopyForm({ startDate: "", templateName: "", stripTimes: false, stripBudgets: false });
+      if (asTemplate) {
+        setTripDetailsStatus(`Saved template "${copyForm.templateName || selectedTrip.title}". Pick it on the start page.`);
+        return;
+      }
+      setTrips((prev) => [
+        {
+          ...created,
+          days: sortDaysByDate(created.days || []).map((day) => ({
+            ...day,
+            activities: sortActivitiesByStart(day.activities || []),
+          })),
+        },
+        ...prev,
+      ]);
+      setShowTripDetailsForm(false);
+      setSelectedTripId(created.id);
+      setSelectedDayId(created.days?.[0]?.id ?? null);
+    } catch (error) {
+      setTripError(error instanceof Error ? error.message : "Failed to copy trip");
+    } finally {
+      setCopyingTrip(false);
+    }
+  }
+
   async function deleteTrip(tripId: string) {
     try {
       const res = await fetch(`/api/trips/${tripId}`, {
@@ -923,6 +1567,150 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     }
   }
 
+  async function deleteDay(dayId: string) {
+    if (!selectedTrip) return;
+    try {
+      const res = await fetch(`/api/trips/${selectedTrip.id}/days/${dayId}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to delete day (${res.status})`);
+      }
+      const remaining = selectedTrip.days.filter((day) => day.id !== dayId);
+      setTrips((prev) =>
+        prev.map((trip) => (trip.id === selectedTrip.id ? { ...trip, days: remaining } : trip)),
+      );
+      if (selectedDayId === dayId) {
+        setSelectedDayId(remaining[0]?.id ?? null);
+      }
+      setTripDetailsStatus("Day moved to trash");
+    } catch (error) {
+      setTripError(error instanceof Error ? error.message : "Failed to delete day");
+    }
+  }
+
+  async function loadTrash() {
+    if (!authHeaders) return;
+    setLoadingTrash(true);
+    setTrashError(null);
+    try {
+      const tripTrashRequest =
+        selectedTrip && canEditTrip
+          ? fetch(`/api/trips/${selectedTrip.id}/trash`, { headers: authHeaders })
+          : Promise.resolve(null);
+      const [res, tripRes] = await Promise.all([fetch("/api/trash", { headers: authHeaders }), tripTrashRequest]);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to load trash (${res.status})`);
+      }
+      const data = await res.json();
+      setTrashedTrips(data.trips || []);
+      if (tripRes?.ok) {
+        const tripData = await tripRes.json();
+        setTrashedDays(tripData.days || []);
+        setTrashedActivities(tripData.activities || []);
+        setTrashedHotels(tripData.hotels || []);
+      } else {
+        setTrashedDays([]);
+        setTrashedActivities([]);
+        setTrashedHotels([]);
+      }
+    } catch (error) {
+      setTrashError(error instanceof Error ? error.message : "Failed to load trash");
+    } finally {
+      setLoadingTrash(false);
+    }
+  }
+
+  async function restoreFromTrash(path: string) {
+    if (!authHeaders) return null;
+    setTrashError(null);
+    try {
+      const res = await fetch(`${path}/restore`, { method: "POST", headers: authHeaders });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to restore (${res.status})`);
+      }
+      return await res.json();
+    } catch (error) {
+      setTrashError(error instanceof Error ? error.message : "Failed to restore");
+      return null;
+    }
+  }
+
+  async function restoreTrip(tripId: string) {
+    const data = await restoreFromTrash(`/api/trips/${tripId}`);
+    if (!data?.trip) return;
+    const restored = data.trip as Trip;
+    setTrips((prev) => [
+      {
+        ...restored,
+        days: sortDaysByDate(restored.days || []).map((day) => ({
+          ...day,
+          activities: sortActivitiesByStart(day.activities || []),
+        })),
+      },
+      ...prev.filter((trip) => trip.id !== tripId),
+    ]);
+    setTrashedTrips((prev) => prev.filter((trip) => trip.id !== tripId));
+  }
+
+  async function restoreDay(dayId: string) {
+    if (!selectedTrip) return;
+    const data = await restoreFromTrash(`/api/trips/${selectedTrip.id}/days/${dayId}`);
+    if (!data?.day) return;
+    const restored = data.day as TripDay;
+    setTrips((prev) =>
+      prev.map((trip) =>
+        trip.id === selectedTrip.id
+          ? {
+              ...trip,
+              days: sortDaysByDate([
+                ...trip.days.filter((day) => day.id !== dayId),
+                { ...restored, activities: sortActivitiesByStart(restored.activities || []) },
+              ]),
+            }
+          : trip,
+      ),
+    );
+    setTrashedDays((prev) => prev.filter((day) => day.id !== dayId));
+  }
+
+  async function restoreActivity(activity: TrashedActivity) {
+    if (!selectedTrip) return;
+    const data = await restoreFromTrash(
+      `/api/trips/${selectedTrip.id}/days/${activity.tripDay.id}/activities/${activity.id}`,
+    );
+    if (!data?.activity) return;
+    const restored = data.activity as Activity;
+    setTrips((prev) =>
+      prev.map((trip) =>
+        trip.id === selectedTrip.id
+          ? {
+              ...trip,
+              days: trip.days.map((day) =>
+                day.id === restored.tripDayId
+                  ? { ...day, activities: sortActivitiesByStart([...(day.activities || []), restored]) }
+                  : day,
+              ),
+            }
+          : trip,
+      ),
+    );
+    mergeTravelLegs(selectedTrip.id, data.travelLegs);
+    setTrashedActivities((prev) => prev.filter((entry) => entry.id !== activity.id));
+  }
+
+  async function restoreHotel(hotel: TrashedHotel) {
+    if (!selectedTrip) return;
+    const data = await restoreFromTrash(`/api/trips/${selectedTrip.id}/hotels/${hotel.id}`);
+    if (!data?.hotel) return;
+    placeHotel(selectedTrip.id, data.hotel as HotelStay, hotel.id);
+    setTrashedHotels((prev) => prev.filter((entry) => entry.id !== hotel.id));
+  }
+
   async function saveDay(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!selectedTrip || !selectedDay) return;
@@ -932,17 +1720,42 @@ const sortActivitiesByStart = (activities: Activity[]) =>
       const place = selectedDayId ? dayPlaces[selectedDayId] : undefined;
       const submittedCity = (cityQuery || dayForm.city).trim();
       setDayForm((prev) => ({ ...prev, city: submittedCity }));
-      const res = await fetch(`/api/trips/${selectedTrip.id}/days/${selectedDay.id}`, {
-        method: "PATCH",
-        headers: jsonHeaders,
-        body: JSON.stringify({
+      const dateChanged = Boolean(dayForm.date) && dayForm.date !== selectedDay.date.slice(0, 10);
+      const res = await sendVersionedPatch<TripDay>(
+        `/api/trips/${selectedTrip.id}/days/${selectedDay.id}`,
+        {
+          date: dateChanged ? dayForm.date : undefined,
           city: submittedCity,
           notes: dayForm.notes,
+          notesPrivate: dayForm.notesPrivate,
           cityPlaceId: place ? place.placeId ?? null : undefined,
           cityLatitude: place ? place.lat : undefined,
           cityLongitude: place ? place.lng : undefined,
-        }),
-      });
+        },
+        selectedDay.version,
+        (current) => {
+          setTrips((prev) =>
+            prev.map((trip) =>
+              trip.id === selectedTrip.id
+                ? {
+                    ...trip,
+                    days: trip.days.map((day) =>
+                      day.id === current.id ? { ...current, activities: day.activities } : day,
+                    ),
+                  }
+                : trip,
+            ),
+          );
+          setDayForm({
+            date: current.date.slice(0, 10),
+            city: current.city,
+            notes: current.notes || "",
+            notesPrivate: Boolean(current.notesPrivate),
+          });
+          setCityQuery(current.city);
+        },
+      );
+      if (!res) return;
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body?.error || `Failed to update day (${res.status})`);
@@ -959,9 +1772,12 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                         ...day,
                         city: data.day.city,
                         notes: data.day.notes,
+                        notesPrivate: data.day.notesPrivate,
                         cityPlaceId: data.day.cityPlaceId,
                         cityLatitude: data.day.cityLatitude,
                         cityLongitude: data.day.cityLongitude,
+                        timezone: data.day.timezone,
+                        version: data.day.version,
                       }
                     : day,
                 ),
@@ -983,6 +1799,10 @@ const sortActivitiesByStart = (activities: Activity[]) =>
         }
         return next;
       });
+      // Date and zone changes re-time the day's activities on the server.
+      if (dateChanged || (data.day.timezone ?? null) !== (selectedDay.timezone ?? null)) {
+        await reloadTrip(selectedTrip.id);
+      }
     } catch (err) {
       setTripError(err instanceof Error ? err.message : "Failed to update day");
     } finally {
@@ -1010,124 +1830,99 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     setSavingActivity(true);
     setTripError(null);
     const budgetValue = parseBudgetInput(activityForm.budget);
+    const editingActivity = editingActivityId
+      ? selectedTrip.days.flatMap((day) => day.activities || []).find((activity) => activity.id === editingActivityId)
+      : undefined;
     const payload = {
       title: activityForm.title,
       startTime: activityForm.startTime,
       endTime: activityForm.endTime || undefined,
+      endDate: activityForm.endDate || undefined,
       notes: activityForm.notes || undefined,
+      notesPrivate: activityForm.notesPrivate,
       location: activityForm.location || undefined,
       startLocation: activityForm.startLocation || undefined,
-      type: isHotelActivity ? "hotel" : undefined,
-      metadata: isHotelActivity ? { kind: "hotel", nights: hotelStayNights } : undefined,
+      travelMode: activityForm.travelMode || undefined,
+      metadata: activityForm.openingHours
+        ? { ...(editingActivity?.metadata || {}), openingHours: activityForm.openingHours }
+        : undefined,
       budget: budgetValue,
     };
 
     try {
-      const daysSorted = [...selectedTrip.days].sort(
-        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
-      );
-      const startIndex = daysSorted.findIndex((day) => day.id === targetDayId);
-
-      // If user marks multi-night hotel, create one activity per night across consecutive days.
-      if (isHotelActivity && hotelStayNights > 1 && !editingActivityId) {
-        if (startIndex === -1 || startIndex + hotelStayNights > daysSorted.length) {
-          setTripError("Trip does not have enough days for that many nights.");
-          return;
-        }
-
-        const created: Activity[] = [];
-        for (let index = 0; index < hotelStayNights; index += 1) {
-          const day = daysSorted[startIndex + index];
-          const res = await fetch(`/api/trips/${selectedTrip.id}/days/${day.id}/activities`, {
+      const endpoint = editingActivityId
+        ? `/api/trips/${selectedTrip.id}/days/${originalDayId}/activities/${editingActivityId}`
+        : `/api/trips/${selectedTrip.id}/days/${targetDayId}/activities`;
+      const requestBody = {
+        ...payload,
+        dayId: editingActivityId && originalDayId !== targetDayId ? targetDayId : undefined,
+      };
+      const res = editingActivityId
+        ? await sendVersionedPatch<Activity>(endpoint, requestBody, editingActivity?.version, (current) => {
+            setTrips((prev) =>
+              prev.map((trip) =>
+                trip.id === selectedTrip.id
+                  ? {
+                      ...trip,
+                      days: trip.days.map((day) => {
+                        const others = (day.activities || []).filter((activity) => activity.id !== current.id);
+                        return {
+                          ...day,
+                          activities:
+                            day.id === current.tripDayId ? sortActivitiesByStart([...others, current]) : others,
+                        };
+                      }),
+                    }
+                  : trip,
+              ),
+            );
+            cancelActivityEdit();
+          })
+        : await fetch(endpoint, {
             method: "POST",
             headers: jsonHeaders,
-            body: JSON.stringify({
-              ...payload,
-              metadata: {
-                kind: "hotel",
-                nights: hotelStayNights,
-                night: index + 1,
-                ...(payload.metadata || {}),
-              },
-            }),
+            body: JSON.stringify(requestBody),
           });
-          if (!res.ok) {
-            const body = await res.json().catch(() => ({}));
-            throw new Error(body?.error || `Failed to save hotel stay (${res.status})`);
-          }
-          const data = await res.json();
-          created.push(data.activity as Activity);
-        }
-
-        setTrips((prev) =>
-          prev.map((trip) =>
-            trip.id === selectedTrip.id
-              ? {
-                  ...trip,
-                  days: trip.days.map((day) => {
-                    const newActivities = created.filter((item) => item.tripDayId === day.id);
-                    return newActivities.length
-                      ? { ...day, activities: sortActivitiesByStart([...(day.activities || []), ...newActivities]) }
-                      : day;
-                  }),
-                }
-              : trip,
-          ),
-        );
-        setSelectedDayId(targetDayId);
-        setActivityDayId(targetDayId);
-      } else {
-        const endpoint = editingActivityId
-          ? `/api/trips/${selectedTrip.id}/days/${originalDayId}/activities/${editingActivityId}`
-          : `/api/trips/${selectedTrip.id}/days/${targetDayId}/activities`;
-        const res = await fetch(endpoint, {
-          method: editingActivityId ? "PATCH" : "POST",
-          headers: jsonHeaders,
-          body: JSON.stringify({
-            ...payload,
-            dayId: editingActivityId && originalDayId !== targetDayId ? targetDayId : undefined,
-          }),
-        });
-        if (!res.ok) {
-          const body = await res.json().catch(() => ({}));
-          throw new Error(body?.error || `Failed to save activity (${res.status})`);
-        }
-        const data = await res.json();
-        const updatedActivity = data.activity as Activity;
-        const destinationDayId = updatedActivity.tripDayId;
-        const sourceDayId = editingActivityId ? originalDayId : destinationDayId;
-        setTrips((prev) =>
-          prev.map((trip) =>
-            trip.id === selectedTrip.id
-              ? {
-                  ...trip,
-                  days: trip.days.map((day) => {
-                    if (day.id === destinationDayId) {
-                      const others = (day.activities || []).filter((activity) => activity.id !== updatedActivity.id);
-                      const nextActivities = sortActivitiesByStart([...others, updatedActivity]);
-                      return { ...day, activities: nextActivities };
-                    }
-                    if (editingActivityId && sourceDayId && day.id === sourceDayId && sourceDayId !== destinationDayId) {
-                      return {
-                        ...day,
-                        activities: (day.activities || []).filter((activity) => activity.id !== updatedActivity.id),
-                      };
-                    }
-                    return day;
-                  }),
-                }
-              : trip,
-          ),
-        );
-        setSelectedDayId(destinationDayId);
-        setActivityDayId(destinationDayId);
+      if (!res) return;
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to save activity (${res.status})`);
       }
+      const data = await res.json();
+      const updatedActivity = data.activity as Activity;
+      setActivityWarnings(data.warnings || []);
+      mergeTravelLegs(selectedTrip.id, data.travelLegs);
+      const destinationDayId = updatedActivity.tripDayId;
+      const sourceDayId = editingActivityId ? originalDayId : destinationDayId;
+      setTrips((prev) =>
+        prev.map((trip) =>
+          trip.id === selectedTrip.id
+            ? {
+                ...trip,
+                days: trip.days.map((day) => {
+                  if (day.id === destinationDayId) {
+                    const others = (day.activities || []).filter((activity) => activity.id !== updatedActivity.id);
+                    const nextActivities = sortActivitiesByStart([...others, updatedActivity]);
+                    return { ...day, activities: nextActivities };
+                  }
+                  if (editingActivityId && sourceDayId && day.id === sourceDayId && sourceDayId !== destinationDayId) {
+                    return {
+                      ...day,
+                      activities: (day.activities || []).filter((activity) => activity.id !== updatedActivity.id),
+                    };
+                  }
+                  return day;
+                }),
+              }
+            : trip,
+        ),
+      );
+      setSelectedDayId(destinationDayId);
+      setActivityDayId(destinationDayId);
 
       setActivityForm(emptyActivityForm);
       setEditingActivityId(null);
       setEditingActivityOriginalDayId(null);
-      setIsHotelActivity(false);
-      setHotelStayNights(1);
     } catch (err) {
       setTripError(err instanceof Error ? err.message : "Failed to save activity");
     } finally {
@@ -1163,6 +1958,20 @@ const sortActivitiesByStart = (activities: Activity[]) =>
       }
       const data = await res.json();
       const activity = data.activity || {};
+      // Booking confirmations for a hotel become a stay, not an activity.
+      if (typeof activity.type === "string" && activity.type.toLowerCase() === "hotel") {
+        setEditingHotelId(null);
+        setHotelForm((prev) => ({
+          ...prev,
+          name: activity.title || prev.name,
+          address: activity.location || prev.address,
+          checkInDayId: prev.checkInDayId || selectedDay?.id || "",
+          checkInTime: activity.startTime || prev.checkInTime,
+          checkOutTime: activity.endTime || prev.checkOutTime,
+        }));
+        setShowHotelForm(true);
+        return;
+      }
       setActivityForm((prev) => ({
         ...prev,
         title: activity.title || prev.title,
@@ -1177,9 +1986,6 @@ const sortActivitiesByStart = (activities: Activity[]) =>
             : prev.budget,
       }));
       setTitleSuggestEnabled(false);
-      if (typeof activity.type === "string" && activity.type.toLowerCase() === "hotel") {
-        setIsHotelActivity(true);
-      }
     } catch (error) {
       setActivityUploadError(error instanceof Error ? error.message : "Failed to analyze document");
     } finally {
@@ -1202,6 +2008,8 @@ const sortActivitiesByStart = (activities: Activity[]) =>
         const body = await res.json().catch(() => ({}));
         throw new Error(body?.error || `Failed to delete activity (${res.status})`);
       }
+      const data = await res.json().catch(() => ({}));
+      mergeTravelLegs(selectedTrip.id, data.travelLegs);
       setTrips((prev) =>
         prev.map((trip) =>
           trip.id === selectedTrip.id
@@ -1224,22 +2032,297 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     }
   }
 
+  // Drag-and-drop goes through the regular activity PATCH: moving to another day keeps the wall-clock slot and a
+  // new start keeps the activity's length, so a drop only changes what was dragged.
+  async function rescheduleActivity(activityId: string, target: { dayId: string; startTime?: string }) {
+    if (!selectedTrip || !canEditTrip) return;
+    const activity = selectedTrip.days
+      .flatMap((day) => day.activities || [])
+      .find((entry) => entry.id === activityId);
+    if (!activity) return;
+    const sameDay = target.dayId === activity.tripDayId;
+    const currentStart = activity.startTime ? formatTime(activity.startTime, dayTimeZones.get(activity.tripDayId)) : null;
+    if (sameDay && (!target.startTime || target.startTime === currentStart)) return;
+
+    const tripId = selectedTrip.id;
+    const placeActivity = (updated: Activity) =>
+      setTrips((prev) =>
+        prev.map((trip) =>
+          trip.id === tripId
+            ? {
+                ...trip,
+                days: trip.days.map((day) => {
+                  const others = (day.activities || []).filter((entry) => entry.id !== updated.id);
+                  return {
+                    ...day,
+                    activities: day.id === updated.tripDayId ? sortActivitiesByStart([...others, updated]) : others,
+                  };
+                }),
+              }
+            : trip,
+        ),
+      );
+
+    setReschedulingActivityId(activityId);
+    setTripError(null);
+    try {
+      const res = await sendVersionedPatch<Activity>(
+        `/api/trips/${tripId}/days/${activity.tripDayId}/activities/${activity.id}`,
+        { dayId: sameDay ? undefined : target.dayId, startTime: target.startTime },
+        activity.version,
+        placeActivity,
+      );
+      if (!res) return;
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to move activity (${res.status})`);
+      }
+      const data = await res.json();
+      placeActivity(data.activity as Activity);
+      setActivityWarnings(data.warnings || []);
+      mergeTravelLegs(tripId, data.travelLegs);
+    } catch (err) {
+      setTripError(err instanceof Error ? err.message : "Failed to move activity");
+    } finally {
+      setReschedulingActivityId(null);
+    }
+  }
+
+  function openActivityInTimeline(dayId: string, activityId: string) {
+    setSelectedDayId(dayId);
+    setView("timeline");
+    setFocusedActivityId(activityId);
+  }
+
+  function activityDragProps(activity: Activity) {
+    if (!canEditTrip) return {};
+    return {
+      draggable: true,
+      onDragStart: (event: React.DragEvent) => {
+        event.dataTransfer.setData("text/plain", activity.id);
+        event.dataTransfer.effectAllowed = "move";
+        setDraggedActivityId(activity.id);
+      },
+      onDragEnd: () => {
+        setDraggedActivityId(null);
+        setDropTargetKey(null);
+        setDropTargetTime(null);
+      },
+    };
+  }
+
+  // `pickTime` resolves the start time from the pointer position instead of a fixed `target.startTime`.
+  function activityDropProps(
+    key: string,
+    target: { dayId: string; startTime?: string },
+    pickTime?: (event: React.DragEvent) => string,
+  ) {
+    if (!canEditTrip) return {};
+    return {
+      onDragOver: (event: React.DragEvent) => {
+        if (!draggedActivityId) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+        if (dropTargetKey !== key) setDropTargetKey(key);
+        if (pickTime) {
+          const time = pickTime(event);
+          if (dropTargetTime !== time) setDropTargetTime(time);
+        }
+      },
+      onDragLeave: () => setDropTargetKey((current) => (current === key ? null : current)),
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault();
+        const activityId = event.dataTransfer.getData("text/plain") || draggedActivityId;
+        const startTime = pickTime ? pickTime(event) : target.startTime;
+        setDraggedActivityId(null);
+        setDropTargetKey(null);
+        setDropTargetTime(null);
+        if (activityId) void rescheduleActivity(activityId, { ...target, startTime });
+      },
+    };
+  }
+
+  function renderTimeDropRail(day: TripDay) {
+    if (!canEditTrip) return null;
+    return (
+      <div className="space-y-1">
+        <p className="text-[11px] font-semibold text-dayglo-void/70">
+          {reschedulingActivityId
+            ? "Moving..."
+            : "Drag an activity onto an hour to re-time it (left to right picks :00 to :45), or onto another day to move it."}
+        </p>
+        <div className="grid grid-cols-6 gap-1 sm:grid-cols-12">
+          {DROP_SLOT_HOURS.map((hour) => {
+            const startTime = `${String(hour).padStart(2, "0")}:00`;
+            const key = `slot-${day.id}-${startTime}`;
+            return (
+              <div
+                key={key}
+                {...activityDropProps(key, { dayId: day.id }, (event) => dropSlotTime(event, hour))}
+                className={`data-mono rounded-sm border border-dayglo-void px-1 py-1 text-center text-[10px] font-black text-dayglo-void transition ${
+                  dropTargetKey === key
+                    ? "bg-dayglo-lime shadow-hard-sm"
+                    : draggedActivityId
+                      ? "bg-dayglo-yellow/40"
+                      : "bg-white/70"
+                }`}
+              >
+                {dropTargetKey === key && dropTargetTime ? dropTargetTime : startTime}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
   function handleEditActivity(activity: Activity) {
     setEditingActivityId(activity.id);
     setEditingActivityOriginalDayId(activity.tripDayId);
     setActivityDayId(activity.tripDayId);
-    const hotelMeta = getHotelMetadata(activity);
     setActivityForm({
       title: activity.title,
-      startTime: activity.startTime ? formatTime(activity.startTime) : "",
-      endTime: activity.endTime ? formatTime(activity.endTime) : "",
+      startTime: activity.startTime ? formatTime(activity.startTime, dayTimeZones.get(activity.tripDayId)) : "",
+      endTime: activity.endTime ? formatTime(activity.endTime, dayTimeZones.get(activity.tripDayId)) : "",
+      endDate:
+        activity.endTime && getActivityDaySpan(activity, dayTimeZones.get(activity.tripDayId)) > 0
+          ? wallClockInZone(activity.endTime, dayTimeZones.get(activity.tripDayId)).date
+          : "",
       notes: activity.description || "",
+      notesPrivate: Boolean(activity.notesPrivate),
       location: activity.location || "",
       startLocation: activity.startLocation || "",
+      travelMode: activity.travelMode || "",
       budget: activity.budget ? String(activity.budget) : "",
+      openingHours: null,
+    });
+  }
+
+  // A saved stay may have moved to another check-in day, so drop it everywhere before placing it.
+  function placeHotel(tripId: string, hotel: HotelStay | null, removeId: string) {
+    setTrips((prev) =>
+      prev.map((trip) =>
+        trip.id === tripId
+          ? {
+              ...trip,
+              days: trip.days.map((day) => {
+                const others = (day.hotels || []).filter((entry) => entry.id !== removeId);
+                return {
+                  ...day,
+                  hotels: hotel && day.id === hotel.tripDayId ? [...others, hotel] : others,
+                };
+              }),
+            }
+          : trip,
+      ),
+    );
+  }
+
+  function openHotelForm(hotel?: HotelStay) {
+    if (!hotel) {
+      setEditingHotelId(null);
+      setHotelForm({ ...emptyHotelForm, checkInDayId: selectedDay?.id ?? "" });
+      setShowHotelForm(true);
+      return;
+    }
+    const stay = stayDates(hotel, dayTimeZones.get(hotel.tripDayId));
+    setEditingHotelId(hotel.id);
+    setHotelForm({
+      name: hotel.name,
+      address: hotel.address || "",
+      checkInDayId: hotel.tripDayId,
+      nights: String(Math.max(1, stay.nights)),
+      checkInTime: stay.checkInTime,
+      checkOutTime: stay.checkOutTime,
+      pricePerNight:
+        hotel.pricePerNight === null || hotel.pricePerNight === undefined ? "" : String(hotel.pricePerNight),
+      currency: hotel.currency || "USD",
+      rating: hotel.rating === null || hotel.rating === undefined ? "" : String(hotel.rating),
     });
-    setIsHotelActivity(Boolean(hotelMeta));
-    setHotelStayNights(hotelMeta?.nights && hotelMeta.nights > 0 ? hotelMeta.nights : 1);
+    setShowHotelForm(true);
+  }
+
+  function closeHotelForm() {
+    setEditingHotelId(null);
+    setHotelForm(emptyHotelForm);
+    setShowHotelForm(false);
+  }
+
+  async function saveHotel(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const checkInDay = selectedTrip?.days.find((day) => day.id === hotelForm.checkInDayId);
+    const nights = Number.parseInt(hotelForm.nights, 10);
+    if (!selectedTrip || !checkInDay || !hotelForm.name.trim() || !Number.isFinite(nights) || nights < 1) {
+      setTripError("Give the stay a name, a check-in day and at least one night.");
+      return;
+    }
+    const tripId = selectedTrip.id;
+    const rating = Number.parseFloat(hotelForm.rating);
+    const payload = {
+      name: hotelForm.name.trim(),
+      address: hotelForm.address.trim() || null,
+      checkInDate: checkInDay.date.slice(0, 10),
+      checkInTime: hotelForm.checkInTime || undefined,
+      checkOutTime: hotelForm.checkOutTime || undefined,
+      nights,
+      pricePerNight: hotelForm.pricePerNight.trim() ? hotelForm.pricePerNight.trim() : null,
+      currency: hotelForm.currency.trim() || undefined,
+      rating: Number.isFinite(rating) ? rating : null,
+    };
+    const editingHotel = editingHotelId
+      ? selectedTrip.days.flatMap((day) => day.hotels || []).find((hotel) => hotel.id === editingHotelId)
+      : undefined;
+    setSavingHotel(true);
+    setTripError(null);
+    try {
+      const res = editingHotel
+        ? await sendVersionedPatch<HotelStay>(
+            `/api/trips/${tripId}/hotels/${editingHotel.id}`,
+            payload,
+            editingHotel.version,
+            (current) => placeHotel(tripId, current, current.id),
+          )
+        : await fetch(`/api/trips/${tripId}/hotels`, {
+            method: "POST",
+            headers: jsonHeaders,
+            body: JSON.stringify(payload),
+          });
+      if (!res) {
+        closeHotelForm();
+        return;
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : `Failed to save hotel (${res.status})`);
+      }
+      const hotel = data.hotel as HotelStay;
+      placeHotel(tripId, hotel, hotel.id);
+      closeHotelForm();
+    } catch (err) {
+      setTripError(err instanceof Error ? err.message : "Failed to save hotel");
+    } finally {
+      setSavingHotel(false);
+    }
+  }
+
+  async function deleteHotel(hotel: HotelStay) {
+    if (!selectedTrip) return;
+    if (!window.confirm(`Move the stay at ${hotel.name} to the trash?`)) return;
+    const tripId = selectedTrip.id;
+    try {
+      const res = await fetch(`/api/trips/${tripId}/hotels/${hotel.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to delete hotel (${res.status})`);
+      }
+      placeHotel(tripId, null, hotel.id);
+      if (editingHotelId === hotel.id) closeHotelForm();
+    } catch (err) {
+      setTripError(err instanceof Error ? err.message : "Failed to delete hotel");
+    }
   }
 
   function cancelActivityEdit() {
@@ -1247,8 +2330,6 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     setEditingActivityOriginalDayId(null);
     setActivityForm(emptyActivityForm);
     setActivityDayId(selectedDay?.id ?? null);
-    setIsHotelActivity(false);
-    setHotelStayNights(1);
   }
 
   useEffect(() => {
@@ -1303,9 +2384,11 @@ const sortActivitiesByStart = (activities: Activity[]) =>
       if (res.ok) {
         const data = await res.json();
         const address = data.address || suggestion.description;
-        if (address) {
-          setActivityForm((prev) => ({ ...prev, location: address }));
-        }
+        setActivityForm((prev) => ({
+          ...prev,
+          location: address || prev.location,
+          openingHours: Array.isArray(data.openingHours) ? data.openingHours : null,
+        }));
       }
     } catch (error) {
       setTitleSuggestionsError(error instanceof Error ? error.message : "Failed to load place details");
@@ -1319,19 +2402,241 @@ const sortActivitiesByStart = (activities: Activity[]) =>
       const res = await fetch(`/api/trips/${selectedTripId}/collaborators`, {
         method: "POST",
         headers: jsonHeaders,
-        body: JSON.stringify({ email: shareEmail.trim() }),
+        body: JSON.stringify({ email: shareEmail.trim(), role: shareRole }),
       });
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body?.error || `Failed to share trip (${res.status})`);
       }
-      setShareStatus("Shared");
+      const data = await res.json();
+      if (data.collaborator) {
+        setTrips((prev) =>
+          prev.map((trip) =>
+            trip.id === selectedTripId
+              ? {
+                  ...trip,
+                  collaborators: [
+                    ...(trip.collaborators || []).filter((entry) => entry.id !== data.collaborator.id),
+                    data.collaborator,
+                  ],
+                }
+              : trip,
+          ),
+        );
+      }
+      setShareStatus(`Shared as ${collaboratorRoleLabels[shareRole].toLowerCase()}`);
       setShareEmail("");
+      if (showSharePanel) {
+        loadTripMembers(selectedTripId);
+      }
     } catch (error) {
       setShareStatus(error instanceof Error ? error.message : "Failed to share trip");
     }
   }
 
+  async function loadTripMembers(tripId: string) {
+    if (!authHeaders) return;
+    setLoadingMembers(true);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/collaborators`, { headers: authHeaders });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to load collaborators (${res.status})`);
+      }
+      const data = await res.json();
+      setTripMembers(data.collaborators || []);
+      setTripOwnerEmail(data.owner?.email ?? null);
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : "Failed to load collaborators");
+    } finally {
+      setLoadingMembers(false);
+    }
+  }
+
+  async function loadInviteLinks(tripId: string) {
+    if (!authHeaders) return;
+    try {
+      const res = await fetch(`/api/trips/${tripId}/invites`, { headers: authHeaders });
+      if (!res.ok) return;
+      const data = await res.json();
+      setInviteLinks((data.invites || []).filter((invite: TripInviteLink) => invite.status === "active"));
+    } catch (error) {
+      console.warn("Failed to load invite links", error);
+    }
+  }
+
+  async function createInviteLink() {
+    if (!selectedTripId || !jsonHeaders) return;
+    setCreatingInvite(true);
+    setShareStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTripId}/invites`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify(inviteForm),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to create invite link (${res.status})`);
+      }
+      const data = await res.json();
+      setInviteLinks((prev) => [data.invite, ...prev]);
+      if (data.invite?.url) {
+        await navigator.clipboard?.writeText(data.invite.url).catch(() => undefined);
+      }
+      setShareStatus("Invite link copied");
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : "Failed to create invite link");
+    } finally {
+      setCreatingInvite(false);
+    }
+  }
+
+  async function revokeInviteLink(inviteId: string) {
+    if (!selectedTripId || !authHeaders) return;
+    setShareStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTripId}/invites/${inviteId}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to revoke invite link (${res.status})`);
+      }
+      setInviteLinks((prev) => prev.filter((invite) => invite.id !== inviteId));
+      setShareStatus("Invite link revoked");
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : "Failed to revoke invite link");
+    }
+  }
+
+  async function updatePublicLink(options: { enabled?: boolean; rotateSlug?: boolean }) {
+    if (!selectedTripId || !jsonHeaders) return;
+    setShareStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTripId}/public`, {
+        method: "PATCH",
+        headers: jsonHeaders,
+        body: JSON.stringify(options),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to update public page (${res.status})`);
+      }
+      const data = await res.json();
+      setTrips((prev) =>
+        prev.map((trip) =>
+          trip.id === selectedTripId ? { ...trip, isPublic: data.isPublic, shareSlug: data.shareSlug } : trip,
+        ),
+      );
+      if (options.rotateSlug) {
+        setShareStatus("Public link rotated; old links no longer work");
+      } else {
+        setShareStatus(data.isPublic ? "Public page is live" : "Public page turned off");
+      }
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : "Failed to update public page");
+    }
+  }
+
+  async function loadTripHistory(tripId: string, cursor?: string | null) {
+    if (!authHeaders) return;
+    setLoadingHistory(true);
+    setHistoryError(null);
+    try {
+      const params = new URLSearchParams();
+      if (cursor) params.set("cursor", cursor);
+      const res = await fetch(`/api/trips/${tripId}/history?${params.toString()}`, { headers: authHeaders });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to load history (${res.status})`);
+      }
+      const data = await res.json();
+      setHistoryEvents((prev) => (cursor ? [...prev, ...(data.events || [])] : data.events || []));
+      setHistoryCursor(data.nextCursor ?? null);
+    } catch (error) {
+      setHistoryError(error instanceof Error ? error.message : "Failed to load history");
+    } finally {
+      setLoadingHistory(false);
+    }
+  }
+
+  function syncTripCollaborators(tripId: string, members: TripMember[]) {
+    setTrips((prev) =>
+      prev.map((trip) =>
+        trip.id === tripId
+          ? { ...trip, collaborators: members.map(({ id, email, role }) => ({ id, email, role })) }
+          : trip,
+      ),
+    );
+  }
+
+  async function changeCollaboratorRole(member: TripMember, role: CollaboratorRole) {
+    if (!selectedTripId || !jsonHeaders) return;
+    setShareStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTripId}/collaborators/${member.id}`, {
+        method: "PATCH",
+        headers: jsonHeaders,
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to update collaborator (${res.status})`);
+      }
+      const next = tripMembers.map((entry) => (entry.id === member.id ? { ...entry, role } : entry));
+      setTripMembers(next);
+      syncTripCollaborators(selectedTripId, next);
+      setShareStatus(`${member.email} is now ${collaboratorRoleLabels[role].toLowerCase()}`);
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : "Failed to update collaborator");
+    }
+  }
+
+  async function removeCollaborator(member: TripMember) {
+    if (!selectedTripId || !authHeaders) return;
+    setShareStatus(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTripId}/collaborators/${member.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to remove collaborator (${res.status})`);
+      }
+      const next = tripMembers.filter((entry) => entry.id !== member.id);
+      setTripMembers(next);
+      syncTripCollaborators(selectedTripId, next);
+      setShareStatus(`Removed ${member.email}`);
+    } catch (error) {
+      setShareStatus(error instanceof Error ? error.message : "Failed to remove collaborator");
+    }
+  }
+
+  async function leaveTrip(tripId: string) {
+    if (!authHeaders) return;
+    try {
+      const res = await fetch(`/api/trips/${tripId}/leave`, {
+        method: "POST",
+        headers: authHeaders,
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error || `Failed to leave trip (${res.status})`);
+      }
+      setTrips((prev) => prev.filter((trip) => trip.id !== tripId));
+      if (selectedTripId === tripId) {
+        setSelectedTripId(null);
+        setSelectedDayId(null);
+      }
+      setShowSharePanel(false);
+    } catch (error) {
+      setTripError(error instanceof Error ? error.message : "Failed to leave trip");
+    }
+  }
+
   async function saveTripDetails(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     if (!selectedTrip) return;
@@ -1339,17 +2644,36 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     setTripError(null);
     setTripDetailsStatus(null);
     try {
-      const res = await fetch(`/api/trips/${selectedTrip.id}`, {
-        method: "PATCH",
-        headers: jsonHeaders,
-        body: JSON.stringify({
+      const res = await sendVersionedPatch<Trip>(
+        `/api/trips/${selectedTrip.id}`,
+        {
           title: tripDetailsForm.title,
           description: tripDetailsForm.description,
           homeCity: tripDetailsForm.homeCity,
           startDate: tripDetailsForm.startDate || undefined,
           endDate: tripDetailsForm.endDate || undefined,
-        }),
-      });
+        },
+        selectedTrip.version,
+        (current) => {
+          setTrips((prev) =>
+            prev.map((trip) =>
+              trip.id === selectedTrip.id
+                ? {
+                    ...trip,
+                    title: current.title,
+                    description: current.description,
+                    homeCity: current.homeCity,
+                    startDate: current.startDate,
+                    endDate: current.endDate,
+                    version: current.version,
+                  }
+                : trip,
+            ),
+          );
+          setTripDetailsStatus("Loaded the latest trip details");
+        },
+      );
+      if (!res) return;
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
         throw new Error(body?.error || `Failed to update trip (${res.status})`);
@@ -1365,10 +2689,12 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                 homeCity: data.trip.homeCity,
                 startDate: data.trip.startDate,
                 endDate: data.trip.endDate,
+                version: data.trip.version,
               }
             : trip,
         ),
       );
+      if (data.daysChanged) replaceTripDays(selectedTrip.id, data.trip as Trip);
       setTripDetailsStatus("Trip updated");
     } catch (error) {
       setTripError(error instanceof Error ? error.message : "Failed to update trip");
@@ -1623,7 +2949,7 @@ const sortActivitiesByStart = (activities: Activity[]) =>
         { label: "Evening", start: "19:00" },
       ];
 
-      const created: Activity[] = [];
+      const operations: Array<Record<string, unknown>> = [];
       for (let index = 0; index < Math.min(3, uniqueIdeas.length); index += 1) {
         const idea = uniqueIdeas[index];
         const slot = slots[index];
@@ -1648,28 +2974,29 @@ const sortActivitiesByStart = (activities: Activity[]) =>
         const linkText = safeLink ? ` | Link: ${safeLink}` : "";
         const searchText = !safeLink && fallbackSearch ? ` | Link: ${fallbackSearch}` : "";
         const notesText = `${baseNotes}${linkText}${searchText}`;
-        const resActivity = await fetch(
-          `/api/trips/${selectedTrip.id}/days/${selectedDay.id}/activities`,
-          {
-            method: "POST",
-            headers: jsonHeaders,
-            body: JSON.stringify({
-              title,
-              description: notesText || undefined,
-              notes: notesText || undefined,
-              startTime,
-              endTime,
-              location: address || undefined,
-            }),
-          },
-        );
-        if (!resActivity.ok) {
-          const body = await resActivity.json().catch(() => ({}));
-          throw new Error(body?.error || `Failed to add "${title}"`);
-        }
-        const dataActivity = await resActivity.json();
-        created.push(dataActivity.activity as Activity);
+        operations.push({
+          op: "create",
+          dayId: selectedDay.id,
+          title,
+          notes: notesText || undefined,
+          startTime,
+          endTime,
+          location: address || undefined,
+        });
+      }
+
+      // One batch so the day gets all three ideas or none of them.
+      const resBatch = await fetch(`/api/trips/${selectedTrip.id}/activities/batch`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ operations }),
+      });
+      const dataBatch = await resBatch.json().catch(() => ({}));
+      if (!resBatch.ok) {
+        throw new Error(typeof dataBatch?.error === "string" ? dataBatch.error : "Failed to add the planned activities");
       }
+      const created = (dataBatch.results || []).map((result: { activity: Activity }) => result.activity) as Activity[];
+      mergeTravelLegs(selectedTrip.id, dataBatch.travelLegs);
 
       setTrips((prev) =>
         prev.map((trip) =>
@@ -1699,6 +3026,85 @@ const sortActivitiesByStart = (activities: Activity[]) =>
     }
   }
 
+  async function optimizeRoute(pinnedIds: string[] = routePinnedIds) {
+    if (!selectedTrip || !selectedDay || !canEditTrip) return;
+    setOptimizingRoute(true);
+    setRouteOptimizationError(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTrip.id}/days/${selectedDay.id}/optimize`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ fixedActivityIds: pinnedIds }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : "Failed to optimize the route");
+      }
+      setRoutePinnedIds(pinnedIds);
+      setRouteOptimization(data.optimization as RouteOptimization);
+    } catch (err) {
+      setRouteOptimization(null);
+      setRouteOptimizationError(err instanceof Error ? err.message : "Failed to optimize the route");
+    } finally {
+      setOptimizingRoute(false);
+    }
+  }
+
+  function toggleRoutePin(activityId: string) {
+    optimizeRoute(
+      routePinnedIds.includes(activityId)
+        ? routePinnedIds.filter((id) => id !== activityId)
+        : [...routePinnedIds, activityId],
+    );
+  }
+
+  async function applyRouteOptimization() {
+    if (!selectedTrip || !selectedDay || !routeOptimization?.operations.length) return;
+    setApplyingRoute(true);
+    setRouteOptimizationError(null);
+    try {
+      // Same batch endpoint as every multi-activity edit: all new times land together or none do.
+      const res = await fetch(`/api/trips/${selectedTrip.id}/activities/batch`, {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ operations: routeOptimization.operations }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : "Failed to apply the new route");
+      }
+      const updated = new Map(
+        ((data.results || []) as Array<{ activity: Activity }>).map((result) => [result.activity.id, result.activity]),
+      );
+      setTrips((prev) =>
+        prev.map((trip) =>
+          trip.id === selectedTrip.id
+            ? {
+                ...trip,
+                days: trip.days.map((day) =>
+                  day.id === selectedDay.id
+                    ? {
+                        ...day,
+                        activities: sortActivitiesByStart(
+                          (day.activities || []).map((activity) => updated.get(activity.id) ?? activity),
+                        ),
+                      }
+                    : day,
+                ),
+              }
+            : trip,
+        ),
+      );
+      mergeTravelLegs(selectedTrip.id, data.travelLegs);
+      setRouteOptimization(null);
+      setRoutePinnedIds([]);
+    } catch (err) {
+      setRouteOptimizationError(err instanceof Error ? err.message : "Failed to apply the new route");
+    } finally {
+      setApplyingRoute(false);
+    }
+  }
+
   const chatPanelContent = (
     <div className="flex h-full w-full flex-col">
       <div className="flex flex-col gap-2 pb-3">
@@ -1740,7 +3146,7 @@ const sortActivitiesByStart = (activities: Activity[]) =>
         <button
           type="button"
           onClick={planDayWithFonda}
-          disabled={!isAuthenticated || planningDay || !selectedDay || !dayIsOpenForPlan}
+          disabled={!isAuthenticated || planningDay || !selectedDay || !dayIsOpenForPlan || !canEditTrip}
           className="w-full rounded-md border-2 border-dayglo-void bg-dayglo-cyan py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-not-allowed disabled:opacity-60"
         >
           {planningDay ? "Planning..." : "Plan my day (Beta)"}
@@ -1862,7 +3268,29 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                     </option>
                   ))}
                 </select>
-                {selectedTrip && (
+                {selectedTrip && !canEditTrip && (
+                  <span className="rounded-md border-2 border-dayglo-void bg-dayglo-yellow px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm">
+                    View only
+                  </span>
+                )}
+                {otherViewers.length > 0 && (
+                  <div className="flex items-center -space-x-2" aria-label="Also viewing this trip">
+                    {otherViewers.map((viewer) => {
+                      const viewerDay = selectedTrip?.days.find((day) => day.id === viewer.dayId);
+                      const name = viewer.displayName || viewer.email;
+                      return (
+                        <span
+                          key={viewer.connectionId}
+                          title={`${name}${viewerDay ? ` is viewing ${viewerDay.city} (${format(new Date(viewerDay.date), "MMM d")})` : " is here"}`}
+                          className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-dayglo-void bg-dayglo-cyan text-xs font-black uppercase text-dayglo-void shadow-hard-sm"
+                        >
+                          {name.slice(0, 1)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+                {selectedTrip && canManageSharing && (
                   <div className="flex flex-wrap items-center gap-2">
                     <input
                       type="email"
@@ -1871,6 +3299,18 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                       onChange={(event) => setShareEmail(event.target.value)}
                       className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
                     />
+                    <select
+                      value={shareRole}
+                      onChange={(event) => setShareRole(event.target.value as CollaboratorRole)}
+                      title="What the invited person can do"
+                      className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                    >
+                      {(Object.keys(collaboratorRoleLabels) as CollaboratorRole[]).map((role) => (
+                        <option key={role} value={role}>
+                          {collaboratorRoleLabels[role]}
+                        </option>
+                      ))}
+                    </select>
                     <button
                       type="button"
                       onClick={() => shareTripWithEmail()}
@@ -1880,9 +3320,50 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                     >
                       Share trip
                     </button>
-                    {shareStatus && <p className="text-xs text-slate-600">{shareStatus}</p>}
                   </div>
                 )}
+                {selectedTrip && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const next = !showSharePanel;
+                      setShowSharePanel(next);
+                      if (next) {
+                        loadTripMembers(selectedTrip.id);
+                        if (canManageSharing) loadInviteLinks(selectedTrip.id);
+                      }
+                    }}
+                    title="See who this trip is shared with"
+                    className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                  >
+                    {showSharePanel ? "Hide people" : "People"}
+                  </button>
+                )}
+                {selectedTrip && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowHistory(true);
+                      loadTripHistory(selectedTrip.id);
+                    }}
+                    title="See who changed what on this trip"
+                    className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                  >
+                    History
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowTrash(true);
+                    loadTrash();
+                  }}
+                  title="Restore deleted trips, days, and activities"
+                  className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                >
+                  Trash
+                </button>
+                {shareStatus && <p className="text-xs text-slate-600">{shareStatus}</p>}
                 <button
                   type="button"
                   onClick={() => router.push("/start")}
@@ -1891,21 +3372,21 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                 >
                   New trip
                 </button>
-                {selectedTrip && (
+                {selectedTrip && isTripOwner && (
                   <button
                     type="button"
                     onClick={() => {
-                      if (window.confirm(`Delete trip "${selectedTrip.title}"?`)) {
+                      if (window.confirm(`Move trip "${selectedTrip.title}" to the trash?`)) {
                         deleteTrip(selectedTrip.id);
                       }
                     }}
-                    title="Permanently delete this trip"
+                    title="Move this trip to the trash; restore it from Trash"
                     className="rounded-md border-2 border-dayglo-void bg-dayglo-orange px-4 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
                   >
                     Delete trip
                   </button>
                 )}
-                {selectedTrip && (
+                {selectedTrip && canEditTrip && (
                   <button
                     type="button"
                     onClick={() => setShowTripDetailsForm((prev) => !prev)}
@@ -1989,7 +3470,11 @@ const sortActivitiesByStart = (activities: Activity[]) =>
           {selectedTrip && (
             <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
               <a
-                href={`/hotel-research${hotelSearchCity ? `?city=${encodeURIComponent(hotelSearchCity)}` : ""}`}
+                href={`/hotel-research?${new URLSearchParams({
+                  ...(hotelSearchCity ? { city: hotelSearchCity } : {}),
+                  tripId: selectedTrip.id,
+                  ...(selectedDay ? { dayId: selectedDay.id } : {}),
+                }).toString()}`}
                 target="_blank"
                 rel="noreferrer"
                 className="flex flex-col justify-between rounded-xl border-2 border-dayglo-void bg-white/80 p-4 shadow-hard-sm transition hover:-translate-y-1 hover:shadow-[4px_4px_0px_0px_#FF00FF]"
@@ -2003,7 +3488,8 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                 <div className="mt-2 space-y-1">
                   <p className="text-lg font-black text-dayglo-void">Research stays</p>
                   <p className="text-sm text-dayglo-void/80">
-                    Open the hotel finder (Google Maps) with filters for rating, distance, and price.
+                    Open the hotel finder (Google Maps) with filters for rating, distance, and price, then shortlist
+                    or add stays to this trip.
                   </p>
                   {hotelSearchCity && (
                     <p className="text-xs font-semibold text-dayglo-void/70">Prefilled city: {hotelSearchCity}</p>
@@ -2028,22 +3514,27 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                     }`}
                   >
                     {format(new Date(day.date), "MMM d")}
+                    {otherViewers.some((viewer) => viewer.dayId === day.id) && (
+                      <span className="ml-1 inline-block h-2 w-2 rounded-full bg-dayglo-cyan" title="Someone else is here" />
+                    )}
                   </button>
                 ))
               ) : (
                 <p className="text-xs font-semibold text-dayglo-void">No days yet.</p>
               )}
-              <button
-                type="button"
-                onClick={() => setShowAddDayForm((prev) => !prev)}
-                className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none"
-              >
-                {showAddDayForm ? "Close" : "Add day(s)"}
-              </button>
+              {canEditTrip && (
+                <button
+                  type="button"
+                  onClick={() => setShowAddDayForm((prev) => !prev)}
+                  className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none"
+                >
+                  {showAddDayForm ? "Close" : "Add day(s)"}
+                </button>
+              )}
             </div>
           )}
 
-          {showAddDayForm && selectedTrip && (
+          {showAddDayForm && selectedTrip && canEditTrip && (
             <form
               className="grid gap-3 rounded-lg border-2 border-dayglo-void bg-paper p-3 shadow-hard"
               onSubmit={addTripDay}
@@ -2095,7 +3586,198 @@ const sortActivitiesByStart = (activities: Activity[]) =>
             </form>
           )}
 
-          {showTripDetailsForm && selectedTrip && (
+          {showSharePanel && selectedTrip && (
+            <div className="space-y-3 rounded-lg border-2 border-dayglo-void bg-paper p-4 shadow-hard">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-black uppercase tracking-[0.2em] text-dayglo-void">Shared with</p>
+                {!isTripOwner && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm(`Leave "${selectedTrip.title}"? You will lose access until someone shares it again.`)) {
+                        leaveTrip(selectedTrip.id);
+                      }
+                    }}
+                    className="rounded-md border-2 border-dayglo-void bg-dayglo-orange px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none"
+                  >
+                    Leave trip
+                  </button>
+                )}
+              </div>
+              {tripOwnerEmail && (
+                <p className="text-xs font-semibold text-dayglo-void">
+                  {tripOwnerEmail} <span className="uppercase tracking-[0.2em] text-dayglo-void/60">Owner</span>
+                </p>
+              )}
+              {loadingMembers ? (
+                <p className="text-xs text-slate-600">Loading collaborators...</p>
+              ) : tripMembers.length ? (
+                <ul className="space-y-2">
+                  {tripMembers.map((member) => (
+                    <li
+                      key={member.id}
+                      className="flex flex-wrap items-center justify-between gap-2 rounded-md border-2 border-dayglo-void bg-white px-3 py-2"
+                    >
+                      <div>
+                        <p className="text-sm font-semibold text-dayglo-void">{member.displayName || member.email}</p>
+                        <p className="text-[11px] uppercase tracking-[0.2em] text-dayglo-void/60">
+                          {member.displayName ? `${member.email} · ` : ""}
+                          {member.status === "active" ? "Joined" : "Invite pending"}
+                        </p>
+                      </div>
+                      {canManageSharing ? (
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={member.role}
+                            onChange={(event) => changeCollaboratorRole(member, event.target.value as CollaboratorRole)}
+                            className="rounded-md border-2 border-dayglo-void bg-white px-2 py-1 text-xs font-semibold text-dayglo-void shadow-hard-sm outline-none"
+                          >
+                            {(Object.keys(collaboratorRoleLabels) as CollaboratorRole[]).map((role) => (
+                              <option key={role} value={role}>
+                                {collaboratorRoleLabels[role]}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (window.confirm(`Remove ${member.email} from this trip?`)) {
+                                removeCollaborator(member);
+                              }
+                            }}
+                            className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void hover:text-dayglo-pink"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void">
+                          {collaboratorRoleLabels[member.role]}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-slate-600">Not shared with anyone yet.</p>
+              )}
+              {isTripOwner && (
+                <div className="space-y-2 border-t-2 border-dayglo-void/20 pt-3">
+                  <p className="text-sm font-black uppercase tracking-[0.2em] text-dayglo-void">Public page</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-2 text-xs font-semibold text-dayglo-void">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(selectedTrip.isPublic)}
+                        onChange={(event) => updatePublicLink({ enabled: event.target.checked })}
+                      />
+                      Anyone with the link can view (no budgets or private notes)
+                    </label>
+                    {selectedTrip.shareSlug && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (window.confirm("Rotate the public link? Anyone using the old link will lose access.")) {
+                            updatePublicLink({ rotateSlug: true });
+                          }
+                        }}
+                        className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void hover:text-dayglo-pink"
+                      >
+                        Rotate link
+                      </button>
+                    )}
+                  </div>
+                  {selectedTrip.isPublic && selectedTrip.shareSlug && (
+                    <a
+                      href={`/t/${selectedTrip.shareSlug}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="block truncate font-mono text-xs text-dayglo-void underline hover:text-dayglo-pink"
+                    >
+                      {typeof window !== "undefined" ? window.location.origin : ""}/t/{selectedTrip.shareSlug}
+                    </a>
+                  )}
+                </div>
+              )}
+              {canManageSharing && (
+                <div className="space-y-2 border-t-2 border-dayglo-void/20 pt-3">
+                  <p className="text-sm font-black uppercase tracking-[0.2em] text-dayglo-void">Invite link</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={inviteForm.role}
+                      onChange={(event) =>
+                        setInviteForm((prev) => ({ ...prev, role: event.target.value as CollaboratorRole }))
+                      }
+                      className="rounded-md border-2 border-dayglo-void bg-white px-2 py-1 text-xs font-semibold text-dayglo-void shadow-hard-sm outline-none"
+                    >
+                      {(Object.keys(collaboratorRoleLabels) as CollaboratorRole[]).map((role) => (
+                        <option key={role} value={role}>
+                          {collaboratorRoleLabels[role]}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-xs font-semibold text-dayglo-void">
+                      <input
+                        type="checkbox"
+                        checked={inviteForm.singleUse}
+                        onChange={(event) => setInviteForm((prev) => ({ ...prev, singleUse: event.target.checked }))}
+                      />
+                      Single use
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => createInviteLink()}
+                      disabled={creatingInvite}
+                      title="Create a link that expires in 3 days"
+                      className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[1px] hover:shadow-none disabled:cursor-wait"
+                    >
+                      {creatingInvite ? "Creating..." : "Create link"}
+                    </button>
+                  </div>
+                  {inviteLinks.length > 0 && (
+                    <ul className="space-y-2">
+                      {inviteLinks.map((invite) => (
+                        <li
+                          key={invite.id}
+                          className="flex flex-wrap items-center justify-between gap-2 rounded-md border-2 border-dayglo-void bg-white px-3 py-2"
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate font-mono text-xs text-dayglo-void">{invite.url}</p>
+                            <p className="text-[11px] uppercase tracking-[0.2em] text-dayglo-void/60">
+                              {collaboratorRoleLabels[invite.role]} · expires{" "}
+                              {new Date(invite.expiresAt).toLocaleString()}
+                              {invite.maxUses !== null ? " · single use" : ""}
+                            </p>
+                          </div>
+                          <div className="flex gap-2 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void">
+                            <button
+                              type="button"
+                              onClick={() => {
+                                if (invite.url) navigator.clipboard?.writeText(invite.url).catch(() => undefined);
+                                setShareStatus("Invite link copied");
+                              }}
+                              className="hover:text-dayglo-pink"
+                            >
+                              Copy
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => revokeInviteLink(invite.id)}
+                              className="hover:text-dayglo-pink"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {showTripDetailsForm && selectedTrip && canEditTrip && (
             <form
               className="grid gap-4 rounded-lg border-2 border-dayglo-void bg-paper p-4 shadow-hard"
               onSubmit={saveTripDetails}
@@ -2149,6 +3831,33 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                   />
                 </div>
               </div>
+              <div className="sm:col-span-2">
+                <p className="text-xs font-semibold text-dayglo-void/70">
+                  Changing the dates adds days at the ends; days outside the new range move to the trash.
+                </p>
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <label className="text-sm font-black text-dayglo-void" htmlFor="tripShiftDays">
+                    Shift whole trip by
+                  </label>
+                  <input
+                    id="tripShiftDays"
+                    type="number"
+                    value={shiftDays}
+                    onChange={(e) => setShiftDays(e.target.value)}
+                    placeholder="e.g. 7 or -2"
+                    className="w-28 rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                  />
+                  <span className="text-sm font-semibold text-dayglo-void">days</span>
+                  <button
+                    type="button"
+                    onClick={shiftTripDates}
+                    disabled={shiftingTrip || !shiftDays}
+                    className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {shiftingTrip ? "Shifting..." : "Shift"}
+                  </button>
+                </div>
+              </div>
               <div className="sm:col-span-2">
                 <label className="text-sm font-black text-dayglo-void" htmlFor="tripDescription">
                   Notes / intent
@@ -2397,6 +4106,72 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                   {profileStatus && <span className="text-xs font-black text-dayglo-void">{profileStatus}</span>}
                 </div>
               </div>
+              <div className="sm:col-span-2 rounded-lg border-2 border-dayglo-void bg-white p-4 shadow-hard-sm">
+                <p className="text-xs font-black uppercase tracking-[0.3em] text-dayglo-pink">Copy this trip</p>
+                <p className="text-xs font-semibold text-dayglo-void/70">
+                  Days, activities, and hotels are copied into a new trip you own. Collaborators are not.
+                </p>
+                <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <label className="text-xs font-black uppercase text-dayglo-void" htmlFor="copyStartDate">
+                      New start date
+                    </label>
+                    <input
+                      id="copyStartDate"
+                      type="date"
+                      value={copyForm.startDate}
+                      onChange={(e) => setCopyForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                      className="w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-black uppercase text-dayglo-void" htmlFor="copyTemplateName">
+                      Template name
+                    </label>
+                    <input
+                      id="copyTemplateName"
+                      value={copyForm.templateName}
+                      onChange={(e) => setCopyForm((prev) => ({ ...prev, templateName: e.target.value }))}
+                      placeholder={selectedTrip.title}
+                      className="w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs font-semibold text-dayglo-void">
+                    <input
+                      type="checkbox"
+                      checked={copyForm.stripTimes}
+                      onChange={(e) => setCopyForm((prev) => ({ ...prev, stripTimes: e.target.checked }))}
+                    />
+                    Leave out activity times
+                  </label>
+                  <label className="flex items-center gap-2 text-xs font-semibold text-dayglo-void">
+                    <input
+                      type="checkbox"
+                      checked={copyForm.stripBudgets}
+                      onChange={(e) => setCopyForm((prev) => ({ ...prev, stripBudgets: e.target.checked }))}
+                    />
+                    Leave out budgets and prices
+                  </label>
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => copySelectedTrip(false)}
+                    disabled={copyingTrip}
+                    className="rounded-md border-2 border-dayglo-void bg-white px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow disabled:cursor-wait"
+                  >
+                    Duplicate trip
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => copySelectedTrip(true)}
+                    disabled={copyingTrip}
+                    className="rounded-md border-2 border-dayglo-void bg-white px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow disabled:cursor-wait"
+                  >
+                    Save as template
+                  </button>
+                </div>
+              </div>
               <div className="flex items-center gap-3 sm:col-span-2">
                 <button
                   type="submit"
@@ -2474,9 +4249,12 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                               onClick={() => {
                                 if (!tripDay) return;
                                 setCalendarDayId(tripDay.id);
-                                setCalendarEventId(tripDay.activities?.[0]?.id ?? null);
+                                setCalendarEventId(dayActivities.get(tripDay.id)?.[0]?.id ?? null);
                               }}
+                              {...(tripDay ? activityDropProps(`cell-${tripDay.id}`, { dayId: tripDay.id }) : {})}
                               className={`h-28 rounded-lg border-2 px-2 py-2 text-left text-xs font-semibold transition shadow-hard-sm ${
+                                tripDay && dropTargetKey === `cell-${tripDay.id}` ? "ring-4 ring-dayglo-lime" : ""
+                              } ${
                                 tripDay
                                   ? isSelected
                                     ? "border-dayglo-void bg-white"
@@ -2485,9 +4263,9 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                               } ${tripDay ? "cursor-pointer" : "cursor-default"}`}
                               title={
                                 tripDay
-                                  ? (tripDay.activities || [])
+                                  ? (dayActivities.get(tripDay.id) || [])
                                       .map((activity) => {
-                                        const time = formatTime(activity.startTime);
+                                        const time = formatTime(activity.startTime, dayTimeZones.get(activity.tripDayId));
                                         const loc = activity.location ? ` @ ${activity.location}` : "";
                                         return `${time !== "--:--" ? `${time} ` : ""}${activity.title}${loc}`;
                                       })
@@ -2517,8 +4295,7 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                               {tripDay ? (
                                 <div className="mt-2 space-y-1 text-[11px] text-dayglo-void">
                                   <p className="truncate font-black">
-                                    {tripDay.activities?.find((activity) => activity.type === "hotel")?.title ||
-                                      "No lodging set"}
+                                    {dayHotels.get(tripDay.id)?.[0]?.name || "No lodging set"}
                                   </p>
                                   <p className="truncate text-[10px] font-semibold text-dayglo-void/70">
                                     {tripDay.city}
@@ -2559,22 +4336,20 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                         <div className="space-y-2 rounded-lg border-2 border-dayglo-void bg-paper p-3 shadow-hard">
                           <p className="text-xs font-black uppercase tracking-[0.4em] text-dayglo-pink">Hotel stays</p>
                           <ul className="space-y-1 text-sm text-dayglo-void">
-                            {calendarHotels.map((activity) => {
-                              const meta = getHotelMetadata(activity);
+                            {calendarHotels.map((hotel) => {
+                              const stay = describeStay(hotel, dayTimeZones.get(hotel.tripDayId));
                               return (
-                                <li key={activity.id} className="flex items-center justify-between gap-2">
+                                <li key={hotel.id} className="flex items-center justify-between gap-2">
                                   <div>
-                                    <p className="font-black text-dayglo-void">{activity.title}</p>
+                                    <p className="font-black text-dayglo-void">{hotel.name}</p>
                                     <span className="data-mono inline-flex items-center border border-dayglo-void bg-dayglo-pink px-2 py-0.5 text-xs font-bold text-dayglo-void shadow-[2px_2px_0px_0px_#050505]">
-                                      {formatTimeRange(activity)}
+                                      {stay.range}
                                     </span>
-                                    {meta?.nights && (
-                                      <p className="text-xs font-semibold text-dayglo-void">{meta.nights} night{meta.nights === 1 ? "" : "s"}</p>
-                                    )}
+                                    <p className="text-xs font-semibold text-dayglo-void">{stay.nightsLabel}</p>
                                   </div>
-                                  {meta?.price && meta?.currency && (
+                                  {stay.priceLabel && (
                                     <span className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-2 py-0.5 text-[11px] font-black text-dayglo-void shadow-hard-sm">
-                                      {meta.price.toFixed(0)} {meta.currency}
+                                      {stay.priceLabel}
                                     </span>
                                   )}
                                 </li>
@@ -2584,21 +4359,23 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                         </div>
                       )}
                       <div className="space-y-2">
-                        {(calendarDay.activities || []).length ? (
-                          calendarDay.activities?.map((activity) => (
+                        {calendarDayActivities.length > 0 && renderTimeDropRail(calendarDay)}
+                        {calendarDayActivities.length ? (
+                          calendarDayActivities.map((activity) => (
                             <button
                               key={activity.id}
                               type="button"
                               onClick={() => setCalendarEventId(activity.id)}
+                              {...activityDragProps(activity)}
                               className={`w-full rounded-lg border-2 px-4 py-3 text-left font-semibold transition ${
                                 activity.id === calendarEventId
                                   ? "border-dayglo-void bg-white shadow-hard"
                                   : "border-dayglo-void bg-paper shadow-hard-sm hover:-translate-y-1 hover:shadow-[4px_4px_0px_0px_#FF00FF]"
-                              }`}
+                              } ${draggedActivityId === activity.id || reschedulingActivityId === activity.id ? "opacity-50" : ""}`}
                             >
                               <p className="text-sm font-black text-dayglo-void">{activity.title}</p>
                               <span className="data-mono inline-flex items-center border border-dayglo-void bg-dayglo-pink px-2 py-0.5 text-[11px] font-bold uppercase text-dayglo-void shadow-[2px_2px_0px_0px_#050505]">
-                                {formatTimeRange(activity)}
+                                {formatTimeRange(activity, dayTimeZones.get(activity.tripDayId))}
                               </span>
                               {activity.location && (
                                 <p className="text-xs text-dayglo-void/80">{activity.location}</p>
@@ -2627,34 +4404,9 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                             <p className="text-xs font-black uppercase tracking-[0.4em] text-dayglo-pink">Event detail</p>
                             <h4 className="text-lg font-black text-dayglo-void">{calendarEvent.title}</h4>
                             <span className="data-mono inline-flex items-center border border-dayglo-void bg-dayglo-pink px-2 py-0.5 text-xs font-bold text-dayglo-void shadow-[2px_2px_0px_0px_#050505]">
-                              {formatTimeRange(calendarEvent)}
+                              {formatTimeRange(calendarEvent, dayTimeZones.get(calendarEvent.tripDayId))}
                             </span>
                           </div>
-                          {calendarEventHotel && (
-                            <div className="flex flex-wrap items-center gap-2 text-xs text-dayglo-void">
-                              <span className="rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-2 py-0.5 text-[11px] font-black uppercase tracking-[0.25em] text-dayglo-void shadow-hard-sm">
-                                Hotel
-                              </span>
-                              {calendarEventHotel.nights && (
-                                <span className="font-semibold">{calendarEventHotel.nights} night{calendarEventHotel.nights === 1 ? "" : "s"}</span>
-                              )}
-                              {calendarEventHotel.price && calendarEventHotel.currency && (
-                                <span className="font-black text-dayglo-void">
-                                  {calendarEventHotel.price.toFixed(0)} {calendarEventHotel.currency}
-                                </span>
-                              )}
-                              {calendarEventHotel.offer && (
-                                <a
-                                  href={calendarEventHotel.offer}
-                                  target="_blank"
-                                  rel="noreferrer"
-                                  className="font-black text-dayglo-cyan underline hover:text-dayglo-pink"
-                                >
-                                  View offer
-                                </a>
-                              )}
-                            </div>
-                          )}
                           {calendarEventBudgetValue && (
                             <p className="data-mono text-xs text-dayglo-void">Budget {calendarEventBudgetValue}</p>
                           )}
@@ -2740,6 +4492,13 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                   </p>
                 </div>
 
+                <TripMap
+                  tripId={selectedTrip.id}
+                  authHeaders={authHeaders}
+                  refreshKey={scheduleSignature}
+                  onSelectActivity={(pin) => openActivityInTimeline(pin.dayId, pin.activityId)}
+                />
+
                 <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
                   <div className="rounded-lg border-2 border-dayglo-void bg-white/80 p-4 shadow-hard-sm">
                     <p className="text-[11px] font-black uppercase tracking-[0.3em] text-dayglo-pink">Budget</p>
@@ -2787,6 +4546,18 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                     <p className="text-xs font-semibold text-dayglo-void/70">
                       {travelStats.totalMeters ? `${(travelStats.totalMeters / 1000).toFixed(1)} km` : "No travel logged"}
                     </p>
+                    {travelStats.byMode.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {travelStats.byMode.map((entry) => (
+                          <span
+                            key={entry.mode}
+                            className="data-mono rounded-sm border border-dayglo-void bg-white px-2 py-0.5 text-[11px] font-black text-dayglo-void"
+                          >
+                            {travelModeLabels[entry.mode]} {formatHoursLabel(Math.round(entry.seconds / 60))}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                     <div className="mt-3 space-y-2">
                       {topTravelDays.length ? (
                         topTravelDays.map((stat) => (
@@ -2846,6 +4617,26 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                         Open in Google Maps
                       </a>
                     )}
+                    {canEditTrip && selectedTrip && (
+                      <CityRoutePlanner
+                        key={selectedTrip.id}
+                        tripId={selectedTrip.id}
+                        tripVersion={selectedTrip.version}
+                        jsonHeaders={jsonHeaders}
+                        initialCities={cityStops.ordered.map((stop) => stop.city)}
+                        initialStartDate={selectedTrip.startDate?.slice(0, 10) ?? ""}
+                        initialEndDate={selectedTrip.endDate?.slice(0, 10) ?? ""}
+                        onApplied={(trip) => {
+                          const planned = trip as Trip;
+                          replaceTripDays(selectedTrip.id, planned);
+                          setTripDetailsForm((prev) => ({
+                            ...prev,
+                            startDate: planned.startDate ? planned.startDate.slice(0, 10) : "",
+                            endDate: planned.endDate ? planned.endDate.slice(0, 10) : "",
+                          }));
+                        }}
+                      />
+                    )}
                   </div>
 
                   <div className="rounded-lg border-2 border-dayglo-void bg-white/80 p-4 shadow-hard-sm">
@@ -2948,6 +4739,51 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                       )}
                     </div>
                   </div>
+
+                  <div className="rounded-lg border-2 border-dayglo-void bg-white/80 p-4 shadow-hard-sm">
+                    <p className="text-[11px] font-black uppercase tracking-[0.3em] text-dayglo-pink">Conflicts</p>
+                    <h3 className="text-xl font-black text-dayglo-void">
+                      {scheduleConflicts.length
+                        ? `${scheduleConflicts.length} schedule issue${scheduleConflicts.length === 1 ? "" : "s"}`
+                        : "Schedule looks clear"}
+                    </h3>
+                    <p className="text-xs font-semibold text-dayglo-void/70">
+                      Overlaps, tight transfers, and visits outside opening hours
+                    </p>
+                    <div className="mt-3 space-y-2">
+                      {scheduleConflictsError ? (
+                        <p className="text-xs font-semibold text-red-600">{scheduleConflictsError}</p>
+                      ) : scheduleConflicts.length ? (
+                        scheduleConflicts.slice(0, 6).map((conflict) => {
+                          const entry = activityTitles.get(conflict.activityId);
+                          return (
+                            <button
+                              key={`${conflict.kind}-${conflict.activityId}-${conflict.otherActivityId ?? ""}`}
+                              type="button"
+                              onClick={() => openActivityInTimeline(conflict.dayId, conflict.activityId)}
+                              className="w-full space-y-1 rounded-md border border-dayglo-void/40 bg-dayglo-yellow/20 px-3 py-2 text-left text-sm font-semibold text-dayglo-void"
+                            >
+                              <div className="flex items-center justify-between gap-2">
+                                <span>
+                                  {entry ? `${entry.day.city} (${format(new Date(entry.day.date), "MMM d")})` : "Trip day"}
+                                </span>
+                                <span className="data-mono rounded-sm border border-dayglo-void bg-white px-2 py-0.5 text-xs font-black shadow-[2px_2px_0px_0px_#050505]">
+                                  {conflict.kind === "opening_hours"
+                                    ? "Hours"
+                                    : conflict.kind === "transit"
+                                      ? "Transit"
+                                      : "Overlap"}
+                                </span>
+                              </div>
+                              <p className="text-xs font-semibold text-dayglo-void/80">{conflict.message}</p>
+                            </button>
+                          );
+                        })
+                      ) : (
+                        <p className="text-xs font-semibold text-dayglo-void/70">No overlapping or unreachable plans.</p>
+                      )}
+                    </div>
+                  </div>
                 </div>
               </div>
             ) : (
@@ -2975,8 +4811,11 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                         key={day.id}
                         type="button"
                         onClick={() => setSelectedDayId(day.id)}
+                        {...activityDropProps(`chip-${day.id}`, { dayId: day.id })}
                         className={`rounded-full px-3 py-1 transition ${
-                          selectedDayId === day.id
+                          dropTargetKey === `chip-${day.id}`
+                            ? "bg-dayglo-lime text-slate-900"
+                            : selectedDayId === day.id
                             ? "bg-white text-slate-900"
                             : "bg-transparent text-slate-700 hover:bg-white"
                         }`}
@@ -2994,6 +4833,12 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                       <h3 className="text-xl font-semibold text-slate-900">
                         {format(new Date(selectedDay.date), "EEEE, MMMM d")}
                       </h3>
+                      {selectedDay.timezone && (
+                        <p className="text-xs font-semibold text-dayglo-void/70">
+                          Times in {selectedDay.timezone.replace(/_/g, " ")} (
+                          {timeZoneLabel(selectedDay.timezone, new Date(selectedDay.date))})
+                        </p>
+                      )}
                     </div>
 
                     <form className="grid gap-4 md:grid-cols-2" onSubmit={saveDay}>
@@ -3035,6 +4880,22 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                           </ul>
                         )}
                       </div>
+                      <div>
+                        <label className="text-xs text-fuchsia-500" htmlFor="dayDate">
+                          Date
+                        </label>
+                        <input
+                          id="dayDate"
+                          type="date"
+                          required
+                          value={dayForm.date}
+                          onChange={(e) => setDayForm((prev) => ({ ...prev, date: e.target.value }))}
+                          className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                        />
+                        <p className="mt-1 text-[11px] font-semibold text-dayglo-void/70">
+                          Activities move with the day. Picking another day&apos;s date swaps the two.
+                        </p>
+                      </div>
                       <div>
                         <label className="text-xs text-fuchsia-500" htmlFor="dayNotes">
                           Notes / plans
@@ -3047,46 +4908,202 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                           className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
                           placeholder="Morning wander, afternoon train, late dinner"
                         />
+                        <label className="mt-1 flex items-center gap-2 text-xs font-semibold text-dayglo-void">
+                          <input
+                            type="checkbox"
+                            checked={dayForm.notesPrivate}
+                            onChange={(e) => setDayForm((prev) => ({ ...prev, notesPrivate: e.target.checked }))}
+                          />
+                          Keep notes off the public page
+                        </label>
                       </div>
                       <button
                         type="submit"
-                        disabled={savingDay}
+                        disabled={savingDay || !canEditTrip}
                         title="Save this day's city and notes"
                         className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-4 py-2 text-sm font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-wait disabled:opacity-60"
                       >
                         {savingDay ? "Saving..." : "Save day"}
                       </button>
+                      {canEditTrip && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (window.confirm(`Move ${selectedDay.city} to the trash? Its activities go with it.`)) {
+                              deleteDay(selectedDay.id);
+                            }
+                          }}
+                          title="Move this day and its activities to the trash"
+                          className="ml-2 rounded-md border-2 border-dayglo-void bg-dayglo-orange px-4 py-2 text-sm font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                        >
+                          Delete day
+                        </button>
+                      )}
                     </form>
 
                     <div className="space-y-3">
                       <div>
                         <p className="text-xs font-black uppercase tracking-[0.4em] text-dayglo-pink">Trip editor</p>
+                        {selectedDay && orderedActivities.length > 0 && (
+                          <div className="mb-2">{renderTimeDropRail(selectedDay)}</div>
+                        )}
+                        {selectedDay && canEditTrip && orderedActivities.length > 1 && (
+                          <div className="mb-2 rounded-md border-2 border-dayglo-void bg-white/80 p-3 shadow-hard-sm">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                              <p className="text-[11px] font-semibold text-dayglo-void/70">
+                                Reorder flexible stops to cut travel. Hotels, bookings and pinned stops keep their
+                                times.
+                              </p>
+                              <button
+                                type="button"
+                                onClick={() => optimizeRoute()}
+                                disabled={optimizingRoute || applyingRoute}
+                                className="rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-not-allowed disabled:opacity-60"
+                              >
+                                {optimizingRoute ? "Optimizing..." : "Optimize route"}
+                              </button>
+                            </div>
+                            {routeOptimizationError && (
+                              <p className="mt-2 text-xs font-semibold text-rose-500">{routeOptimizationError}</p>
+                            )}
+                            {routeOptimization && (
+                              <div className="mt-3 space-y-2">
+                                <p className="text-xs font-black text-dayglo-void">
+                                  {routeOptimization.operations.length
+                                    ? `Travel ${formatHoursLabel(routeOptimization.current.travelMinutes)} → ${formatHoursLabel(
+                                        routeOptimization.proposed.travelMinutes,
+                                      )} (saves ${formatHoursLabel(routeOptimization.savedMinutes)})`
+                                    : `This order is already the shortest (${formatHoursLabel(
+                                        routeOptimization.current.travelMinutes,
+                                      )} of travel).`}
+                                </p>
+                                {routeOptimization.estimated && (
+                                  <p className="text-[11px] font-semibold text-dayglo-void/70">
+                                    Some legs could not be looked up and use a 30 min estimate.
+                                  </p>
+                                )}
+                                <ol className="space-y-1">
+                                  {routeOptimization.proposed.stops.map((stop) => {
+                                    const pinned = routePinnedIds.includes(stop.activityId);
+                                    return (
+                                      <li
+                                        key={stop.activityId}
+                                        className="flex flex-wrap items-center gap-2 text-xs font-semibold text-dayglo-void"
+                                      >
+                                        <span className="data-mono w-12 font-black">
+                                          {formatTime(stop.startTime, selectedDay.timezone)}
+                                        </span>
+                                        <span className="flex-1">{stop.title}</span>
+                                        {stop.travelMinutesBefore > 0 && (
+                                          <span className="data-mono text-[11px] text-dayglo-void/70">
+                                            +{formatHoursLabel(stop.travelMinutesBefore)} travel
+                                          </span>
+                                        )}
+                                        {stop.fixed && !pinned ? (
+                                          <span className="rounded-sm border border-dayglo-void bg-dayglo-yellow/40 px-1.5 py-0.5 text-[10px] font-black uppercase">
+                                            Fixed
+                                          </span>
+                                        ) : (
+                                          <button
+                                            type="button"
+                                            onClick={() => toggleRoutePin(stop.activityId)}
+                                            disabled={optimizingRoute || applyingRoute}
+                                            title={pinned ? "Let this stop move" : "Keep this stop at its current time"}
+                                            className={`rounded-sm border border-dayglo-void px-1.5 py-0.5 text-[10px] font-black uppercase disabled:opacity-60 ${
+                                              pinned ? "bg-dayglo-pink text-white" : "bg-white"
+                                            }`}
+                                          >
+                                            {pinned ? "Pinned" : "Keep time"}
+                                          </button>
+                                        )}
+                                      </li>
+                                    );
+                                  })}
+                                </ol>
+                                <div className="flex gap-2">
+                                  {routeOptimization.operations.length > 0 && (
+                                    <button
+                                      type="button"
+                                      onClick={applyRouteOptimization}
+                                      disabled={applyingRoute || optimizingRoute}
+                                      className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-not-allowed disabled:opacity-60"
+                                    >
+                                      {applyingRoute ? "Applying..." : "Apply new times"}
+                                    </button>
+                                  )}
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      setRouteOptimization(null);
+                                      setRoutePinnedIds([]);
+                                    }}
+                                    className="rounded-md border-2 border-dayglo-void bg-white px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                                  >
+                                    Discard
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        )}
                         {orderedActivities.length ? (
                           <ol className="space-y-2">
-                            {orderedActivities.map((activity) => {
-                              const hotelMeta = getHotelMetadata(activity);
+                            {orderedActivities.map((activity, index) => {
                               const budgetValue = getActivityBudgetValue(activity);
+                              const previous = orderedActivities[index - 1];
+                              const incomingLeg = previous
+                                ? travelLegsByPair.get(`${previous.id}->${activity.id}`)
+                                : undefined;
                               return (
+                                <Fragment key={activity.id}>
+                                {incomingLeg && (
+                                  <li className="flex items-center gap-2 pl-4 text-[11px] font-semibold text-dayglo-void/80">
+                                    <span className="h-4 border-l-2 border-dashed border-dayglo-void/60" />
+                                    <span className="data-mono rounded-sm border border-dayglo-void bg-dayglo-yellow/40 px-2 py-0.5 font-black">
+                                      {incomingLeg.durationMinutes !== null && incomingLeg.durationMinutes !== undefined
+                                        ? formatHoursLabel(incomingLeg.durationMinutes)
+                                        : "?"}{" "}
+                                      {travelModeLabels[incomingLeg.mode].toLowerCase()}
+                                    </span>
+                                    {incomingLeg.distanceKm ? <span>{incomingLeg.distanceKm.toFixed(1)} km</span> : null}
+                                    {canEditTrip && (
+                                      <select
+                                        value={incomingLeg.mode}
+                                        onChange={(event) => changeLegMode(incomingLeg, event.target.value as TravelMode)}
+                                        title="How you get between these two stops"
+                                        className="rounded-sm border border-dayglo-void bg-white px-1 py-0.5 text-[11px] font-semibold text-dayglo-void outline-none"
+                                      >
+                                        {(Object.keys(travelModeLabels) as TravelMode[]).map((mode) => (
+                                          <option key={mode} value={mode}>
+                                            {travelModeLabels[mode]}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    )}
+                                  </li>
+                                )}
                                 <li
-                                  key={activity.id}
-                                  className="rounded-lg border-2 border-dayglo-void bg-white px-4 py-3 shadow-hard transition hover:-translate-y-1 hover:shadow-[4px_4px_0px_0px_#FF00FF]"
+                                  id={`activity-card-${activity.id}`}
+                                  {...activityDragProps(activity)}
+                                  className={`rounded-lg border-2 border-dayglo-void bg-white px-4 py-3 shadow-hard transition hover:-translate-y-1 hover:shadow-[4px_4px_0px_0px_#FF00FF] ${
+                                    canEditTrip ? "cursor-grab" : ""
+                                  } ${draggedActivityId === activity.id || reschedulingActivityId === activity.id ? "opacity-50" : ""} ${
+                                    focusedActivityId === activity.id ? "ring-4 ring-dayglo-pink" : ""
+                                  }`}
                                 >
                                   <div className="flex items-center justify-between gap-3">
                                     <div className="space-y-1">
                                       <div className="flex items-center gap-2">
                                         <p className="text-base font-black text-dayglo-void">{activity.title}</p>
-                                        {hotelMeta && (
-                                          <span className="rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-2 py-0.5 text-[10px] font-black uppercase tracking-[0.25em] text-dayglo-void shadow-hard-sm">
-                                            Hotel
+                                        {selectedDay && activity.tripDayId !== selectedDay.id && (
+                                          <span className="rounded-md border-2 border-dayglo-void bg-dayglo-yellow px-2 py-0.5 text-[10px] font-black uppercase tracking-[0.25em] text-dayglo-void shadow-hard-sm">
+                                            Continues
                                           </span>
                                         )}
                                       </div>
                                       <span className="inline-flex items-center gap-1 rounded-md border-2 border-dayglo-void bg-dayglo-pink px-2 py-0.5 text-[11px] font-black uppercase tracking-[0.3em] text-dayglo-void shadow-hard-sm">
-                                        {formatTimeRange(activity)}
+                                        {formatTimeRange(activity, dayTimeZones.get(activity.tripDayId))}
                                       </span>
-                                      {hotelMeta?.nights && (
-                                        <p className="text-xs font-semibold text-dayglo-void">{hotelMeta.nights} night{hotelMeta.nights === 1 ? "" : "s"}</p>
-                                      )}
                                       {activity.description && renderWithLinks(activity.description, "text-xs text-dayglo-void")}
                                       {activity.location && (
                                         <p className="text-xs text-dayglo-void">{activity.location}</p>
@@ -3095,7 +5112,9 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                                         <p className="text-xs text-dayglo-void/70">Starts at {activity.startLocation}</p>
                                       )}
                                       {activity.travelSummary && (
-                                        <p className="text-xs font-semibold text-dayglo-void">{activity.travelSummary}</p>
+                                        <p className="text-xs font-semibold text-dayglo-void">
+                                          {travelModeLabels[activity.travelMode ?? "car"]} • {activity.travelSummary}
+                                        </p>
                                       )}
                                       {budgetValue !== null && (
                                         <p className="data-mono text-xs text-dayglo-void">
@@ -3115,6 +5134,7 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                                         </a>
                                       )}
                                     </div>
+                                    {canEditTrip && (
                                     <div className="flex gap-2 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void">
                                       <button
                                         type="button"
@@ -3131,8 +5151,10 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                                         Remove
                                       </button>
                                     </div>
+                                    )}
                                   </div>
                                 </li>
+                                </Fragment>
                               );
                             })}
                           </ol>
@@ -3141,6 +5163,7 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                         )}
                       </div>
 
+                      {canEditTrip ? (
                       <form className="space-y-3 rounded-2xl border border-[#f5d9ff] bg-white/70 p-3" onSubmit={saveActivity}>
                         <p className="text-xs uppercase tracking-[0.4em] text-fuchsia-500">
                           {editingActivityId ? "Edit activity" : "Add activity"}
@@ -3243,6 +5266,22 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                               className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
                             />
                           </div>
+                          <div className="sm:col-span-2">
+                            <label className="text-xs text-fuchsia-500" htmlFor="endDate">
+                              Ends on (optional)
+                            </label>
+                            <input
+                              id="endDate"
+                              type="date"
+                              value={activityForm.endDate}
+                              onChange={(e) => setActivityForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                              className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                            />
+                            <p className="mt-1 text-[11px] text-dayglo-void/70">
+                              For red-eyes and multi-day legs. An end before the start without a date rolls to the next
+                              morning.
+                            </p>
+                          </div>
                         </div>
                       {selectedTrip && (
                         <div>
@@ -3263,31 +5302,6 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                           </select>
                         </div>
                       )}
-                      <div className="flex flex-wrap items-center gap-3 rounded-xl bg-white/60 px-3 py-2">
-                        <label className="flex items-center gap-2 text-xs font-semibold text-slate-800">
-                          <input
-                            type="checkbox"
-                            checked={isHotelActivity}
-                            onChange={(event) => setIsHotelActivity(event.target.checked)}
-                            className="h-4 w-4 rounded border-[#f5d9ff] text-fuchsia-500 focus:ring-0"
-                          />
-                          This is a hotel stay
-                        </label>
-                        {isHotelActivity && (
-                          <div className="flex items-center gap-2 text-xs text-slate-700">
-                            <span>Nights</span>
-                            <input
-                              type="number"
-                              min={1}
-                              value={hotelStayNights}
-                              onChange={(event) =>
-                                setHotelStayNights(Math.max(1, Number(event.target.value) || 1))
-                              }
-                              className="w-20 rounded-lg border border-[#f5d9ff] bg-white px-2 py-1 text-sm text-slate-900"
-                            />
-                          </div>
-                        )}
-                      </div>
                       <div>
                         <textarea
                           placeholder="Optional notes"
@@ -3296,6 +5310,14 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                           className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
                           rows={2}
                         />
+                        <label className="mt-1 flex items-center gap-2 text-xs font-semibold text-dayglo-void">
+                          <input
+                            type="checkbox"
+                            checked={activityForm.notesPrivate}
+                            onChange={(e) => setActivityForm((prev) => ({ ...prev, notesPrivate: e.target.checked }))}
+                          />
+                          Private notes
+                        </label>
                       </div>
                       <div>
                         <label className="text-xs text-fuchsia-500" htmlFor="activityLocation">
@@ -3321,6 +5343,31 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                           placeholder="Hotel de Ville"
                         />
                       </div>
+                      <div>
+                        <label className="text-xs text-fuchsia-500" htmlFor="activityTravelMode">
+                          Getting there by
+                        </label>
+                        <select
+                          id="activityTravelMode"
+                          value={activityForm.travelMode}
+                          onChange={(e) =>
+                            setActivityForm((prev) => ({ ...prev, travelMode: e.target.value as TravelMode | "" }))
+                          }
+                          className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                        >
+                          <option value="">Drive (default)</option>
+                          {(Object.keys(travelModeLabels) as TravelMode[])
+                            .filter((mode) => mode !== "car")
+                            .map((mode) => (
+                              <option key={mode} value={mode}>
+                                {travelModeLabels[mode]}
+                              </option>
+                            ))}
+                        </select>
+                        <p className="mt-1 text-[11px] font-semibold text-dayglo-void/70">
+                          Flights and boats use a straight-line estimate.
+                        </p>
+                      </div>
                       <div>
                         <label className="text-xs text-fuchsia-500" htmlFor="activityBudget">
                           Budget (optional)
@@ -3360,52 +5407,239 @@ const sortActivitiesByStart = (activities: Activity[]) =>
                             </button>
                           )}
                         </div>
+                        {activityWarnings.length > 0 && (
+                          <div className="space-y-1 rounded-md border-2 border-dayglo-void bg-dayglo-orange/30 px-3 py-2 text-xs font-semibold text-dayglo-void">
+                            <p className="font-black uppercase tracking-[0.2em]">Saved with warnings</p>
+                            {activityWarnings.map((warning) => (
+                              <p key={`${warning.kind}-${warning.activityId}-${warning.otherActivityId ?? ""}`}>
+                                {warning.message}
+                              </p>
+                            ))}
+                          </div>
+                        )}
                       </form>
+                      ) : (
+                        <p className="text-xs font-semibold text-dayglo-void/70">
+                          You have view-only access to this trip. Ask the owner for editor access to make changes.
+                        </p>
+                      )}
                     </div>
 
-                    {hotelActivities.length > 0 && (
+                    {selectedDay && (selectedDayHotels.length > 0 || canEditTrip) && (
                       <div className="space-y-2 rounded-lg border-2 border-dayglo-void bg-paper p-3 shadow-hard">
-                        <p className="text-xs font-black uppercase tracking-[0.4em] text-dayglo-pink">Hotel stays</p>
-                        <ul className="space-y-2 text-sm text-dayglo-void">
-                          {hotelActivities.map((activity) => {
-                            const meta = getHotelMetadata(activity);
-                            return (
-                              <li key={activity.id} className="rounded-lg border-2 border-dayglo-void bg-white px-3 py-2 shadow-hard-sm">
-                                <div className="flex items-center justify-between gap-3">
-                                  <div>
-                                    <p className="font-black text-dayglo-void">{activity.title}</p>
-                                    <span className="data-mono inline-flex items-center border border-dayglo-void bg-dayglo-pink px-2 py-0.5 text-xs font-bold text-dayglo-void shadow-[2px_2px_0px_0px_#050505]">
-                                      {formatTimeRange(activity)}
-                                    </span>
-                                    {meta?.nights && (
-                                      <p className="text-xs font-semibold text-dayglo-void">{meta.nights} night{meta.nights === 1 ? "" : "s"}</p>
-                                    )}
-                                    {activity.location && (
-                                      <p className="text-xs text-dayglo-void">{activity.location}</p>
-                                    )}
-                                  </div>
-                                  <div className="flex flex-col items-end gap-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void">
-                                    {meta?.price && meta?.currency && (
-                                      <span className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-2 py-0.5 text-dayglo-void shadow-hard-sm">
-                                        {meta.price.toFixed(0)} {meta.currency}
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs font-black uppercase tracking-[0.4em] text-dayglo-pink">Hotel stays</p>
+                          {canEditTrip && !showHotelForm && (
+                            <button
+                              type="button"
+                              onClick={() => openHotelForm()}
+                              className="rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-2 py-0.5 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                            >
+                              Add stay
+                            </button>
+                          )}
+                        </div>
+                        {selectedDayHotels.length ? (
+                          <ul className="space-y-2 text-sm text-dayglo-void">
+                            {selectedDayHotels.map((hotel) => {
+                              const stay = describeStay(hotel, dayTimeZones.get(hotel.tripDayId));
+                              const offer = typeof hotel.metadata?.offer === "string" ? hotel.metadata.offer : null;
+                              return (
+                                <li key={hotel.id} className="rounded-lg border-2 border-dayglo-void bg-white px-3 py-2 shadow-hard-sm">
+                                  <div className="flex items-center justify-between gap-3">
+                                    <div>
+                                      <p className="font-black text-dayglo-void">{hotel.name}</p>
+                                      <span className="data-mono inline-flex items-center border border-dayglo-void bg-dayglo-pink px-2 py-0.5 text-xs font-bold text-dayglo-void shadow-[2px_2px_0px_0px_#050505]">
+                                        {stay.range}
                                       </span>
-                                    )}
-                                    {meta?.offer && (
-                                      <a
-                                        href={meta.offer}
-                                        target="_blank"
-                                        rel="noreferrer"
-                                        className="rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-2 py-0.5 text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
-                                      >
-                                        View
-                                      </a>
-                                    )}
+                                      <p className="text-xs font-semibold text-dayglo-void">
+                                        {stay.nightsLabel}
+                                        {typeof hotel.rating === "number" ? ` · rated ${hotel.rating}` : ""}
+                                        {typeof hotel.priceLevel === "number" ? ` · ${"$".repeat(hotel.priceLevel || 1)}` : ""}
+                                      </p>
+                                      {hotel.address && <p className="text-xs text-dayglo-void">{hotel.address}</p>}
+                                    </div>
+                                    <div className="flex flex-col items-end gap-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void">
+                                      {stay.priceLabel && (
+                                        <span className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-2 py-0.5 text-dayglo-void shadow-hard-sm">
+                                          {stay.priceLabel}
+                                        </span>
+                                      )}
+                                      {offer && (
+                                        <a
+                                          href={offer}
+                                          target="_blank"
+                                          rel="noreferrer"
+                                          className="rounded-md border-2 border-dayglo-void bg-dayglo-cyan px-2 py-0.5 text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                                        >
+                                          View
+                                        </a>
+                                      )}
+                                      {canEditTrip && (
+                                        <div className="flex gap-2">
+                                          <button
+                                            type="button"
+                                            onClick={() => openHotelForm(hotel)}
+                                            className="text-dayglo-void underline hover:text-dayglo-pink"
+                                          >
+                                            Edit
+                                          </button>
+                                          <button
+                                            type="button"
+                                            onClick={() => deleteHotel(hotel)}
+                                            className="text-dayglo-void underline hover:text-dayglo-pink"
+                                          >
+                                            Remove
+                                          </button>
+                                        </div>
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
-                              </li>
-                            );
-                          })}
-                        </ul>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        ) : (
+                          <p className="text-xs font-semibold text-dayglo-void/70">No lodging set for this night.</p>
+                        )}
+                        {canEditTrip && showHotelForm && selectedTrip && (
+                          <form onSubmit={saveHotel} className="grid gap-2 border-t-2 border-dashed border-dayglo-void/40 pt-3 sm:grid-cols-2">
+                            <div className="sm:col-span-2">
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelName">
+                                Hotel
+                              </label>
+                              <input
+                                id="hotelName"
+                                value={hotelForm.name}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, name: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div className="sm:col-span-2">
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelAddress">
+                                Address (optional)
+                              </label>
+                              <input
+                                id="hotelAddress"
+                                value={hotelForm.address}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, address: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelCheckInDay">
+                                Check-in day
+                              </label>
+                              <select
+                                id="hotelCheckInDay"
+                                value={hotelForm.checkInDayId}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, checkInDayId: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              >
+                                <option value="">Pick a day</option>
+                                {selectedTrip.days.map((day) => (
+                                  <option key={day.id} value={day.id}>
+                                    {format(new Date(day.date), "EEE, MMM d")} — {day.city}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelNights">
+                                Nights
+                              </label>
+                              <input
+                                id="hotelNights"
+                                type="number"
+                                min={1}
+                                value={hotelForm.nights}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, nights: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelCheckInTime">
+                                Check-in
+                              </label>
+                              <input
+                                id="hotelCheckInTime"
+                                type="time"
+                                value={hotelForm.checkInTime}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, checkInTime: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelCheckOutTime">
+                                Check-out
+                              </label>
+                              <input
+                                id="hotelCheckOutTime"
+                                type="time"
+                                value={hotelForm.checkOutTime}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, checkOutTime: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelPrice">
+                                Price per night
+                              </label>
+                              <input
+                                id="hotelPrice"
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={hotelForm.pricePerNight}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, pricePerNight: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelCurrency">
+                                Currency
+                              </label>
+                              <input
+                                id="hotelCurrency"
+                                maxLength={3}
+                                value={hotelForm.currency}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, currency: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div>
+                              <label className="text-xs text-fuchsia-500" htmlFor="hotelRating">
+                                Rating (optional)
+                              </label>
+                              <input
+                                id="hotelRating"
+                                type="number"
+                                min={0}
+                                max={10}
+                                step="0.1"
+                                value={hotelForm.rating}
+                                onChange={(e) => setHotelForm((prev) => ({ ...prev, rating: e.target.value }))}
+                                className="mt-1 w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-sm font-semibold text-dayglo-void shadow-hard-sm outline-none transition focus:shadow-hard"
+                              />
+                            </div>
+                            <div className="flex items-end gap-2">
+                              <button
+                                type="submit"
+                                disabled={savingHotel}
+                                className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none disabled:cursor-wait disabled:opacity-60"
+                              >
+                                {savingHotel ? "Saving..." : editingHotelId ? "Update stay" : "Save stay"}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={closeHotelForm}
+                                className="rounded-md border-2 border-dayglo-void bg-dayglo-orange px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard transition hover:bg-dayglo-yellow hover:translate-y-[2px] hover:shadow-none"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </form>
+                        )}
                       </div>
                     )}
 
@@ -3501,6 +5735,164 @@ const sortActivitiesByStart = (activities: Activity[]) =>
           </button>
         </div>
 
+        {showHistory && selectedTrip && (
+          <div className="fixed inset-0 z-50 flex justify-end bg-dayglo-void/30" onClick={() => setShowHistory(false)}>
+            <aside
+              className="flex h-full w-full max-w-md flex-col border-l-4 border-dayglo-void bg-paper p-5 shadow-hard"
+              onClick={(event) => event.stopPropagation()}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-black uppercase tracking-[0.2em] text-dayglo-void">Trip history</p>
+                <button
+                  type="button"
+                  onClick={() => setShowHistory(false)}
+                  className="rounded-md border-2 border-dayglo-void bg-white px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow"
+                >
+                  Close
+                </button>
+              </div>
+              <div className="mt-4 flex-1 space-y-3 overflow-y-auto">
+                {historyError && <p className="text-xs text-rose-500">{historyError}</p>}
+                {!historyEvents.length && !loadingHistory && !historyError && (
+                  <p className="text-xs text-slate-600">No changes recorded yet.</p>
+                )}
+                {historyEvents.map((event) => (
+                  <div key={event.id} className="rounded-md border-2 border-dayglo-void bg-white px-3 py-2">
+                    <p className="text-sm font-semibold text-dayglo-void">
+                      {event.summary || `${event.action} ${event.entityType}`}
+                    </p>
+                    <p className="text-[11px] uppercase tracking-[0.2em] text-dayglo-void/60">
+                      {event.actorEmail} · {new Date(event.createdAt).toLocaleString()}
+                    </p>
+                    {event.action !== "create" && event.action !== "delete" && event.changes && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-dayglo-void/80">
+                        {Object.entries(event.changes).map(([field, change]) => (
+                          <li key={field}>
+                            <span className="font-semibold">{field}</span>: {formatHistoryValue(change.before)} →{" "}
+                            {formatHistoryValue(change.after)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+                {loadingHistory && <p className="text-xs text-slate-600">Loading history...</p>}
+                {historyCursor && !loadingHistory && (
+                  <button
+                    type="button"
+                    onClick={() => loadTripHistory(selectedTrip.id, historyCursor)}
+                    className="w-full rounded-md border-2 border-dayglo-void bg-white px-3 py-2 text-xs font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow"
+                  >
+                    Load older changes
+                  </button>
+                )}
+              </div>
+            </aside>
+          </div>
+        )}
+
+        {showTrash && (
+          <div className="fixed inset-0 z-50 flex justify-end bg-dayglo-void/30" onClick={() => setShowTrash(false)}>
+            <aside
+              className="flex h-full w-full max-w-md flex-col border-l-4 border-dayglo-void bg-paper p-5 shadow-hard"
+              onClick={(event) => event.stopPropagation()}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-black uppercase tracking-[0.2em] text-dayglo-void">Trash</p>
+                <button
+                  type="button"
+                  onClick={() => setShowTrash(false)}
+                  className="rounded-md border-2 border-dayglo-void bg-white px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow"
+                >
+                  Close
+                </button>
+              </div>
+              <div className="mt-4 flex-1 space-y-4 overflow-y-auto">
+                {trashError && <p className="text-xs text-rose-500">{trashError}</p>}
+                {loadingTrash && <p className="text-xs text-slate-600">Loading trash...</p>}
+                {!loadingTrash &&
+                  !trashedTrips.length &&
+                  !trashedDays.length &&
+                  !trashedActivities.length &&
+                  !trashedHotels.length && <p className="text-xs text-slate-600">The trash is empty.</p>}
+                {[
+                  {
+                    label: "Trips",
+                    items: trashedTrips.map((trip) => ({
+                      id: trip.id,
+                      title: trip.title,
+                      detail: null as string | null,
+                      purgeAfter: trip.purgeAfter,
+                      restore: () => restoreTrip(trip.id),
+                    })),
+                  },
+                  {
+                    label: selectedTrip ? `Days in ${selectedTrip.title}` : "Days",
+                    items: trashedDays.map((day) => ({
+                      id: day.id,
+                      title: `${day.city} · ${day.date.slice(0, 10)}`,
+                      detail: `${day.activityCount} ${day.activityCount === 1 ? "activity" : "activities"}`,
+                      purgeAfter: day.purgeAfter,
+                      restore: () => restoreDay(day.id),
+                    })),
+                  },
+                  {
+                    label: selectedTrip ? `Activities in ${selectedTrip.title}` : "Activities",
+                    items: trashedActivities.map((activity) => ({
+                      id: activity.id,
+                      title: activity.title,
+                      detail: `${activity.tripDay.city} · ${activity.tripDay.date.slice(0, 10)}`,
+                      purgeAfter: activity.purgeAfter,
+                      restore: () => restoreActivity(activity),
+                    })),
+                  },
+                  {
+                    label: selectedTrip ? `Stays in ${selectedTrip.title}` : "Stays",
+                    items: trashedHotels.map((hotel) => ({
+                      id: hotel.id,
+                      title: hotel.name,
+                      detail: `${hotel.tripDay.city} · check in ${hotel.tripDay.date.slice(0, 10)}`,
+                      purgeAfter: hotel.purgeAfter,
+                      restore: () => restoreHotel(hotel),
+                    })),
+                  },
+                ]
+                  .filter((section) => section.items.length)
+                  .map((section) => (
+                    <div key={section.label} className="space-y-2">
+                      <p className="text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void/70">
+                        {section.label}
+                      </p>
+                      {section.items.map((item) => (
+                        <div
+                          key={item.id}
+                          className="flex items-center justify-between gap-2 rounded-md border-2 border-dayglo-void bg-white px-3 py-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="truncate text-sm font-semibold text-dayglo-void">{item.title}</p>
+                            <p className="text-[11px] uppercase tracking-[0.2em] text-dayglo-void/60">
+                              {item.detail ? `${item.detail} · ` : ""}
+                              {item.purgeAfter
+                                ? `Gone for good ${new Date(item.purgeAfter).toLocaleDateString()}`
+                                : "Pending purge"}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => item.restore()}
+                            className="rounded-md border-2 border-dayglo-void bg-dayglo-lime px-3 py-1 text-[11px] font-black uppercase tracking-[0.2em] text-dayglo-void shadow-hard-sm transition hover:bg-dayglo-yellow"
+                          >
+                            Restore
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+              </div>
+            </aside>
+          </div>
+        )}
+
         {isChatOpen && (
           <div className="fixed inset-0 z-40 bg-white/80 px-4 py-6 lg:hidden">
             <div className="mx-auto flex h-full max-w-md flex-col">
@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+
+import { decodePolyline } from "@/lib/polyline";
+import type { TripMapDay, TripMapPin, TripMapRoute } from "@/lib/trip-map";
+
+type TripMapData = { days: TripMapDay[]; pins: TripMapPin[]; routes: TripMapRoute[] };
+
+type TripMapProps = {
+  tripId: string;
+  authHeaders?: HeadersInit;
+  // Changes whenever activities change so the map refetches.
+  refreshKey: string;
+  onSelectActivity: (pin: TripMapPin) => void;
+};
+
+const MAP_WIDTH = 600;
+const MAP_HEIGHT = 320;
+const MAP_PADDING = 36;
+const MAX_ZOOM = 15;
+const DAY_COLORS = ["#FF00FF", "#00B8D9", "#7AB800", "#FF5500", "#8B5CF6", "#E6B800", "#F43F5E", "#0EA5E9"];
+
+// Web Mercator in 256px tiles, the projection the static basemap uses, so pins line up with it.
+const project = (lat: number, lng: number, zoom: number) => {
+  const scale = 256 * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const unproject = (x: number, y: number, zoom: number) => {
+  const scale = 256 * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return { lat: (180 / Math.PI) * Math.atan(Math.sinh(n)), lng: (x / scale) * 360 - 180 };
+};
+
+// Largest zoom at which every point fits inside the padded frame, and the centre of their bounding box.
+const fitView = (points: Array<{ lat: number; lng: number }>) => {
+  for (let zoom = MAX_ZOOM; zoom >= 1; zoom -= 1) {
+    const projected = points.map((point) => project(point.lat, point.lng, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if (maxX - minX <= MAP_WIDTH - MAP_PADDING * 2 && maxY - minY <= MAP_HEIGHT - MAP_PADDING * 2) {
+      const centerX = (minX + maxX) / 2;
+      const centerY = (minY + maxY) / 2;
+      return { zoom, centerX, centerY, center: unproject(centerX, centerY, zoom) };
+    }
+  }
+  const centerX = 128;
+  const centerY = 128;
+  return { zoom: 0, centerX, centerY, center: unproject(centerX, centerY, 0) };
+};
+
+export function TripMap({ tripId, authHeaders, refreshKey, onSelectActivity }: TripMapProps) {
+  const [data, setData] = useState<TripMapData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hiddenDayIds, setHiddenDayIds] = useState<string[]>([]);
+  const [hoveredPinId, setHoveredPinId] = useState<string | null>(null);
+  const [basemapFailed, setBasemapFailed] = useState(false);
+
+  useEffect(() => {
+    if (!authHeaders) return;
+    const controller = new AbortController();
+    setError(null);
+    fetch(`/api/trips/${tripId}/map`, { headers: authHeaders, signal: controller.signal })
+      .then(async (res) => {
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body?.error || `Failed to load map (${res.status})`);
+        }
+        setData(await res.json());
+      })
+      .catch((err) => {
+        if ((err as Error).name === "AbortError") return;
+        setError(err instanceof Error ? err.message : "Failed to load map");
+      });
+    return () => controller.abort();
+  }, [tripId, authHeaders, refreshKey]);
+
+  const dayColors = useMemo(
+    () => new Map((data?.days ?? []).map((day, index) => [day.id, DAY_COLORS[index % DAY_COLORS.length]])),
+    [data],
+  );
+
+  const layout = useMemo(() => {
+    if (!data) return null;
+    const visible = (dayId: string) => !hiddenDayIds.includes(dayId);
+    const cities = data.days.filter(
+      (day): day is TripMapDay & { lat: number; lng: number } =>
+        visible(day.id) && day.lat !== null && day.lng !== null,
+    );
+    const pins = data.pins.filter((pin) => visible(pin.dayId));
+    const routes = data.routes
+      .filter((route) => visible(route.dayId))
+      .map((route) => ({ ...route, points: decodePolyline(route.polyline) }));
+    const allPoints = [...cities, ...pins, ...routes.flatMap((route) => route.points)];
+    if (!allPoints.length) return { cities, pins, routes, view: null };
+
+    const view = fitView(allPoints);
+    const toScreen = (lat: number, lng: number) => {
+      const point = project(lat, lng, view.zoom);
+      return { x: point.x - view.centerX + MAP_WIDTH / 2, y: point.y - view.centerY + MAP_HEIGHT / 2 };
+    };
+    return { cities, pins, routes, view: { ...view, toScreen } };
+  }, [data, hiddenDayIds]);
+
+  useEffect(() => {
+    setBasemapFailed(false);
+  }, [layout?.view?.zoom, layout?.view?.center.lat, layout?.view?.center.lng]);
+
+  const toggleDay = (dayId: string) =>
+    setHiddenDayIds((prev) => (prev.includes(dayId) ? prev.filter((id) => id !== dayId) : [...prev, dayId]));
+
+  const hoveredPin = layout?.pins.find((pin) => pin.activityId === hoveredPinId) ?? null;
+
+  return (
+    <div className="rounded-lg border-2 border-dayglo-void bg-white/80 p-4 shadow-hard-sm">
+      <p className="text-[11px] font-black uppercase tracking-[0.3em] text-dayglo-pink">Map</p>
+      <h3 className="text-xl font-black text-dayglo-void">Every stop, every day</h3>
+      <p className="text-xs font-semibold text-dayglo-void/70">Click a pin to open the activity in the timeline.</p>
+      {error && <p className="mt-2 text-xs font-semibold text-rose-500">{error}</p>}
+      {!data && !error && <p className="mt-3 text-xs font-semibold text-dayglo-void/70">Loading map…</p>}
+      {layout && !layout.view && (
+        <p className="mt-3 text-xs font-semibold text-dayglo-void/70">
+          Add activity locations or day cities to see them on the map.
+        </p>
+      )}
+      {layout?.view && (
+        <div className="relative mt-3 overflow-hidden rounded-md border-2 border-dayglo-void bg-paper">
+          <svg
+            viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+            className="block h-auto w-full"
+            role="img"
+            aria-label="Trip map"
+          >
+            {!basemapFailed && (
+              <image
+                href={`/api/maps/static?${new URLSearchParams({
+                  lat: layout.view.center.lat.toString(),
+                  lng: layout.view.center.lng.toString(),
+                  zoom: layout.view.zoom.toString(),
+                  marker: "0",
+                }).toString()}`}
+                width={MAP_WIDTH}
+                height={MAP_HEIGHT}
+                preserveAspectRatio="none"
+                opacity={0.8}
+                onError={() => setBasemapFailed(true)}
+              />
+            )}
+            {layout.routes.map((route) => (
+              <polyline
+                key={`${route.kind}-${route.id}`}
+                points={route.points
+                  .map((point) => {
+                    const screen = layout.view!.toScreen(point.lat, point.lng);
+                    return `${screen.x.toFixed(1)},${screen.y.toFixed(1)}`;
+                  })
+                  .join(" ")}
+                fill="none"
+                stroke={dayColors.get(route.dayId)}
+                strokeWidth={route.kind === "leg" ? 4 : 2.5}
+                strokeDasharray={route.kind === "activity" ? "6 4" : undefined}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity={0.85}
+              />
+            ))}
+            {layout.cities.map((day) => {
+              const screen = layout.view!.toScreen(day.lat, day.lng);
+              return (
+                <rect
+                  key={`city-${day.id}`}
+                  x={screen.x - 6}
+                  y={screen.y - 6}
+                  width={12}
+                  height={12}
+                  fill="#FFFDF5"
+                  stroke={dayColors.get(day.id)}
+                  strokeWidth={3}
+                >
+                  <title>{`${day.city} • ${format(new Date(day.date), "MMM d")}`}</title>
+                </rect>
+              );
+            })}
+            {layout.pins.map((pin) => {
+              const screen = layout.view!.toScreen(pin.lat, pin.lng);
+              return (
+                <circle
+                  key={`pin-${pin.activityId}`}
+                  cx={screen.x}
+                  cy={screen.y}
+                  r={hoveredPinId === pin.activityId ? 9 : 7}
+                  fill={dayColors.get(pin.dayId)}
+                  stroke="#050505"
+                  strokeWidth={2}
+                  className="cursor-pointer"
+                  onMouseEnter={() => setHoveredPinId(pin.activityId)}
+                  onMouseLeave={() => setHoveredPinId(null)}
+                  onClick={() => onSelectActivity(pin)}
+                >
+                  <title>{`${pin.title} • ${pin.location}`}</title>
+                </circle>
+              );
+            })}
+          </svg>
+          {hoveredPin && (
+            <div className="pointer-events-none absolute left-2 top-2 max-w-[70%] rounded-md border-2 border-dayglo-void bg-white px-2 py-1 text-xs font-semibold text-dayglo-void shadow-hard-sm">
+              <p className="font-black">{hoveredPin.title}</p>
+              <p className="text-dayglo-void/70">{hoveredPin.location}</p>
+            </div>
+          )}
+        </div>
+      )}
+      {data && data.days.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {data.days.map((day) => {
+            const hidden = hiddenDayIds.includes(day.id);
+            return (
+              <button
+                key={day.id}
+                type="button"
+                onClick={() => toggleDay(day.id)}
+                title={hidden ? "Show this day on the map" : "Hide this day on the map"}
+                className={`flex items-center gap-1 rounded-sm border border-dayglo-void px-2 py-0.5 text-[11px] font-semibold text-dayglo-void ${
+                  hidden ? "bg-white opacity-50" : "bg-white"
+                }`}
+              >
+                <span
+                  className="h-2.5 w-2.5 rounded-full border border-dayglo-void"
+                  style={{ backgroundColor: dayColors.get(day.id) }}
+                />
+                {format(new Date(day.date), "MMM d")} · {day.city}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { combineDateWithTime, shiftWallClock, wallClockInZone, zonedTimeToUtc } from "@/lib/timezones";
+
+// Overnight trains, red-eye flights, and hotel stays can end on a later day than they start. The end stays
+// attached to the activity's own day (and zone); a separate end date says how many days later it lands.
+export const MAX_ACTIVITY_SPAN_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ResolvedEnd = { endTime: Date | null; error?: undefined } | { endTime?: undefined; error: string };
+
+// Resolves an "HH:MM" end time (and optional "YYYY-MM-DD" end date) against a start instant. Without an end
+// date, an end at or before the start is read as the next morning, so 22:00-06:00 is an overnight slot.
+export function resolveActivityEnd(
+  startTime: Date,
+  input: { endTime?: string; endDate?: string },
+  timeZone: string | null,
+): ResolvedEnd {
+  if (!input.endTime) {
+    return input.endDate ? { error: "An end date needs an end time." } : { endTime: null };
+  }
+
+  let endTime: Date | null;
+  if (input.endDate) {
+    endTime = zonedTimeToUtc(input.endDate, input.endTime, timeZone);
+    if (!endTime) return { error: "Invalid end time." };
+    if (endTime <= startTime) return { error: "The activity must end after it starts." };
+  } else {
+    const startDate = wallClockInZone(startTime, timeZone).date;
+    endTime = combineDateWithTime(`${startDate}T12:00:00Z`, input.endTime, timeZone);
+    if (!endTime) return { error: "Invalid end time." };
+    if (endTime <= startTime) endTime = shiftWallClock(endTime, 1, timeZone);
+  }
+
+  if (endTime.getTime() - startTime.getTime() > MAX_ACTIVITY_SPAN_DAYS * DAY_MS) {
+    return { error: `Activities can span at most ${MAX_ACTIVITY_SPAN_DAYS} days.` };
+  }
+  return { endTime };
+}
@@ -0,0 +1,147 @@
+import type { Activity, Prisma, TravelMode, TripDay } from "@prisma/client";
+import { z } from "zod";
+
+import { resolveActivityEnd } from "@/lib/activity-times";
+import { combineDateWithTime, formatTimeInZone } from "@/lib/timezones";
+import { fetchTravelMetadata, TRAVEL_MODES } from "@/lib/travel";
+
+// Shared by the single-activity routes and the batch endpoint so both read input and build writes the same way.
+// Preparing a write may call the Directions API, so it happens before any transaction is opened.
+
+export const createActivitySchema = z.object({
+  title: z.string().min(1),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  notes: z.string().optional(),
+  notesPrivate: z.boolean().optional(),
+  location: z.string().optional(),
+  startLocation: z.string().optional(),
+  travelMode: z.enum(TRAVEL_MODES).optional(),
+  type: z.string().min(1).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  budget: z.coerce.number().nonnegative().optional(),
+});
+
+export const updateActivitySchema = z.object({
+  title: z.string().min(1).optional(),
+  notes: z.string().optional(),
+  notesPrivate: z.boolean().optional(),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dayId: z.string().min(1).optional(),
+  location: z.string().optional(),
+  startLocation: z.string().optional(),
+  travelMode: z.enum(TRAVEL_MODES).optional(),
+  type: z.string().min(1).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  budget: z.coerce.number().nonnegative().optional(),
+});
+
+export type CreateActivityInput = z.infer<typeof createActivitySchema>;
+export type UpdateActivityInput = z.infer<typeof updateActivitySchema>;
+
+type Prepared<T> = { data: T; error?: undefined } | { data?: undefined; error: string };
+
+type TravelFields = Pick<
+  Activity,
+  "travelDistanceMeters" | "travelDurationSeconds" | "travelSummary" | "travelPolyline"
+>;
+
+async function resolveTravel(
+  startLocation?: string | null,
+  location?: string | null,
+  mode?: TravelMode | null,
+): Promise<TravelFields> {
+  const travel =
+    startLocation && location ? await fetchTravelMetadata(startLocation, location, mode ?? undefined) : null;
+  return {
+    travelDistanceMeters: travel?.distanceMeters ?? null,
+    travelDurationSeconds: travel?.durationSeconds ?? null,
+    travelSummary: travel?.summary ?? null,
+    travelPolyline: travel?.polyline ?? null,
+  };
+}
+
+export async function prepareActivityCreate(
+  day: Pick<TripDay, "id" | "date" | "timezone">,
+  input: CreateActivityInput,
+): Promise<Prepared<Prisma.ActivityUncheckedCreateInput>> {
+  const startTime = combineDateWithTime(day.date, input.startTime, day.timezone);
+  if (!startTime) return { error: "Invalid start time." };
+
+  const end = resolveActivityEnd(startTime, input, day.timezone);
+  if (end.error !== undefined) return { error: end.error };
+
+  return {
+    data: {
+      tripDayId: day.id,
+      title: input.title,
+      description: input.notes || null,
+      notesPrivate: input.notesPrivate ?? false,
+      location: input.location || null,
+      startLocation: input.startLocation || null,
+      travelMode: input.travelMode ?? null,
+      ...(await resolveTravel(input.startLocation, input.location, input.travelMode)),
+      startTime,
+      endTime: end.endTime,
+      type: input.type || null,
+      source: input.type === "hotel" ? "hotel" : undefined,
+      metadata: input.metadata ?? undefined,
+      budget: input.budget ?? null,
+    },
+  };
+}
+
+// Builds the update for an existing activity, optionally moving it to `targetDay`. A move without a new start
+// keeps the wall-clock slot, and a new start without a new end keeps the activity's length.
+export async function prepareActivityUpdate(
+  existing: Activity & { tripDay: Pick<TripDay, "timezone"> },
+  targetDay: Pick<TripDay, "id" | "date" | "timezone">,
+  input: UpdateActivityInput,
+): Promise<Prepared<Prisma.ActivityUncheckedUpdateInput>> {
+  const updates: Prisma.ActivityUncheckedUpdateInput = {};
+  if (input.title !== undefined) updates.title = input.title;
+  if (input.notes !== undefined) updates.description = input.notes;
+  if (input.notesPrivate !== undefined) updates.notesPrivate = input.notesPrivate;
+  if (input.location !== undefined) updates.location = input.location || null;
+  if (input.startLocation !== undefined) updates.startLocation = input.startLocation || null;
+  if (input.type !== undefined) updates.type = input.type || null;
+  if (input.metadata !== undefined) updates.metadata = input.metadata ?? undefined;
+  if (input.budget !== undefined) updates.budget = input.budget ?? null;
+
+  const movingDay = targetDay.id !== existing.tripDayId;
+  let nextStart = existing.startTime;
+  if (input.startTime) {
+    const value = combineDateWithTime(targetDay.date, input.startTime, targetDay.timezone);
+    if (!value) return { error: "Invalid start time" };
+    nextStart = updates.startTime = value;
+  } else if (movingDay && existing.startTime) {
+    const current = formatTimeInZone(existing.startTime, existing.tripDay.timezone);
+    const value = combineDateWithTime(targetDay.date, current, targetDay.timezone);
+    if (value) nextStart = updates.startTime = value;
+  }
+
+  if (input.endTime || input.endDate) {
+    if (!nextStart) return { error: "Set a start time before an end time" };
+    const end = resolveActivityEnd(nextStart, input, targetDay.timezone);
+    if (end.error !== undefined) return { error: end.error };
+    updates.endTime = end.endTime;
+  } else if (existing.endTime && existing.startTime && nextStart && nextStart !== existing.startTime) {
+    // Keep the original length (including any overnight span) when only the start or the day changes.
+    updates.endTime = new Date(nextStart.getTime() + (existing.endTime.getTime() - existing.startTime.getTime()));
+  }
+
+  if (input.travelMode !== undefined) updates.travelMode = input.travelMode;
+  if (input.startLocation !== undefined || input.location !== undefined || input.travelMode !== undefined) {
+    const nextStartLocation = input.startLocation !== undefined ? input.startLocation : existing.startLocation;
+    const nextLocation = input.location !== undefined ? input.location : existing.location;
+    const nextMode = input.travelMode !== undefined ? input.travelMode : existing.travelMode;
+    Object.assign(updates, await resolveTravel(nextStartLocation, nextLocation, nextMode));
+  }
+
+  if (movingDay) updates.tripDayId = targetDay.id;
+  updates.version = { increment: 1 };
+  return { data: updates };
+}
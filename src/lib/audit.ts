@@ -0,0 +1,112 @@
+import { Prisma } from "@prisma/client";
+import type { AuditAction, AuditEntityType, User } from "@prisma/client";
+
+import { originTabOf } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { publishTripEvent } from "@/lib/realtime";
+
+export const TRIP_AUDIT_FIELDS = ["title", "description", "homeCity", "startDate", "endDate"] as const;
+
+export const DAY_AUDIT_FIELDS = ["date", "city", "notes", "notesPrivate", "cityPlaceId", "timezone"] as const;
+
+export const ACTIVITY_AUDIT_FIELDS = [
+  "tripDayId",
+  "title",
+  "type",
+  "description",
+  "notesPrivate",
+  "location",
+  "startLocation",
+  "travelMode",
+  "startTime",
+  "endTime",
+  "budget",
+] as const;
+
+export const HOTEL_AUDIT_FIELDS = [
+  "tripDayId",
+  "name",
+  "checkIn",
+  "checkOut",
+  "pricePerNight",
+  "currency",
+  "rating",
+  "address",
+] as const;
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+type AuditRecord = Record<string, unknown>;
+
+function toAuditValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Prisma.Decimal) return value.toString();
+  return value ?? null;
+}
+
+// Compares the whitelisted fields of two snapshots of the same record. A missing `before` is a create and a
+// missing `after` is a delete, so every field with a value shows up in the diff.
+export function diffAuditFields(
+  before: AuditRecord | null | undefined,
+  after: AuditRecord | null | undefined,
+  fields: readonly string[],
+): AuditChanges {
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    const previous = toAuditValue(before?.[field]);
+    const next = toAuditValue(after?.[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+type RecordTripEventInput = {
+  tripId: string;
+  actor: Pick<User, "id" | "email">;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  summary?: string;
+  before?: AuditRecord | null;
+  after?: AuditRecord | null;
+  fields?: readonly string[];
+};
+
+// Audit writes are best-effort: a failed insert is logged but never fails the edit that triggered it. Every
+// recorded change is also pushed to live dashboards for the trip.
+export async function recordTripEvent(input: RecordTripEventInput) {
+  const changes = input.fields ? diffAuditFields(input.before, input.after, input.fields) : {};
+  if (input.action === "update" && input.fields && !Object.keys(changes).length) {
+    return null;
+  }
+
+  publishTripEvent({
+    tripId: input.tripId,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    action: input.action,
+    actorId: input.actor.id,
+    actorEmail: input.actor.email,
+    originTabId: originTabOf(input.actor),
+  });
+
+  try {
+    return await prisma.tripAuditEvent.create({
+      data: {
+        tripId: input.tripId,
+        actorId: input.actor.id,
+        actorEmail: input.actor.email,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        action: input.action,
+        summary: input.summary ?? null,
+        changes: Object.keys(changes).length ? (changes as Prisma.InputJsonValue) : Prisma.JsonNull,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record trip audit event", error);
+    return null;
+  }
+}
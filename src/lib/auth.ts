@@ -17,6 +17,16 @@ export interface AuthContext {
   account: User;
 }
 
+// Dashboards send a per-tab id with their writes (TRIP_TAB_HEADER) so the live event for a change can be skipped
+// by the tab that made it but not by the same person's other tabs. It is kept against the account object the
+// request authenticated as, which routes hand to recordTripEvent as the actor.
+export const TRIP_TAB_HEADER = "x-trip-tab";
+const tabByAccount = new WeakMap<object, string>();
+
+export function originTabOf(actor: object) {
+  return tabByAccount.get(actor) ?? null;
+}
+
 function coerceEmail(uid: string, email?: string | null) {
   if (email && email.includes("@")) {
     return email;
@@ -39,21 +49,28 @@ async function ensureProfileColumns() {
   }
 }
 
-export async function authenticateRequest(request: Request): Promise<AuthContext> {
+// `allowQueryToken` is for EventSource connections, which cannot set an Authorization header and pass the ID token
+// as `?token=` instead. Keep it off for everything else so tokens stay out of access logs.
+export async function authenticateRequest(
+  request: Request,
+  options: { allowQueryToken?: boolean } = {},
+): Promise<AuthContext> {
   if (!isFirebaseConfigured) {
     throw new AuthError(500, "Authentication is not configured on the server.");
   }
 
   const authHeader = request.headers.get("authorization") ?? "";
   const match = authHeader.match(/^Bearer (.+)$/i);
-  if (!match) {
+  const queryToken = options.allowQueryToken ? new URL(request.url).searchParams.get("token") : null;
+  const idToken = match?.[1] ?? queryToken;
+  if (!idToken) {
     throw new AuthError(401, "Missing or invalid authorization token.");
   }
 
   const firebaseAuth = getFirebaseAuth();
   let decoded: DecodedIdToken;
   try {
-    decoded = await firebaseAuth.verifyIdToken(match[1], true);
+    decoded = await firebaseAuth.verifyIdToken(idToken, true);
   } catch {
     throw new AuthError(401, "Invalid or expired authentication token.");
   }
@@ -88,5 +105,8 @@ export async function authenticateRequest(request: Request): Promise<AuthContext
     }
   }
 
+  const tabId = request.headers.get(TRIP_TAB_HEADER);
+  if (tabId) tabByAccount.set(account, tabId.slice(0, 64));
+
   return { token: decoded, account };
 }
@@ -0,0 +1,283 @@
+import type { Prisma, TravelMode, TripDay } from "@prisma/client";
+
+import { ignoreStaleWrite } from "@/lib/concurrency";
+import { getMapsProvider } from "@/lib/maps";
+import { cachedGeocode } from "@/lib/maps-cache";
+import { permutations } from "@/lib/route-optimizer";
+import { timeZoneForCoordinates } from "@/lib/timezone-lookup";
+import { greatCircleKm } from "@/lib/travel";
+import { fetchLegTravel } from "@/lib/travel-legs";
+import { addDaysUtc, dateKey, daysBetween, MAX_TRIP_DAYS, toNoonUtc } from "@/lib/trip-days";
+
+// Plans a multi-city trip: the cities are put in the order with the least great-circle distance (starting from
+// the trip's home city when it can be located), the window's nights are shared out between them, and each
+// city change becomes an inter-city leg on the arrival day. Every date gets a day in the city slept in that
+// night; the last date is the departure day and stays in the last city.
+
+export const MAX_PLANNED_CITIES = 8;
+
+// Ground legs up to this distance go by train, longer ones fly, unless the request picks a mode.
+const TRAIN_MAX_KM = 700;
+
+export type CityStopInput = {
+  city: string;
+  placeId?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  // Nights to spend here; cities without one share whatever the window has left.
+  nights?: number;
+};
+
+export type CityRouteStop = {
+  city: string;
+  placeId: string | null;
+  lat: number | null;
+  lng: number | null;
+  timezone: string | null;
+  nights: number;
+  arrivalDate: string;
+  departureDate: string;
+};
+
+export type CityRouteLeg = {
+  fromCity: string;
+  toCity: string;
+  // The arrival day the leg is stored on.
+  date: string;
+  mode: TravelMode;
+  distanceKm: number | null;
+  durationMinutes: number | null;
+  summary: string | null;
+  polyline: string | null;
+  routeKey: string | null;
+  cachedAt: Date | null;
+};
+
+export type CityRoutePlan = {
+  startDate: string;
+  endDate: string;
+  // False when a city could not be located (or the caller asked to keep the order) and the input order was used.
+  reordered: boolean;
+  stops: CityRouteStop[];
+  legs: CityRouteLeg[];
+  totalKm: number | null;
+};
+
+export class CityRoutePlanError extends Error {}
+
+type Located = CityStopInput & { location: { lat: number; lng: number } | null };
+
+async function locateCities(cities: CityStopInput[]) {
+  const maps = getMapsProvider();
+  return Promise.all(
+    cities.map(async (city): Promise<Located> => {
+      if (typeof city.lat === "number" && typeof city.lng === "number") {
+        return { ...city, location: { lat: city.lat, lng: city.lng } };
+      }
+      const location = maps ? await cachedGeocode(maps, city.city).catch(() => null) : null;
+      return { ...city, location };
+    }),
+  );
+}
+
+async function locateOrigin(origin: string | null | undefined) {
+  const maps = getMapsProvider();
+  if (!origin || !maps) return null;
+  return cachedGeocode(maps, origin).catch(() => null);
+}
+
+function routeKm(order: Located[], origin: { lat: number; lng: number } | null) {
+  let total = 0;
+  let previous = origin;
+  for (const stop of order) {
+    if (previous) total += greatCircleKm(previous, stop.location!);
+    previous = stop.location;
+  }
+  return total;
+}
+
+// Fixed night counts are kept; the rest of the window is split evenly, earlier cities taking any remainder.
+function allocateNights(order: Located[], totalNights: number) {
+  const fixedNights = order.reduce((sum, stop) => sum + (stop.nights ?? 0), 0);
+  const flexible = order.filter((stop) => stop.nights === undefined);
+  const remaining = totalNights - fixedNights;
+  if (remaining < flexible.length || (!flexible.length && remaining !== 0)) {
+    throw new CityRoutePlanError(
+      `The requested nights (${fixedNights}) and cities don't fit the ${totalNights} nights between the dates.`,
+    );
+  }
+  const base = flexible.length ? Math.floor(remaining / flexible.length) : 0;
+  let extra = flexible.length ? remaining % flexible.length : 0;
+  return order.map((stop) => {
+    if (stop.nights !== undefined) return stop.nights;
+    const nights = base + (extra > 0 ? 1 : 0);
+    extra -= 1;
+    return nights;
+  });
+}
+
+export async function planCityRoute(input: {
+  cities: CityStopInput[];
+  startDate: Date;
+  endDate: Date;
+  origin?: string | null;
+  keepOrder?: boolean;
+  mode?: TravelMode;
+}): Promise<CityRoutePlan> {
+  const start = toNoonUtc(input.startDate);
+  const end = toNoonUtc(input.endDate);
+  const totalNights = daysBetween(start, end);
+  if (totalNights < 1) {
+    throw new CityRoutePlanError("The end date must be after the start date.");
+  }
+  if (totalNights + 1 > MAX_TRIP_DAYS) {
+    throw new CityRoutePlanError(`Plan at most ${MAX_TRIP_DAYS} days at a time.`);
+  }
+  if (!input.cities.length || input.cities.length > MAX_PLANNED_CITIES) {
+    throw new CityRoutePlanError(`Plan between 1 and ${MAX_PLANNED_CITIES} cities at a time.`);
+  }
+  if (input.cities.length > totalNights) {
+    throw new CityRoutePlanError(`${input.cities.length} cities need at least ${input.cities.length} nights.`);
+  }
+
+  const located = await locateCities(input.cities);
+  const canReorder = !input.keepOrder && located.every((stop) => stop.location);
+  let order = located;
+  if (canReorder && located.length > 1) {
+    const origin = await locateOrigin(input.origin);
+    let bestKm = Infinity;
+    for (const candidate of permutations(located)) {
+      const km = routeKm(candidate, origin);
+      if (km < bestKm) {
+        bestKm = km;
+        order = candidate;
+      }
+    }
+  }
+
+  const nights = allocateNights(order, totalNights);
+  let cursor = start;
+  const stops = order.map((stop, index): CityRouteStop => {
+    const arrival = cursor;
+    cursor = addDaysUtc(cursor, nights[index]);
+    return {
+      city: stop.city,
+      placeId: stop.placeId ?? null,
+      lat: stop.location?.lat ?? null,
+      lng: stop.location?.lng ?? null,
+      timezone: timeZoneForCoordinates(stop.location?.lat, stop.location?.lng),
+      nights: nights[index],
+      arrivalDate: dateKey(arrival),
+      departureDate: dateKey(cursor),
+    };
+  });
+
+  const legs = await Promise.all(
+    order.slice(1).map(async (stop, index): Promise<CityRouteLeg> => {
+      const from = order[index];
+      const km = from.location && stop.location ? greatCircleKm(from.location, stop.location) : null;
+      const mode = input.mode ?? (km !== null && km > TRAIN_MAX_KM ? "flight" : "train");
+      const travel = await fetchLegTravel(from.city, stop.city, mode);
+      return {
+        fromCity: from.city,
+        toCity: stop.city,
+        date: stops[index + 1].arrivalDate,
+        mode,
+        distanceKm: travel?.distanceKm ?? (km !== null ? Math.round(km) : null),
+        durationMinutes: travel?.durationMinutes ?? null,
+        summary: travel?.summary ?? null,
+        polyline: travel?.polyline ?? null,
+        routeKey: travel?.routeKey ?? null,
+        cachedAt: travel?.cachedAt ?? null,
+      };
+    }),
+  );
+
+  return {
+    startDate: dateKey(start),
+    endDate: dateKey(end),
+    reordered: canReorder && order.some((stop, index) => stop !== located[index]),
+    stops,
+    legs,
+    totalKm: legs.every((leg) => leg.distanceKm !== null)
+      ? Math.round(legs.reduce((sum, leg) => sum + leg.distanceKm!, 0))
+      : null,
+  };
+}
+
+// Writes a plan as one day per date plus a hand-entered-style leg (no activity links, so the per-day leg sync
+// leaves it alone) on each arrival day. Live days already in the window move to the trash when `replaceExisting`
+// is set; otherwise their dates are returned as conflicts and nothing is written. Returns null, also without
+// writing anything, when the trip is no longer at `trip.version`.
+export async function applyCityRoutePlan(
+  tx: Prisma.TransactionClient,
+  trip: { id: string; version: number; startDate: Date | null; endDate: Date | null },
+  plan: CityRoutePlan,
+  replaceExisting: boolean,
+) {
+  const start = toNoonUtc(new Date(plan.startDate));
+  const end = toNoonUtc(new Date(plan.endDate));
+  const existing = await tx.tripDay.findMany({
+    where: { tripId: trip.id, deletedAt: null, date: { gte: start, lte: end } },
+  });
+  if (existing.length && !replaceExisting) {
+    return { conflicts: existing.map((day) => dateKey(day.date)), created: [], trashed: [] };
+  }
+
+  const tripStart = trip.startDate && trip.startDate < start ? trip.startDate : start;
+  const tripEnd = trip.endDate && trip.endDate > end ? trip.endDate : end;
+  const updatedTrip = await tx.trip
+    .update({
+      where: { id: trip.id, version: trip.version },
+      data: { startDate: tripStart, endDate: tripEnd, version: { increment: 1 } },
+    })
+    .catch(ignoreStaleWrite);
+  if (!updatedTrip) return null;
+
+  if (existing.length) {
+    await tx.tripDay.updateMany({
+      where: { id: { in: existing.map((day) => day.id) } },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  const created: TripDay[] = [];
+  for (const [index, stop] of plan.stops.entries()) {
+    const last = index === plan.stops.length - 1;
+    const arrival = toNoonUtc(new Date(stop.arrivalDate));
+    // The last city also gets the departure day itself.
+    for (let offset = 0; offset < stop.nights + (last ? 1 : 0); offset += 1) {
+      created.push(
+        await tx.tripDay.create({
+          data: {
+            tripId: trip.id,
+            date: addDaysUtc(arrival, offset),
+            city: stop.city,
+            cityPlaceId: stop.placeId,
+            cityLatitude: stop.lat,
+            cityLongitude: stop.lng,
+            timezone: stop.timezone,
+          },
+        }),
+      );
+    }
+  }
+
+  const dayByDate = new Map(created.map((day) => [dateKey(day.date), day]));
+  await tx.travelSegment.createMany({
+    data: plan.legs.map((leg) => ({
+      tripDayId: dayByDate.get(leg.date)!.id,
+      fromCity: leg.fromCity,
+      toCity: leg.toCity,
+      mode: leg.mode,
+      distanceKm: leg.distanceKm,
+      durationMinutes: leg.durationMinutes,
+      summary: leg.summary,
+      polyline: leg.polyline,
+      routeKey: leg.routeKey,
+      cachedAt: leg.cachedAt,
+    })),
+  });
+
+  return { conflicts: [], created, trashed: existing, trip: updatedTrip };
+}
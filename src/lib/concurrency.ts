@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+
+// Trips, days, activities, and hotels carry a `version` column that every PATCH bumps. Clients send the version they
+// last saw as `If-Match: "<version>"`; a mismatch means someone else saved first and the edit is rejected with
+// the current server copy so the client can merge. Requests without If-Match skip the check.
+
+export function readExpectedVersion(request: Request) {
+  const header = request.headers.get("if-match");
+  if (!header || header.trim() === "*") return null;
+  const match = header.match(/^\s*(?:W\/)?"?(\d+)"?\s*$/);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
+
+export function versionHeaders(version: number) {
+  return { ETag: `"${version}"` };
+}
+
+export function versionConflict(entity: "trip" | "day" | "activity" | "hotel", current: { version: number } | null) {
+  if (!current) {
+    return NextResponse.json({ error: `This ${entity} no longer exists.` }, { status: 404 });
+  }
+  return NextResponse.json(
+    { error: `This ${entity} was changed by someone else. Review the latest version and try again.`, current },
+    { status: 409, headers: versionHeaders(current.version) },
+  );
+}
+
+// The conditional update (`where: { id, version }`) throws P2025 when another write got there first.
+export function ignoreStaleWrite(error: unknown): null {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+    return null;
+  }
+  throw error;
+}
@@ -7,6 +7,7 @@ const serverSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   OPENAI_MODEL: z.string().default("gpt-4.1-mini"),
   GOOGLE_MAPS_API_KEY: z.string().optional(),
+  MAPS_PROVIDER: z.enum(["google", "fixture"]).default("google"),
   HOTEL_API_KEY: z.string().optional(),
   AMADEUS_CLIENT_ID: z.string().optional(),
   AMADEUS_CLIENT_SECRET: z.string().optional(),
@@ -15,7 +16,22 @@ const serverSchema = z.object({
   RAPIDAPI_HOTELS_HOST: z.string().optional(),
   BOOKING_RAPIDAPI_KEY: z.string().optional(),
   BOOKING_RAPIDAPI_HOST: z.string().optional(),
+  HOTEL_PROVIDERS: z.string().optional(),
   FIREBASE_SERVICE_ACCOUNT: z.string().optional(),
+  INVITE_TOKEN_SECRET: z.string().optional(),
+  CRON_SECRET: z.string().optional(),
+  TRASH_RETENTION_DAYS: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : 30)),
+  MAPS_DIRECTIONS_CACHE_HOURS: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : 168)),
+  MAPS_PLACE_CACHE_HOURS: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number.parseInt(val, 10) : 720)),
   STARTING_CREDITS: z
     .string()
     .optional()
@@ -0,0 +1,77 @@
+import type { LatLng } from "@/lib/maps-provider";
+
+// Everything the hotel search asks of an inventory source, in provider-neutral shapes. Wire formats stay in the
+// adapters (src/lib/hotels-google.ts, hotels-booking.ts, hotels-amadeus.ts, hotels-fixture.ts); src/lib/hotels.ts
+// picks them from the environment, fans a search out to all of them and merges the answers.
+
+export type HotelProviderName = "google" | "booking" | "amadeus" | "fixture";
+
+export type HotelSearchRequest = {
+  city: string;
+  // The anchor place, else the geocoded city; null when neither resolved.
+  center: LatLng | null;
+  // True when `center` is a place the traveller picked rather than the city itself.
+  anchored: boolean;
+  radiusMeters: number | null;
+  // Stay dates ("YYYY-MM-DD"); without them providers that only quote priced rooms are skipped.
+  checkIn: string | null;
+  checkOut: string | null;
+  adults: number;
+  currency: string;
+  // 1-based; every provider pages independently.
+  page: number;
+};
+
+export type HotelOffer = {
+  provider: HotelProviderName;
+  // The provider's own id (a Google place id for Google and the fixture).
+  providerId: string;
+  name: string;
+  address: string | null;
+  location: LatLng | null;
+  // Google-style 0-5 stars.
+  rating: number | null;
+  // Booking-style 0-10 guest score.
+  reviewScore: number | null;
+  userRatingsTotal: number | null;
+  priceLevel: number | null;
+  // Quoted for the requested dates; null when the provider does not price rooms.
+  nightlyPrice: number | null;
+  totalPrice: number | null;
+  currency: string | null;
+  url: string | null;
+};
+
+export type HotelProviderPage = {
+  offers: HotelOffer[];
+  hasMore: boolean;
+};
+
+export type HotelProvider = {
+  name: HotelProviderName;
+  // Booking and Amadeus only answer with priced rooms, so they need stay dates.
+  needsDates: boolean;
+  search(request: HotelSearchRequest): Promise<HotelProviderPage>;
+};
+
+// Thrown by adapters for upstream failures. A 429 marks the provider as rate limited for `retryAfterSeconds`.
+export class HotelProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterSeconds: number | null = null,
+  ) {
+    super(message);
+  }
+}
+
+export const HOTEL_PAGE_SIZE = 20;
+
+export function nightsBetween(checkIn: string, checkOut: string) {
+  return Math.max(1, Math.round((Date.parse(checkOut) - Date.parse(checkIn)) / (24 * 60 * 60 * 1000)));
+}
+
+export function readRetryAfter(response: Response) {
+  const value = Number.parseInt(response.headers.get("retry-after") ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
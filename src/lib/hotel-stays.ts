@@ -0,0 +1,58 @@
+import { wallClockInZone } from "@/lib/timezones";
+
+// Client-safe view of a Hotel row as the API returns it (dates as ISO strings, the Decimal price as a string),
+// plus the night arithmetic the dashboard and the hotel routes share. Nights are counted on the check-in day's
+// calendar: a stay covers every local date from check-in up to, not including, check-out.
+
+export type HotelStay = {
+  id: string;
+  tripDayId: string;
+  name: string;
+  providerId?: string | null;
+  pricePerNight?: string | number | null;
+  currency?: string | null;
+  rating?: number | null;
+  priceLevel?: number | null;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  metadata?: Record<string, unknown> | null;
+  checkIn: string;
+  checkOut: string;
+  version?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CHECK_IN_TIME = "15:00";
+export const DEFAULT_CHECK_OUT_TIME = "11:00";
+
+export function addDaysToDateKey(date: string, days: number) {
+  return new Date(Date.parse(`${date}T12:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function stayDates(stay: { checkIn: Date | string; checkOut: Date | string }, timeZone?: string | null) {
+  const checkIn = wallClockInZone(stay.checkIn, timeZone);
+  const checkOut = wallClockInZone(stay.checkOut, timeZone);
+  return {
+    checkInDate: checkIn.date,
+    checkInTime: checkIn.time,
+    checkOutDate: checkOut.date,
+    checkOutTime: checkOut.time,
+    nights: Math.max(0, Math.round((Date.parse(checkOut.date) - Date.parse(checkIn.date)) / DAY_MS)),
+  };
+}
+
+export function stayCoversNight(
+  stay: { checkIn: Date | string; checkOut: Date | string },
+  date: string,
+  timeZone?: string | null,
+) {
+  const { checkInDate, checkOutDate } = stayDates(stay, timeZone);
+  return checkInDate <= date && date < checkOutDate;
+}
+
+export function stayTotal(stay: Pick<HotelStay, "pricePerNight">, nights: number) {
+  const price = stay.pricePerNight === null || stay.pricePerNight === undefined ? NaN : Number(stay.pricePerNight);
+  return Number.isFinite(price) ? price * nights : null;
+}
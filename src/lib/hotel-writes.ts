@@ -0,0 +1,140 @@
+import type { Hotel, Prisma, TripDay } from "@prisma/client";
+import { z } from "zod";
+
+import {
+  addDaysToDateKey,
+  DEFAULT_CHECK_IN_TIME,
+  DEFAULT_CHECK_OUT_TIME,
+  stayDates,
+} from "@/lib/hotel-stays";
+import { prisma } from "@/lib/prisma";
+import { zonedTimeToUtc } from "@/lib/timezones";
+
+// Shared by the hotel routes (and anything that saves a stay) so input is read the same way everywhere. A stay
+// belongs to the trip day it checks in on; check-in and check-out are wall-clock times in that day's zone, and
+// the check-out date may be past the trip's last day.
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+
+const hotelFieldsSchema = z.object({
+  name: z.string().min(1),
+  checkInDate: dateKeySchema,
+  checkInTime: timeSchema.optional(),
+  checkOutDate: dateKeySchema.optional(),
+  checkOutTime: timeSchema.optional(),
+  nights: z.number().int().min(1).max(90).optional(),
+  providerId: z.string().nullable().optional(),
+  pricePerNight: z.coerce.number().nonnegative().nullable().optional(),
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .transform((value) => value.toUpperCase())
+    .optional(),
+  rating: z.number().min(0).max(10).nullable().optional(),
+  priceLevel: z.number().int().min(0).max(4).nullable().optional(),
+  address: z.string().nullable().optional(),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+});
+
+export const createHotelSchema = hotelFieldsSchema.refine(
+  (value) => value.checkOutDate !== undefined || value.nights !== undefined,
+  { message: "Give a check-out date or a number of nights", path: ["checkOutDate"] },
+);
+
+export const updateHotelSchema = hotelFieldsSchema.partial();
+
+export type CreateHotelInput = z.infer<typeof createHotelSchema>;
+export type UpdateHotelInput = z.infer<typeof updateHotelSchema>;
+
+type Prepared<T> = { data: T; day: TripDay; error?: undefined } | { data?: undefined; error: string };
+
+type ExistingHotel = Hotel & { tripDay: Pick<TripDay, "timezone"> };
+
+// Resolves the stay's dates to a check-in day and two instants. Omitted fields keep the existing stay's values
+// (its length in nights when only the check-in date moves); new stays default to 15:00 in and 11:00 out.
+async function resolveStay(tripId: string, input: UpdateHotelInput, existing?: ExistingHotel) {
+  const current = existing ? stayDates(existing, existing.tripDay.timezone) : null;
+  const checkInDate = input.checkInDate ?? current!.checkInDate;
+  const day = await prisma.tripDay.findFirst({
+    where: { tripId, deletedAt: null, date: new Date(`${checkInDate}T12:00:00Z`) },
+  });
+  if (!day) return { error: `This trip has no day on ${checkInDate} to check in on.` } as const;
+
+  const checkOutDate =
+    input.checkOutDate ??
+    (input.nights !== undefined
+      ? addDaysToDateKey(checkInDate, input.nights)
+      : addDaysToDateKey(checkInDate, current!.nights));
+  const checkIn = zonedTimeToUtc(
+    checkInDate,
+    input.checkInTime ?? current?.checkInTime ?? DEFAULT_CHECK_IN_TIME,
+    day.timezone,
+  );
+  const checkOut = zonedTimeToUtc(
+    checkOutDate,
+    input.checkOutTime ?? current?.checkOutTime ?? DEFAULT_CHECK_OUT_TIME,
+    day.timezone,
+  );
+  if (!checkIn || !checkOut) return { error: "Invalid check-in or check-out time." } as const;
+  if (checkOutDate <= checkInDate || checkOut <= checkIn) {
+    return { error: "Check-out must be at least one night after check-in." } as const;
+  }
+  return { day, checkIn, checkOut } as const;
+}
+
+export async function prepareHotelCreate(
+  tripId: string,
+  input: CreateHotelInput,
+): Promise<Prepared<Prisma.HotelUncheckedCreateInput>> {
+  const stay = await resolveStay(tripId, input);
+  if (stay.error !== undefined) return { error: stay.error };
+
+  return {
+    day: stay.day,
+    data: {
+      tripDayId: stay.day.id,
+      name: input.name,
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      providerId: input.providerId ?? null,
+      pricePerNight: input.pricePerNight ?? null,
+      currency: input.currency ?? undefined,
+      rating: input.rating ?? null,
+      priceLevel: input.priceLevel ?? null,
+      address: input.address || null,
+      latitude: input.latitude ?? null,
+      longitude: input.longitude ?? null,
+      metadata: input.metadata ?? undefined,
+    },
+  };
+}
+
+export async function prepareHotelUpdate(
+  tripId: string,
+  existing: ExistingHotel,
+  input: UpdateHotelInput,
+): Promise<Prepared<Prisma.HotelUncheckedUpdateInput>> {
+  const updates: Prisma.HotelUncheckedUpdateInput = {};
+  if (input.name !== undefined) updates.name = input.name;
+  if (input.providerId !== undefined) updates.providerId = input.providerId;
+  if (input.pricePerNight !== undefined) updates.pricePerNight = input.pricePerNight;
+  if (input.currency !== undefined) updates.currency = input.currency;
+  if (input.rating !== undefined) updates.rating = input.rating;
+  if (input.priceLevel !== undefined) updates.priceLevel = input.priceLevel;
+  if (input.address !== undefined) updates.address = input.address || null;
+  if (input.latitude !== undefined) updates.latitude = input.latitude;
+  if (input.longitude !== undefined) updates.longitude = input.longitude;
+  if (input.metadata !== undefined) updates.metadata = input.metadata;
+
+  const stay = await resolveStay(tripId, input, existing);
+  if (stay.error !== undefined) return { error: stay.error };
+  updates.tripDayId = stay.day.id;
+  updates.checkIn = stay.checkIn;
+  updates.checkOut = stay.checkOut;
+  updates.version = { increment: 1 };
+
+  return { day: stay.day, data: updates };
+}
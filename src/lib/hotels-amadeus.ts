@@ -0,0 +1,145 @@
+import type { HotelOffer, HotelProvider } from "@/lib/hotel-provider";
+import { HOTEL_PAGE_SIZE, HotelProviderError, nightsBetween, readRetryAfter } from "@/lib/hotel-provider";
+
+// Amadeus Self-Service: hotels within the search radius come from the geocode hotel list, and each page of 20
+// of them is priced with one hotel-offers call (best rate per hotel). Hotels with nothing bookable for the dates
+// are left out. The OAuth token is kept until shortly before it expires.
+
+type AmadeusHotel = {
+  hotelId?: string;
+  name?: string;
+  geoCode?: { latitude?: number; longitude?: number };
+  address?: { lines?: string[]; cityName?: string; countryCode?: string };
+};
+
+type AmadeusOffers = {
+  hotel?: { hotelId?: string };
+  available?: boolean;
+  offers?: Array<{ price?: { total?: string; currency?: string } }>;
+};
+
+const AMADEUS_DEFAULT_RADIUS_M = 5000;
+
+const AMADEUS_HOSTS = {
+  test: "https://test.api.amadeus.com",
+  production: "https://api.amadeus.com",
+} as const;
+
+export function createAmadeusHotelProvider(
+  clientId: string,
+  clientSecret: string,
+  environment: keyof typeof AMADEUS_HOSTS,
+): HotelProvider {
+  const host = AMADEUS_HOSTS[environment];
+  let token: { value: string; expiresAt: number } | null = null;
+
+  function failure(response: Response, label: string) {
+    if (response.status === 429) {
+      return new HotelProviderError("Amadeus is rate limiting searches.", 429, readRetryAfter(response));
+    }
+    return new HotelProviderError(`Failed to load Amadeus ${label}.`, 502);
+  }
+
+  async function accessToken() {
+    if (token && token.expiresAt > Date.now()) return token.value;
+    const response = await fetch(`${host}/v1/security/oauth2/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: clientId,
+        client_secret: clientSecret,
+      }).toString(),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      console.error("Amadeus token request failed", response.status, await response.text());
+      throw failure(response, "token");
+    }
+    const data: { access_token: string; expires_in: number } = await response.json();
+    token = { value: data.access_token, expiresAt: Date.now() + (data.expires_in - 60) * 1000 };
+    return token.value;
+  }
+
+  async function request(path: string, params: Record<string, string>, label: string) {
+    const response = await fetch(`${host}${path}?${new URLSearchParams(params).toString()}`, {
+      headers: { Authorization: `Bearer ${await accessToken()}` },
+      cache: "no-store",
+    });
+    // No offers for any of the hotels is a 400 with an error list rather than an empty page.
+    if (response.status === 400 && label === "offers") return { data: [] };
+    if (!response.ok) {
+      console.error(`Amadeus ${label} failed`, response.status, await response.text());
+      throw failure(response, label);
+    }
+    return response.json();
+  }
+
+  return {
+    name: "amadeus",
+    needsDates: true,
+
+    async search({ center, radiusMeters, checkIn, checkOut, adults, currency, page }) {
+      if (!checkIn || !checkOut || !center) return { offers: [], hasMore: false };
+      const radiusKm = Math.max(1, Math.min(300, Math.round((radiusMeters ?? AMADEUS_DEFAULT_RADIUS_M) / 1000)));
+      const list: { data?: AmadeusHotel[] } = await request(
+        "/v1/reference-data/locations/hotels/by-geocode",
+        {
+          latitude: String(center.lat),
+          longitude: String(center.lng),
+          radius: String(radiusKm),
+          radiusUnit: "KM",
+        },
+        "hotel list",
+      );
+      const hotels = (list.data ?? []).filter((hotel) => hotel.hotelId && hotel.name);
+      const start = (page - 1) * HOTEL_PAGE_SIZE;
+      const pageHotels = hotels.slice(start, start + HOTEL_PAGE_SIZE);
+      if (!pageHotels.length) return { offers: [], hasMore: false };
+
+      const priced: { data?: AmadeusOffers[] } = await request(
+        "/v3/shopping/hotel-offers",
+        {
+          hotelIds: pageHotels.map((hotel) => hotel.hotelId!).join(","),
+          checkInDate: checkIn,
+          checkOutDate: checkOut,
+          adults: String(adults),
+          currency,
+          bestRateOnly: "true",
+        },
+        "offers",
+      );
+      const prices = new Map(
+        (priced.data ?? [])
+          .filter((entry) => entry.available !== false && entry.hotel?.hotelId)
+          .map((entry) => [entry.hotel!.hotelId!, entry.offers?.[0]?.price] as const),
+      );
+      const nights = nightsBetween(checkIn, checkOut);
+      const offers: HotelOffer[] = pageHotels
+        .filter((hotel) => prices.has(hotel.hotelId!))
+        .map((hotel) => {
+          const price = prices.get(hotel.hotelId!);
+          const total = price?.total ? Number.parseFloat(price.total) : NaN;
+          const { latitude, longitude } = hotel.geoCode ?? {};
+          const address = [...(hotel.address?.lines ?? []), hotel.address?.cityName].filter(Boolean).join(", ");
+          return {
+            provider: "amadeus",
+            providerId: hotel.hotelId!,
+            name: hotel.name!,
+            address: address || null,
+            location:
+              typeof latitude === "number" && typeof longitude === "number" ? { lat: latitude, lng: longitude } : null,
+            rating: null,
+            reviewScore: null,
+            userRatingsTotal: null,
+            priceLevel: null,
+            nightlyPrice: Number.isFinite(total) ? Math.round((total / nights) * 100) / 100 : null,
+            totalPrice: Number.isFinite(total) ? total : null,
+            currency: price?.currency ?? currency,
+            url: null,
+          };
+        });
+      return { offers, hasMore: hotels.length > start + HOTEL_PAGE_SIZE };
+    },
+  };
+}
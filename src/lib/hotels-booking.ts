@@ -0,0 +1,107 @@
+import type { HotelProvider } from "@/lib/hotel-provider";
+import { HOTEL_PAGE_SIZE, HotelProviderError, nightsBetween, readRetryAfter } from "@/lib/hotel-provider";
+
+// Booking.com through RapidAPI (booking-com15). A search resolves the city to a Booking destination, then asks
+// for one page (20 properties) of priced rooms. The gross price covers the whole stay.
+
+type Destination = { dest_id?: string; search_type?: string };
+
+type BookingHotel = {
+  hotel_id?: number | string;
+  property?: {
+    name?: string;
+    latitude?: number;
+    longitude?: number;
+    reviewScore?: number;
+    reviewCount?: number;
+    wishlistName?: string;
+    priceBreakdown?: { grossPrice?: { value?: number; currency?: string } };
+  };
+};
+
+export function createBookingHotelProvider(apiKey: string, host: string): HotelProvider {
+  async function request(path: string, params: Record<string, string>, label: string) {
+    const response = await fetch(`https://${host}${path}?${new URLSearchParams(params).toString()}`, {
+      headers: { "x-rapidapi-key": apiKey, "x-rapidapi-host": host },
+      cache: "no-store",
+    });
+    if (response.status === 429) {
+      throw new HotelProviderError("Booking is rate limiting searches.", 429, readRetryAfter(response));
+    }
+    if (!response.ok) {
+      console.error(`Booking ${label} failed`, response.status, await response.text());
+      throw new HotelProviderError(`Failed to load Booking ${label}.`, 502);
+    }
+    return response.json();
+  }
+
+  return {
+    name: "booking",
+    needsDates: true,
+
+    async search({ city, checkIn, checkOut, adults, currency, page }) {
+      if (!checkIn || !checkOut) return { offers: [], hasMore: false };
+      const destinations: { data?: Destination[] } = await request(
+        "/api/v1/hotels/searchDestination",
+        { query: city },
+        "destinations",
+      );
+      const destination = destinations.data?.find((entry) => entry.dest_id && entry.search_type);
+      if (!destination) return { offers: [], hasMore: false };
+
+      const data: { data?: { hotels?: BookingHotel[] } } = await request(
+        "/api/v1/hotels/searchHotels",
+        {
+          dest_id: destination.dest_id!,
+          search_type: destination.search_type!,
+          arrival_date: checkIn,
+          departure_date: checkOut,
+          adults: String(adults),
+          room_qty: "1",
+          page_number: String(page),
+          units: "metric",
+          languagecode: "en-us",
+          currency_code: currency,
+        },
+        "hotels",
+      );
+      const hotels = data.data?.hotels ?? [];
+      const nights = nightsBetween(checkIn, checkOut);
+      return {
+        hasMore: hotels.length >= HOTEL_PAGE_SIZE,
+        offers: hotels
+          .filter((hotel) => hotel.hotel_id !== undefined && hotel.property?.name)
+          .map((hotel) => {
+            const property = hotel.property!;
+            const gross = property.priceBreakdown?.grossPrice;
+            const total = typeof gross?.value === "number" ? Math.round(gross.value * 100) / 100 : null;
+            const hasLocation = typeof property.latitude === "number" && typeof property.longitude === "number";
+            // Booking has no stable property deep link here, so land on the search with this hotel preselected.
+            const url = new URL("https://www.booking.com/searchresults.html");
+            url.search = new URLSearchParams({
+              ss: city,
+              checkin: checkIn,
+              checkout: checkOut,
+              group_adults: String(adults),
+              selected_hotels: String(hotel.hotel_id),
+            }).toString();
+            return {
+              provider: "booking" as const,
+              providerId: String(hotel.hotel_id),
+              name: property.name!,
+              address: property.wishlistName ?? null,
+              location: hasLocation ? { lat: property.latitude!, lng: property.longitude! } : null,
+              rating: null,
+              reviewScore: typeof property.reviewScore === "number" ? property.reviewScore : null,
+              userRatingsTotal: typeof property.reviewCount === "number" ? property.reviewCount : null,
+              priceLevel: null,
+              nightlyPrice: total !== null ? Math.round((total / nights) * 100) / 100 : null,
+              totalPrice: total,
+              currency: gross?.currency ?? currency,
+              url: url.toString(),
+            };
+          }),
+      };
+    },
+  };
+}
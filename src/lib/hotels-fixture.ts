@@ -0,0 +1,44 @@
+import type { HotelProvider } from "@/lib/hotel-provider";
+import { HOTEL_PAGE_SIZE, nightsBetween } from "@/lib/hotel-provider";
+import { fixtureMapsProvider, hash } from "@/lib/maps-fixture";
+
+// Base nightly rate by price level, quoted in whatever currency was asked for; each hotel adds a stable amount.
+const FIXTURE_BASE_RATES = [55, 80, 130, 210, 360];
+
+// Offline hotel inventory (MAPS_PROVIDER=fixture or HOTEL_PROVIDERS=fixture): the fixture maps hotels, with a
+// made-up but stable nightly rate whenever stay dates are given.
+export const fixtureHotelProvider: HotelProvider = {
+  name: "fixture",
+  needsDates: false,
+
+  async search({ city, center, anchored, radiusMeters, checkIn, checkOut, currency, page }) {
+    const results = await fixtureMapsProvider.textSearch(anchored ? "hotels" : `hotels in ${city}`, {
+      location: anchored && center ? center : undefined,
+      radiusMeters: radiusMeters ?? undefined,
+    });
+    const start = (page - 1) * HOTEL_PAGE_SIZE;
+    const nights = checkIn && checkOut ? nightsBetween(checkIn, checkOut) : null;
+    return {
+      hasMore: results.length > start + HOTEL_PAGE_SIZE,
+      offers: results.slice(start, start + HOTEL_PAGE_SIZE).map((result) => {
+        const level = Math.min(4, Math.max(0, result.priceLevel ?? 2));
+        const nightlyPrice = nights ? FIXTURE_BASE_RATES[level] + (hash(result.placeId) % 40) : null;
+        return {
+          provider: "fixture",
+          providerId: result.placeId,
+          name: result.name,
+          address: result.address,
+          location: result.location,
+          rating: result.rating,
+          reviewScore: null,
+          userRatingsTotal: result.userRatingsTotal,
+          priceLevel: result.priceLevel,
+          nightlyPrice,
+          totalPrice: nightlyPrice !== null && nights ? nightlyPrice * nights : null,
+          currency: nightlyPrice !== null ? currency : null,
+          url: null,
+        };
+      }),
+    };
+  },
+};
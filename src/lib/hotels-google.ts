@@ -0,0 +1,37 @@
+import type { HotelProvider } from "@/lib/hotel-provider";
+import type { MapsProvider } from "@/lib/maps-provider";
+
+// Google Places text search through the configured maps provider. Places has ratings and price levels but no
+// room rates, and text search returns a single page here, so later pages are empty.
+export function createGoogleHotelProvider(maps: MapsProvider): HotelProvider {
+  return {
+    name: "google",
+    needsDates: false,
+
+    async search({ city, center, anchored, radiusMeters, page }) {
+      if (page > 1) return { offers: [], hasMore: false };
+      const results = await maps.textSearch(anchored ? "hotels" : `hotels in ${city}`, {
+        location: anchored && center ? center : undefined,
+        radiusMeters: radiusMeters ?? undefined,
+      });
+      return {
+        hasMore: false,
+        offers: results.map((result) => ({
+          provider: "google",
+          providerId: result.placeId,
+          name: result.name,
+          address: result.address,
+          location: result.location,
+          rating: result.rating,
+          reviewScore: null,
+          userRatingsTotal: result.userRatingsTotal,
+          priceLevel: result.priceLevel,
+          nightlyPrice: null,
+          totalPrice: null,
+          currency: null,
+          url: `https://www.google.com/maps/place/?q=place_id:${result.placeId}`,
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,292 @@
+import type { Prisma } from "@prisma/client";
+
+import { serverEnv } from "@/lib/env";
+import type {
+  HotelOffer,
+  HotelProvider,
+  HotelProviderName,
+  HotelProviderPage,
+  HotelSearchRequest,
+} from "@/lib/hotel-provider";
+import { HotelProviderError } from "@/lib/hotel-provider";
+import { createAmadeusHotelProvider } from "@/lib/hotels-amadeus";
+import { createBookingHotelProvider } from "@/lib/hotels-booking";
+import { fixtureHotelProvider } from "@/lib/hotels-fixture";
+import { createGoogleHotelProvider } from "@/lib/hotels-google";
+import { getMapsProvider } from "@/lib/maps";
+import { normalizeCacheText } from "@/lib/maps-cache";
+import { MapsLookupError } from "@/lib/maps-provider";
+import { prisma } from "@/lib/prisma";
+import { greatCircleKm } from "@/lib/travel";
+
+// Hotel search across every configured inventory source. Each provider's page is cached in PlaceCache for a few
+// hours; when a provider is rate limited (429) it is left alone until its Retry-After passes, and meanwhile, or
+// when it fails outright, its last cached page for the same search answers instead, however old: the trash purge
+// deletes other expired PlaceCache rows but leaves `kind: "hotels"` to be overwritten by the next successful
+// search. Results for the same property from different providers are merged into one hotel carrying every
+// provider's price.
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEARCH_CACHE_HOURS = 6;
+const DEFAULT_COOLDOWN_SECONDS = 60;
+// Two listings with matching names are one hotel when they are at most this far apart.
+const SAME_HOTEL_KM = 1;
+const BOOKING_DEFAULT_HOST = "booking-com15.p.rapidapi.com";
+
+// Merge order: the first listing of a hotel supplies its name and place id, so Places-backed providers go first.
+const PROVIDER_ORDER: HotelProviderName[] = ["google", "fixture", "booking", "amadeus"];
+
+export type HotelProviderStatus = {
+  name: HotelProviderName;
+  // "cached": a fresh cached page; "stale": an expired one standing in for a rate-limited or failing provider.
+  status: "ok" | "cached" | "stale" | "rate_limited" | "error" | "skipped";
+  message?: string;
+};
+
+export type HotelPriceQuote = {
+  provider: HotelProviderName;
+  providerId: string;
+  nightlyPrice: number;
+  totalPrice: number | null;
+  currency: string;
+  url: string | null;
+};
+
+export type AggregatedHotel = {
+  // The Google place id when a Places-backed provider listed the hotel, else "<provider>:<id>".
+  id: string;
+  name: string;
+  address: string | null;
+  location: { lat: number; lng: number } | null;
+  rating: number | null;
+  reviewScore: number | null;
+  userRatingsTotal: number | null;
+  priceLevel: number | null;
+  mapsUrl: string | null;
+  // The cheapest quote in the requested currency; quotes in other currencies are only listed, never compared.
+  nightlyPrice: number | null;
+  totalPrice: number | null;
+  currency: string | null;
+  quotes: HotelPriceQuote[];
+  sources: HotelProviderName[];
+};
+
+let cachedProviders: HotelProvider[] | null = null;
+const rateLimitedUntil = new Map<HotelProviderName, number>();
+
+// HOTEL_PROVIDERS (comma-separated) narrows the set; by default every provider with credentials is used, and
+// MAPS_PROVIDER=fixture means the offline fixture alone.
+export function getHotelProviders(): HotelProvider[] {
+  if (cachedProviders) return cachedProviders;
+  const wanted = serverEnv.HOTEL_PROVIDERS
+    ? new Set(serverEnv.HOTEL_PROVIDERS.split(",").map((name) => name.trim().toLowerCase()))
+    : null;
+  const allowed = (name: HotelProviderName) => (wanted ? wanted.has(name) : true);
+
+  const providers: HotelProvider[] = [];
+  if (serverEnv.MAPS_PROVIDER === "fixture" && !wanted) {
+    providers.push(fixtureHotelProvider);
+  } else {
+    const maps = getMapsProvider();
+    if (allowed("google") && maps?.name === "google") providers.push(createGoogleHotelProvider(maps));
+    if (allowed("fixture") && (wanted || maps?.name === "fixture")) providers.push(fixtureHotelProvider);
+    const bookingKey = serverEnv.BOOKING_RAPIDAPI_KEY ?? serverEnv.RAPIDAPI_HOTELS_KEY;
+    if (allowed("booking") && bookingKey) {
+      const host = serverEnv.BOOKING_RAPIDAPI_HOST ?? serverEnv.RAPIDAPI_HOTELS_HOST ?? BOOKING_DEFAULT_HOST;
+      providers.push(createBookingHotelProvider(bookingKey, host));
+    }
+    if (allowed("amadeus") && serverEnv.AMADEUS_CLIENT_ID && serverEnv.AMADEUS_CLIENT_SECRET) {
+      providers.push(
+        createAmadeusHotelProvider(serverEnv.AMADEUS_CLIENT_ID, serverEnv.AMADEUS_CLIENT_SECRET, serverEnv.AMADEUS_ENV),
+      );
+    }
+  }
+  cachedProviders = providers.sort((a, b) => PROVIDER_ORDER.indexOf(a.name) - PROVIDER_ORDER.indexOf(b.name));
+  return cachedProviders;
+}
+
+function searchCacheKey(provider: HotelProviderName, request: HotelSearchRequest) {
+  const center = request.center ? `${request.center.lat.toFixed(3)},${request.center.lng.toFixed(3)}` : "";
+  return [
+    "hotels",
+    provider,
+    normalizeCacheText(request.city),
+    center,
+    request.radiusMeters ?? "",
+    request.checkIn ?? "",
+    request.checkOut ?? "",
+    request.adults,
+    request.currency,
+    request.page,
+  ].join("|");
+}
+
+// `allowStale` reads the row past its expiry; see the note at the top about keeping hotel rows out of any purge.
+async function readSearchCache(key: string, allowStale: boolean) {
+  const cached = await prisma.placeCache.findUnique({ where: { key } }).catch((error) => {
+    console.error("Hotel search cache lookup failed", error);
+    return null;
+  });
+  if (!cached || (!allowStale && cached.expiresAt <= new Date())) return null;
+  return cached.payload as unknown as HotelProviderPage;
+}
+
+async function writeSearchCache(key: string, page: HotelProviderPage) {
+  const payload = page as unknown as Prisma.InputJsonValue;
+  const expiresAt = new Date(Date.now() + SEARCH_CACHE_HOURS * HOUR_MS);
+  await prisma.placeCache
+    .upsert({
+      where: { key },
+      create: { key, kind: "hotels", payload, expiresAt },
+      update: { payload, expiresAt, hits: 0 },
+    })
+    .catch((error) => console.error("Failed to write hotel search cache", error));
+}
+
+async function searchProvider(
+  provider: HotelProvider,
+  request: HotelSearchRequest,
+): Promise<{ page: HotelProviderPage | null; status: HotelProviderStatus }> {
+  const { name } = provider;
+  if (provider.needsDates && (!request.checkIn || !request.checkOut)) {
+    return { page: null, status: { name, status: "skipped", message: "Needs check-in and check-out dates." } };
+  }
+  const key = searchCacheKey(name, request);
+  const fresh = await readSearchCache(key, false);
+  if (fresh) return { page: fresh, status: { name, status: "cached" } };
+
+  const fallBack = async (status: "rate_limited" | "error", message: string) => {
+    const stale = await readSearchCache(key, true);
+    return stale
+      ? { page: stale, status: { name, status: "stale" as const, message } }
+      : { page: null, status: { name, status, message } };
+  };
+
+  if ((rateLimitedUntil.get(name) ?? 0) > Date.now()) {
+    return fallBack("rate_limited", "Rate limited; try again shortly.");
+  }
+  try {
+    const page = await provider.search(request);
+    await writeSearchCache(key, page);
+    return { page, status: { name, status: "ok" } };
+  } catch (error) {
+    if (error instanceof HotelProviderError && error.status === 429) {
+      rateLimitedUntil.set(name, Date.now() + (error.retryAfterSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000);
+      return fallBack("rate_limited", error.message);
+    }
+    if (error instanceof HotelProviderError || error instanceof MapsLookupError) {
+      return fallBack("error", error.message || `Failed to search ${name}.`);
+    }
+    console.error(`Hotel search via ${name} failed`, error);
+    return fallBack("error", `Failed to search ${name}.`);
+  }
+}
+
+// "Hôtel Le Marais & Spa" and "LE MARAIS AND SPA" compare equal.
+function hotelNameKey(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9 ]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !["hotel", "the", "and"].includes(word))
+    .join(" ");
+}
+
+function isSameHotel(hotel: AggregatedHotel, offer: HotelOffer) {
+  const a = hotelNameKey(hotel.name);
+  const b = hotelNameKey(offer.name);
+  if (!a || !b || !(a === b || a.includes(b) || b.includes(a))) return false;
+  if (!hotel.location || !offer.location) return a === b;
+  return greatCircleKm(hotel.location, offer.location) <= SAME_HOTEL_KM;
+}
+
+const hasPlaceId = (provider: HotelProviderName) => provider === "google" || provider === "fixture";
+
+function toHotel(offer: HotelOffer): AggregatedHotel {
+  return {
+    id: hasPlaceId(offer.provider) ? offer.providerId : `${offer.provider}:${offer.providerId}`,
+    name: offer.name,
+    address: offer.address,
+    location: offer.location,
+    rating: offer.rating,
+    reviewScore: offer.reviewScore,
+    userRatingsTotal: offer.userRatingsTotal,
+    priceLevel: offer.priceLevel,
+    mapsUrl: hasPlaceId(offer.provider) ? `https://www.google.com/maps/place/?q=place_id:${offer.providerId}` : null,
+    nightlyPrice: null,
+    totalPrice: null,
+    currency: null,
+    quotes: [],
+    sources: [],
+  };
+}
+
+// Folds offers into `earlier` (the hotels already shown) and returns the hotels they created or joined. A hotel
+// from an earlier page comes back with its id unchanged and the new provider's quote added.
+export function mergeHotelOffers(offers: HotelOffer[], currency: string, earlier: AggregatedHotel[] = []) {
+  const hotels = [...earlier];
+  const touched = new Set<AggregatedHotel>();
+  for (const offer of offers) {
+    let hotel = hotels.find((entry) => !entry.sources.includes(offer.provider) && isSameHotel(entry, offer));
+    if (!hotel) {
+      hotel = toHotel(offer);
+      hotels.push(hotel);
+    }
+    touched.add(hotel);
+    hotel.sources.push(offer.provider);
+    hotel.address ??= offer.address;
+    hotel.location ??= offer.location;
+    hotel.rating ??= offer.rating;
+    hotel.reviewScore ??= offer.reviewScore;
+    hotel.userRatingsTotal ??= offer.userRatingsTotal;
+    hotel.priceLevel ??= offer.priceLevel;
+    if (offer.nightlyPrice !== null) {
+      hotel.quotes.push({
+        provider: offer.provider,
+        providerId: offer.providerId,
+        nightlyPrice: offer.nightlyPrice,
+        totalPrice: offer.totalPrice,
+        currency: offer.currency ?? currency,
+        url: offer.url,
+      });
+    }
+  }
+  for (const hotel of touched) {
+    const best = hotel.quotes
+      .filter((quote) => quote.currency === currency)
+      .reduce<HotelPriceQuote | null>(
+        (cheapest, quote) => (!cheapest || quote.nightlyPrice < cheapest.nightlyPrice ? quote : cheapest),
+        null,
+      );
+    hotel.nightlyPrice = best?.nightlyPrice ?? null;
+    hotel.totalPrice = best?.totalPrice ?? null;
+    hotel.currency = best?.currency ?? null;
+  }
+  return hotels.filter((hotel) => touched.has(hotel));
+}
+
+// One page of merged results; `hasMore` while any provider has further pages. Google only answers page 1, so a
+// later page's listings are merged into the earlier pages (served from the search cache) rather than on their
+// own: a property already shown comes back under its first id with the added quotes, for the client to replace.
+export async function searchHotels(request: HotelSearchRequest) {
+  const providers = getHotelProviders();
+  const searchPage = (page: number) =>
+    Promise.all(providers.map((provider) => searchProvider(provider, { ...request, page })));
+  const offersOf = (results: Awaited<ReturnType<typeof searchPage>>) =>
+    results.flatMap((result) => result.page?.offers ?? []);
+
+  let earlier: AggregatedHotel[] = [];
+  for (let page = 1; page < request.page; page += 1) {
+    const merged = mergeHotelOffers(offersOf(await searchPage(page)), request.currency, earlier);
+    earlier = [...earlier, ...merged.filter((hotel) => !earlier.includes(hotel))];
+  }
+  const results = await searchPage(request.page);
+  return {
+    hotels: mergeHotelOffers(offersOf(results), request.currency, earlier),
+    hasMore: results.some((result) => result.page?.hasMore),
+    providers: results.map((result) => result.status),
+  };
+}
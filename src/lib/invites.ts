@@ -0,0 +1,54 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { TripInvite } from "@prisma/client";
+
+import { AuthError } from "@/lib/auth";
+import { serverEnv } from "@/lib/env";
+
+// Invite tokens are `<inviteId>.<signature>`. The signature covers the invite id, trip, role, and expiry, so a
+// token cannot be replayed against another invite or outlive the expiry stored when it was minted.
+
+function getSecret() {
+  const secret = serverEnv.INVITE_TOKEN_SECRET;
+  if (!secret) {
+    throw new AuthError(503, "Invite links are not configured.");
+  }
+  return secret;
+}
+
+function sign(invite: Pick<TripInvite, "id" | "tripId" | "role" | "expiresAt">) {
+  return createHmac("sha256", getSecret())
+    .update([invite.id, invite.tripId, invite.role, invite.expiresAt.getTime()].join("."))
+    .digest("base64url");
+}
+
+export function assertInvitesConfigured() {
+  getSecret();
+}
+
+export function createInviteToken(invite: Pick<TripInvite, "id" | "tripId" | "role" | "expiresAt">) {
+  return `${invite.id}.${sign(invite)}`;
+}
+
+export function parseInviteToken(token: string) {
+  const [inviteId, signature, ...rest] = token.split(".");
+  if (!inviteId || !signature || rest.length) {
+    throw new AuthError(400, "Invalid invite link.");
+  }
+  return { inviteId, signature };
+}
+
+export function verifyInviteSignature(
+  invite: Pick<TripInvite, "id" | "tripId" | "role" | "expiresAt">,
+  signature: string,
+) {
+  const expected = Buffer.from(sign(invite));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+export function inviteStatus(invite: Pick<TripInvite, "expiresAt" | "maxUses" | "useCount" | "revokedAt">) {
+  if (invite.revokedAt) return "revoked" as const;
+  if (invite.expiresAt.getTime() <= Date.now()) return "expired" as const;
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return "used" as const;
+  return "active" as const;
+}
@@ -0,0 +1,162 @@
+import type { Prisma, TravelMode } from "@prisma/client";
+
+import { serverEnv } from "@/lib/env";
+import type { MapsProvider, MapsProviderName } from "@/lib/maps-provider";
+import { prisma } from "@/lib/prisma";
+
+// Server-side cache for Google Maps lookups. Directions reuse any stored travel leg with the same normalized
+// route (TravelSegment.routeKey) looked up within the TTL, else an earlier lookup kept in PlaceCache under the
+// same route key; place details, autocomplete results and geocodes live in PlaceCache too. Keys carry the
+// provider name so fixture results never answer for Google. Cache reads and writes are best-effort: a database
+// error falls through to the provider.
+
+const HOUR_MS = 60 * 60 * 1000;
+const AUTOCOMPLETE_TTL_HOURS = 24;
+
+export type MapsCacheKind = "directions" | "details" | "autocomplete" | "geocode";
+type PlaceCacheKind = Exclude<MapsCacheKind, "directions">;
+
+// Per-process counters, reset on deploy; /api/health reports them.
+const counters: Record<MapsCacheKind, { hits: number; misses: number }> = {
+  directions: { hits: 0, misses: 0 },
+  details: { hits: 0, misses: 0 },
+  autocomplete: { hits: 0, misses: 0 },
+  geocode: { hits: 0, misses: 0 },
+};
+
+function ttlHours(kind: MapsCacheKind) {
+  if (kind === "autocomplete") return AUTOCOMPLETE_TTL_HOURS;
+  const hours = kind === "directions" ? serverEnv.MAPS_DIRECTIONS_CACHE_HOURS : serverEnv.MAPS_PLACE_CACHE_HOURS;
+  if (Number.isFinite(hours) && hours > 0) return hours;
+  return kind === "directions" ? 168 : 720;
+}
+
+function count(kind: MapsCacheKind, hit: boolean) {
+  counters[kind][hit ? "hits" : "misses"] += 1;
+}
+
+export function normalizeCacheText(value: string) {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function routeCacheKey(provider: MapsProviderName, origin: string, destination: string, mode: TravelMode) {
+  return `${provider}|${mode}|${normalizeCacheText(origin)}|${normalizeCacheText(destination)}`;
+}
+
+export type CachedRoute = {
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+  summary: string | null;
+  polyline: string | null;
+  // When the route was actually looked up.
+  cachedAt: Date;
+};
+
+type StoredRoute = Omit<CachedRoute, "cachedAt"> & { cachedAt: string };
+
+const routePlaceCacheKey = (routeKey: string) => `directions:${routeKey}`;
+
+export function mapsCacheStats() {
+  return Object.fromEntries(
+    Object.entries(counters).map(([kind, { hits, misses }]) => [
+      kind,
+      { hits, misses, hitRate: hits + misses ? Math.round((hits / (hits + misses)) * 100) / 100 : null },
+    ]),
+  ) as Record<MapsCacheKind, { hits: number; misses: number; hitRate: number | null }>;
+}
+
+// The freshest stored leg for a route from any trip, else the last lookup of it saved by `cacheRoute`.
+export async function findCachedRoute(routeKey: string): Promise<CachedRoute | null> {
+  const cutoff = new Date(Date.now() - ttlHours("directions") * HOUR_MS);
+  const segment = await prisma.travelSegment
+    .findFirst({ where: { routeKey, cachedAt: { gte: cutoff } }, orderBy: { cachedAt: "desc" } })
+    .catch((error) => {
+      console.error("Directions cache lookup failed", error);
+      return null;
+    });
+  if (segment?.cachedAt) {
+    count("directions", true);
+    return {
+      distanceMeters: segment.distanceKm !== null ? Math.round(segment.distanceKm * 1000) : null,
+      durationSeconds: segment.durationMinutes !== null ? segment.durationMinutes * 60 : null,
+      summary: segment.summary,
+      polyline: segment.polyline,
+      cachedAt: segment.cachedAt,
+    };
+  }
+
+  const cached = await prisma.placeCache
+    .findUnique({ where: { key: routePlaceCacheKey(routeKey) } })
+    .catch((error) => {
+      console.error("Directions cache lookup failed", error);
+      return null;
+    });
+  const fresh = cached && cached.expiresAt > new Date() ? cached : null;
+  count("directions", Boolean(fresh));
+  if (!fresh) return null;
+  await prisma.placeCache
+    .update({ where: { id: fresh.id }, data: { hits: { increment: 1 } } })
+    .catch((error) => console.error("Failed to count directions cache hit", error));
+  const stored = fresh.payload as unknown as StoredRoute;
+  return { ...stored, cachedAt: new Date(stored.cachedAt) };
+}
+
+// Keeps a fresh lookup so the same route is not asked for again within the TTL, whether or not a leg stores it.
+export async function cacheRoute(routeKey: string, route: CachedRoute) {
+  const key = routePlaceCacheKey(routeKey);
+  const payload: StoredRoute = {
+    distanceMeters: route.distanceMeters,
+    durationSeconds: route.durationSeconds,
+    summary: route.summary,
+    polyline: route.polyline,
+    cachedAt: route.cachedAt.toISOString(),
+  };
+  const expiresAt = new Date(route.cachedAt.getTime() + ttlHours("directions") * HOUR_MS);
+  await prisma.placeCache
+    .upsert({
+      where: { key },
+      create: { key, kind: "directions", payload, expiresAt },
+      update: { payload, expiresAt, hits: 0 },
+    })
+    .catch((error) => console.error("Failed to write directions cache", error));
+}
+
+// Returns the cached payload for `key`, or calls `load` and stores its result. A null result (failed or empty
+// lookup) is not cached so the next request asks the provider again.
+export async function withPlaceCache<T extends Prisma.InputJsonValue>(
+  provider: MapsProviderName,
+  kind: PlaceCacheKind,
+  key: string,
+  load: () => Promise<T | null>,
+): Promise<T | null> {
+  const cacheKey = `${provider}:${kind}:${key}`;
+  const cached = await prisma.placeCache.findUnique({ where: { key: cacheKey } }).catch((error) => {
+    console.error("Place cache lookup failed", error);
+    return null;
+  });
+  if (cached && cached.expiresAt > new Date()) {
+    count(kind, true);
+    await prisma.placeCache
+      .update({ where: { id: cached.id }, data: { hits: { increment: 1 } } })
+      .catch((error) => console.error("Failed to count place cache hit", error));
+    return cached.payload as unknown as T;
+  }
+
+  count(kind, false);
+  const value = await load();
+  if (value !== null) {
+    const expiresAt = new Date(Date.now() + ttlHours(kind) * HOUR_MS);
+    await prisma.placeCache
+      .upsert({
+        where: { key: cacheKey },
+        create: { key: cacheKey, kind, payload: value, expiresAt },
+        update: { payload: value, expiresAt, hits: 0 },
+      })
+      .catch((error) => console.error("Failed to write place cache", error));
+  }
+  return value;
+}
+
+export function cachedGeocode(maps: MapsProvider, address: string) {
+  return withPlaceCache(maps.name, "geocode", normalizeCacheText(address), () => maps.geocode(address));
+}
@@ -0,0 +1,291 @@
+import type { TravelMode } from "@prisma/client";
+
+import type { LatLng, MapsProvider, OpeningPeriod, PlaceDetails, PlaceSearchResult } from "@/lib/maps-provider";
+import { encodePolyline } from "@/lib/polyline";
+
+// Offline maps backend (MAPS_PROVIDER=fixture). Known places come from the table below; anything else resolves
+// to a stable pseudo-location derived from its name, so every lookup answers the same way on every run without
+// network access or keys. Distances are great-circle with a detour factor, durations a fixed speed per mode.
+
+type FixturePlace = {
+  slug: string;
+  name: string;
+  address: string;
+  kind: "city" | "establishment" | "lodging";
+  location: LatLng;
+  rating?: number;
+  priceLevel?: number;
+  openingHours?: OpeningPeriod[];
+};
+
+const everyDay = (open: string, close: string): OpeningPeriod[] =>
+  [0, 1, 2, 3, 4, 5, 6].map((day) => ({ open: { day, time: open }, close: { day, time: close } }));
+
+const city = (slug: string, name: string, address: string, lat: number, lng: number): FixturePlace => ({
+  slug,
+  name,
+  address,
+  kind: "city",
+  location: { lat, lng },
+});
+
+const FIXTURE_PLACES: FixturePlace[] = [
+  city("paris", "Paris", "Paris, France", 48.8566, 2.3522),
+  city("lyon", "Lyon", "Lyon, France", 45.764, 4.8357),
+  city("nice", "Nice", "Nice, France", 43.7102, 7.262),
+  city("london", "London", "London, UK", 51.5072, -0.1276),
+  city("rome", "Rome", "Rome, Italy", 41.9028, 12.4964),
+  city("florence", "Florence", "Florence, Italy", 43.7696, 11.2558),
+  city("barcelona", "Barcelona", "Barcelona, Spain", 41.3874, 2.1686),
+  city("madrid", "Madrid", "Madrid, Spain", 40.4168, -3.7038),
+  city("lisbon", "Lisbon", "Lisbon, Portugal", 38.7223, -9.1393),
+  city("amsterdam", "Amsterdam", "Amsterdam, Netherlands", 52.3676, 4.9041),
+  city("berlin", "Berlin", "Berlin, Germany", 52.52, 13.405),
+  city("new-york", "New York", "New York, NY, USA", 40.7128, -74.006),
+  city("tokyo", "Tokyo", "Tokyo, Japan", 35.6762, 139.6503),
+  {
+    slug: "louvre",
+    name: "Musée du Louvre",
+    address: "Rue de Rivoli, 75001 Paris, France",
+    kind: "establishment",
+    location: { lat: 48.8606, lng: 2.3376 },
+    rating: 4.7,
+    openingHours: [1, 3, 4, 5, 6, 0].map((day) => ({ open: { day, time: "0900" }, close: { day, time: "1800" } })),
+  },
+  {
+    slug: "eiffel-tower",
+    name: "Eiffel Tower",
+    address: "Champ de Mars, 75007 Paris, France",
+    kind: "establishment",
+    location: { lat: 48.8584, lng: 2.2945 },
+    rating: 4.6,
+    openingHours: everyDay("0930", "2345"),
+  },
+  {
+    slug: "colosseum",
+    name: "Colosseum",
+    address: "Piazza del Colosseo, 00184 Rome, Italy",
+    kind: "establishment",
+    location: { lat: 41.8902, lng: 12.4922 },
+    rating: 4.7,
+    openingHours: everyDay("0830", "1900"),
+  },
+  {
+    slug: "sagrada-familia",
+    name: "Sagrada Família",
+    address: "C/ de Mallorca, 401, 08013 Barcelona, Spain",
+    kind: "establishment",
+    location: { lat: 41.4036, lng: 2.1744 },
+    rating: 4.8,
+    openingHours: everyDay("0900", "2000"),
+  },
+  {
+    slug: "hotel-le-marais",
+    name: "Hôtel Le Marais",
+    address: "12 Rue de Turenne, 75004 Paris, France",
+    kind: "lodging",
+    location: { lat: 48.8559, lng: 2.3643 },
+    rating: 4.4,
+    priceLevel: 3,
+  },
+  {
+    slug: "hotel-rive-gauche",
+    name: "Hôtel Rive Gauche",
+    address: "5 Rue Jacob, 75006 Paris, France",
+    kind: "lodging",
+    location: { lat: 48.8556, lng: 2.3335 },
+    rating: 4.2,
+    priceLevel: 2,
+  },
+  {
+    slug: "albergo-trevi",
+    name: "Albergo Trevi",
+    address: "Via del Lavatore 20, 00187 Rome, Italy",
+    kind: "lodging",
+    location: { lat: 41.9009, lng: 12.4833 },
+    rating: 4.3,
+    priceLevel: 2,
+  },
+];
+
+const FIXTURE_SPEEDS_KMH: Partial<Record<TravelMode, number>> = { car: 60, walk: 5, transit: 30, train: 100 };
+const DETOUR_FACTOR = 1.3;
+const QUERY_PLACE_PREFIX = "fixture:q:";
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+// FNV-1a, so pseudo-locations (and fixture hotel rates) are identical across runs and machines.
+export function hash(value: string) {
+  let result = 0x811c9dc5;
+  for (const char of value) {
+    result ^= char.codePointAt(0)!;
+    result = Math.imul(result, 0x01000193) >>> 0;
+  }
+  return result;
+}
+
+function pseudoLocation(value: string): LatLng {
+  const seed = hash(normalize(value));
+  return {
+    lat: Math.round((-50 + ((seed % 10000) / 10000) * 110) * 10000) / 10000,
+    lng: Math.round((-180 + ((Math.floor(seed / 10000) % 36000) / 100)) * 10000) / 10000,
+  };
+}
+
+function findPlace(text: string) {
+  const needle = normalize(text);
+  return (
+    FIXTURE_PLACES.find((place) => normalize(place.name) === needle || normalize(place.address) === needle) ??
+    FIXTURE_PLACES.find((place) => needle.includes(normalize(place.name)))
+  );
+}
+
+function locate(text: string) {
+  return findPlace(text)?.location ?? pseudoLocation(text);
+}
+
+function distanceKm(from: LatLng, to: LatLng) {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+function toDetails(place: FixturePlace): PlaceDetails {
+  return {
+    placeId: `fixture:${place.slug}`,
+    name: place.name,
+    address: place.address,
+    location: place.location,
+    openingHours: place.openingHours ?? null,
+  };
+}
+
+function toSearchResult(place: FixturePlace): PlaceSearchResult {
+  return {
+    placeId: `fixture:${place.slug}`,
+    name: place.name,
+    address: place.address,
+    rating: place.rating ?? null,
+    userRatingsTotal: place.rating ? Math.round(place.rating * 300) : null,
+    priceLevel: place.priceLevel ?? null,
+    location: place.location,
+  };
+}
+
+// A few stable made-up hotels around any point, for searches outside the fixture table.
+function syntheticHotels(center: LatLng, seedText: string): PlaceSearchResult[] {
+  const names = ["Grand Hotel", "Hotel Central", "Station Inn", "Garden Suites", "Old Town Lodge"];
+  return names.map((name, index) => {
+    const seed = hash(`${normalize(seedText)}#${index}`);
+    return {
+      placeId: `fixture:hotel:${seed.toString(36)}`,
+      name,
+      address: `${index + 1} Fixture Street`,
+      rating: (35 + (seed % 15)) / 10,
+      userRatingsTotal: 50 + (seed % 950),
+      priceLevel: 1 + (seed % 4),
+      location: {
+        lat: Math.round((center.lat + ((seed % 200) - 100) / 5000) * 10000) / 10000,
+        lng: Math.round((center.lng + ((Math.floor(seed / 200) % 200) - 100) / 5000) * 10000) / 10000,
+      },
+    };
+  });
+}
+
+function escapeXml(value: string) {
+  return value.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export const fixtureMapsProvider: MapsProvider = {
+  name: "fixture",
+
+  async autocomplete(query, { types }) {
+    const needle = normalize(query);
+    const wantsCities = types === "(cities)";
+    const matches = FIXTURE_PLACES.filter(
+      (place) =>
+        (wantsCities ? place.kind === "city" : place.kind !== "city") && normalize(place.name).includes(needle),
+    ).map((place) => {
+      const [primary, ...rest] = place.address.split(", ");
+      return {
+        placeId: `fixture:${place.slug}`,
+        description: place.address,
+        primary: place.kind === "city" ? primary : place.name,
+        secondary: place.kind === "city" ? rest.join(", ") : place.address,
+      };
+    });
+    // Always offer the typed text itself so any place can be picked offline.
+    return [
+      ...matches,
+      {
+        placeId: `${QUERY_PLACE_PREFIX}${encodeURIComponent(query.trim())}`,
+        description: query.trim(),
+        primary: query.trim(),
+        secondary: "",
+      },
+    ];
+  },
+
+  async placeDetails(placeId) {
+    if (placeId.startsWith(QUERY_PLACE_PREFIX)) {
+      const name = decodeURIComponent(placeId.slice(QUERY_PLACE_PREFIX.length));
+      const known = findPlace(name);
+      if (known) return toDetails(known);
+      return { placeId, name, address: name, location: pseudoLocation(name), openingHours: null };
+    }
+    const place = FIXTURE_PLACES.find((candidate) => `fixture:${candidate.slug}` === placeId);
+    return place ? toDetails(place) : null;
+  },
+
+  async geocode(address) {
+    return locate(address);
+  },
+
+  async directions(origin, destination, mode) {
+    const from = locate(origin);
+    const to = locate(destination);
+    const km = distanceKm(from, to) * DETOUR_FACTOR;
+    const durationSeconds = Math.round((km / (FIXTURE_SPEEDS_KMH[mode] ?? FIXTURE_SPEEDS_KMH.car!)) * 3600);
+    const minutes = Math.max(1, Math.round(durationSeconds / 60));
+    const hours = Math.floor(minutes / 60);
+    return {
+      distanceMeters: Math.round(km * 1000),
+      durationSeconds,
+      summary: `${hours ? `${hours} h ${minutes % 60} mins` : `${minutes} mins`} • ${km.toFixed(1)} km`,
+      polyline: encodePolyline([from, to]),
+    };
+  },
+
+  async textSearch(query, options = {}) {
+    const city = findPlace(query.replace(/^hotels( in)?/i, ""));
+    const center = options.location ?? city?.location ?? pseudoLocation(query);
+    const radiusKm = (options.radiusMeters ?? 16093) / 1000;
+    const known = FIXTURE_PLACES.filter(
+      (place) => place.kind === "lodging" && distanceKm(center, place.location) <= radiusKm,
+    ).map(toSearchResult);
+    return known.length ? known : syntheticHotels(center, query);
+  },
+
+  async staticMap({ center, zoom, markers }) {
+    // A labelled placeholder instead of tiles: markers are projected around the centre at the requested zoom.
+    const scale = 2 ** zoom * 1.2;
+    const points = markers.map((marker) => ({
+      x: 300 + (marker.lng - center.lng) * scale,
+      y: 160 - (marker.lat - center.lat) * scale,
+    }));
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="320" viewBox="0 0 600 320">`,
+      `<rect width="600" height="320" fill="#f4f1e8"/>`,
+      `<path d="M0 160H600M300 0V320" stroke="#d6d0c0" stroke-dasharray="4 6"/>`,
+      ...points.map((point) => `<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="8" fill="#ff47da"/>`),
+      `<text x="12" y="304" font-family="monospace" font-size="14" fill="#555">${escapeXml(
+        `fixture map ${center.lat.toFixed(4)},${center.lng.toFixed(4)} z${zoom}`,
+      )}</text>`,
+      `</svg>`,
+    ].join("");
+    return { contentType: "image/svg+xml", body: new TextEncoder().encode(svg).buffer as ArrayBuffer };
+  },
+};
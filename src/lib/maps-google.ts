@@ -0,0 +1,176 @@
+import type { TravelMode } from "@prisma/client";
+
+import type { MapsProvider, OpeningPeriod, PlaceSearchResult } from "@/lib/maps-provider";
+import { MapsLookupError } from "@/lib/maps-provider";
+
+const GOOGLE_MAPS_API = "https://maps.googleapis.com/maps/api" as const;
+
+const DIRECTIONS_MODES: Partial<Record<TravelMode, Record<string, string>>> = {
+  car: { mode: "driving" },
+  walk: { mode: "walking" },
+  transit: { mode: "transit" },
+  train: { mode: "transit", transit_mode: "rail" },
+};
+
+type Prediction = {
+  description: string;
+  place_id: string;
+  structured_formatting?: {
+    main_text: string;
+    secondary_text?: string;
+  };
+};
+
+type PlaceResult = {
+  place_id: string;
+  name: string;
+  formatted_address?: string;
+  rating?: number;
+  user_ratings_total?: number;
+  price_level?: number;
+  geometry?: { location?: { lat?: number; lng?: number } };
+};
+
+export function createGoogleMapsProvider(apiKey: string): MapsProvider {
+  async function request(path: string, params: Record<string, string>, label: string) {
+    const query = new URLSearchParams({ ...params, key: apiKey });
+    const response = await fetch(`${GOOGLE_MAPS_API}/${path}?${query.toString()}`, { cache: "no-store" });
+    if (!response.ok) {
+      console.error(`Google ${label} failed`, await response.text());
+      throw new MapsLookupError(`Failed to load ${label}.`, 502);
+    }
+    return response;
+  }
+
+  return {
+    name: "google",
+
+    async autocomplete(query, { types, locationBias, sessionToken }) {
+      const params: Record<string, string> = { input: query, types };
+      if (sessionToken) params.sessiontoken = sessionToken;
+      if (locationBias) params.locationbias = locationBias;
+
+      const response = await request("place/autocomplete/json", params, "suggestions");
+      const data: { status: string; predictions: Prediction[]; error_message?: string } = await response.json();
+      if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
+        console.warn("Autocomplete status", data.status, data.error_message);
+        throw new MapsLookupError(data.error_message ?? "", 200);
+      }
+
+      return (data.predictions || []).map((prediction) => ({
+        placeId: prediction.place_id,
+        description: prediction.description,
+        primary: prediction.structured_formatting?.main_text || prediction.description,
+        secondary: prediction.structured_formatting?.secondary_text || "",
+      }));
+    },
+
+    async placeDetails(placeId) {
+      const response = await request(
+        "place/details/json",
+        { place_id: placeId, fields: "formatted_address,name,geometry/location,place_id,opening_hours" },
+        "place",
+      );
+      const data = await response.json();
+      if (data.status === "NOT_FOUND" || data.status === "INVALID_REQUEST") return null;
+      if (data.status !== "OK") {
+        console.warn("Place details status", data.status, data.error_message);
+        throw new MapsLookupError(data.error_message || "No details.", 200);
+      }
+
+      const result = data.result;
+      return {
+        placeId: result.place_id,
+        name: result.name,
+        address: result.formatted_address,
+        location: {
+          lat: result.geometry?.location?.lat ?? null,
+          lng: result.geometry?.location?.lng ?? null,
+        },
+        openingHours: (result.opening_hours?.periods as OpeningPeriod[] | undefined) ?? null,
+      };
+    },
+
+    async geocode(address) {
+      const response = await request("geocode/json", { address }, "geocode");
+      const data = await response.json();
+      const location = data.results?.[0]?.geometry?.location;
+      if (data.status !== "OK" || typeof location?.lat !== "number" || typeof location?.lng !== "number") {
+        console.warn("Geocoding status", data.status, data.error_message);
+        return null;
+      }
+      return { lat: location.lat as number, lng: location.lng as number };
+    },
+
+    async directions(origin, destination, mode) {
+      const response = await request(
+        "directions/json",
+        { origin, destination, ...(DIRECTIONS_MODES[mode] ?? DIRECTIONS_MODES.car) },
+        "directions",
+      );
+      const data = await response.json();
+      if (data.status !== "OK") {
+        console.warn("Directions status", data.status, data.error_message);
+        return null;
+      }
+
+      const route = data.routes?.[0];
+      const leg = route?.legs?.[0];
+      if (!route || !leg) return null;
+
+      return {
+        distanceMeters: leg.distance?.value ?? null,
+        durationSeconds: leg.duration?.value ?? null,
+        summary: [leg.duration?.text, leg.distance?.text].filter(Boolean).join(" • ") || null,
+        polyline: route.overview_polyline?.points ?? null,
+      };
+    },
+
+    async textSearch(query, options = {}) {
+      const params: Record<string, string> = { query };
+      if (options.location) {
+        params.location = `${options.location.lat},${options.location.lng}`;
+        if (options.radiusMeters) params.radius = options.radiusMeters.toString();
+      }
+
+      const response = await request("place/textsearch/json", params, "search results");
+      const data = await response.json();
+      if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
+        console.warn("Text search status", data.status, data.error_message);
+        throw new MapsLookupError(data.error_message || "No results", 200);
+      }
+
+      return (data.results || []).map(
+        (result: PlaceResult): PlaceSearchResult => ({
+          placeId: result.place_id,
+          name: result.name,
+          address: result.formatted_address ?? null,
+          rating: result.rating ?? null,
+          userRatingsTotal: result.user_ratings_total ?? null,
+          priceLevel: result.price_level ?? null,
+          location:
+            typeof result.geometry?.location?.lat === "number" && typeof result.geometry.location.lng === "number"
+              ? { lat: result.geometry.location.lat, lng: result.geometry.location.lng }
+              : null,
+        }),
+      );
+    },
+
+    async staticMap({ center, zoom, markers, path }) {
+      const params: Record<string, string> = {
+        center: `${center.lat},${center.lng}`,
+        zoom: zoom.toString(),
+        size: "600x320",
+        scale: "2",
+        maptype: "roadmap",
+      };
+      if (markers.length) {
+        params.markers = ["color:0xff47da", ...markers.map((marker) => `${marker.lat},${marker.lng}`)].join("|");
+      }
+      if (path) params.path = `weight:4|color:0x66f6ff|enc:${path}`;
+
+      const response = await request("staticmap", params, "map");
+      return { contentType: response.headers.get("content-type") || "image/png", body: await response.arrayBuffer() };
+    },
+  };
+}
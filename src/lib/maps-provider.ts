@@ -0,0 +1,79 @@
+import type { TravelMode } from "@prisma/client";
+
+// Everything the app asks of a maps backend, in provider-neutral shapes. Wire formats stay in the adapters
+// (src/lib/maps-google.ts, src/lib/maps-fixture.ts); src/lib/maps.ts picks one from the environment.
+
+export type MapsProviderName = "google" | "fixture";
+
+export type LatLng = { lat: number; lng: number };
+
+export type PlacePrediction = {
+  placeId: string;
+  description: string;
+  primary: string;
+  secondary: string;
+};
+
+// Google-style weekly periods (day 0 = Sunday, "HHMM" times), read by the opening-hours conflict check.
+export type OpeningPeriod = {
+  open: { day: number; time: string };
+  close?: { day: number; time: string };
+};
+
+export type PlaceDetails = {
+  placeId: string;
+  name: string;
+  address: string;
+  location: { lat: number | null; lng: number | null };
+  openingHours: OpeningPeriod[] | null;
+};
+
+export type PlaceSearchResult = {
+  placeId: string;
+  name: string;
+  address: string | null;
+  rating: number | null;
+  userRatingsTotal: number | null;
+  priceLevel: number | null;
+  location: LatLng | null;
+};
+
+export type DirectionsResult = {
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+  summary: string | null;
+  polyline: string | null;
+};
+
+export type StaticMapRequest = {
+  center: LatLng;
+  zoom: number;
+  markers: LatLng[];
+  // Encoded polyline drawn over the map.
+  path?: string;
+};
+
+export type MapsProvider = {
+  name: MapsProviderName;
+  autocomplete(
+    query: string,
+    options: { types: string; locationBias?: string; sessionToken?: string },
+  ): Promise<PlacePrediction[]>;
+  // Null when the place does not exist; upstream failures throw MapsLookupError.
+  placeDetails(placeId: string): Promise<PlaceDetails | null>;
+  geocode(address: string): Promise<LatLng | null>;
+  // Ground routes only; flights and boats are estimated from geocodes in src/lib/travel.ts.
+  directions(origin: string, destination: string, mode: TravelMode): Promise<DirectionsResult | null>;
+  textSearch(query: string, options?: { location?: LatLng; radiusMeters?: number }): Promise<PlaceSearchResult[]>;
+  staticMap(request: StaticMapRequest): Promise<{ contentType: string; body: ArrayBuffer }>;
+};
+
+// Thrown by providers (and cache loaders) to answer with an upstream error; never cached.
+export class MapsLookupError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
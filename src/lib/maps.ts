@@ -0,0 +1,15 @@
+import { serverEnv } from "@/lib/env";
+import { fixtureMapsProvider } from "@/lib/maps-fixture";
+import { createGoogleMapsProvider } from "@/lib/maps-google";
+import type { MapsProvider } from "@/lib/maps-provider";
+
+let googleProvider: MapsProvider | null = null;
+
+// MAPS_PROVIDER picks the backend: "google" (needs GOOGLE_MAPS_API_KEY) or "fixture", a deterministic offline
+// stub for local development and tests. Null when Google is selected without a key; routes answer 503 then.
+export function getMapsProvider(): MapsProvider | null {
+  if (serverEnv.MAPS_PROVIDER === "fixture") return fixtureMapsProvider;
+  if (!serverEnv.GOOGLE_MAPS_API_KEY) return null;
+  googleProvider ??= createGoogleMapsProvider(serverEnv.GOOGLE_MAPS_API_KEY);
+  return googleProvider;
+}
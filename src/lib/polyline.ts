@@ -0,0 +1,55 @@
+// Google's encoded polyline format (https://developers.google.com/maps/documentation/utilities/polylinealgorithm).
+// Client-safe: the fixture maps provider encodes its routes and the trip map decodes stored ones.
+
+export type PolylinePoint = { lat: number; lng: number };
+
+export function encodePolyline(points: PolylinePoint[]) {
+  let lastLat = 0;
+  let lastLng = 0;
+  let encoded = "";
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = "";
+    while (shifted >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    return chunk + String.fromCharCode(shifted + 63);
+  };
+  for (const point of points) {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    encoded += encodeValue(lat - lastLat) + encodeValue(lng - lastLng);
+    lastLat = lat;
+    lastLng = lng;
+  }
+  return encoded;
+}
+
+// Stops at the first malformed chunk and returns the points read so far.
+export function decodePolyline(encoded: string): PolylinePoint[] {
+  const points: PolylinePoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    while (index < encoded.length) {
+      const byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+      if (byte < 0x20) return result & 1 ? ~(result >> 1) : result >> 1;
+    }
+    return null;
+  };
+  while (index < encoded.length) {
+    const dLat = readValue();
+    const dLng = readValue();
+    if (dLat === null || dLng === null) break;
+    lat += dLat;
+    lng += dLng;
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+  return points;
+}
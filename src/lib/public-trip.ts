@@ -0,0 +1,111 @@
+import { randomBytes } from "node:crypto";
+
+import { prisma } from "@/lib/prisma";
+
+export function generateShareSlug() {
+  return randomBytes(9).toString("base64url");
+}
+
+export type PublicActivity = {
+  id: string;
+  title: string;
+  type: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  location: string | null;
+  notes: string | null;
+};
+
+export type PublicHotel = {
+  id: string;
+  name: string;
+  address: string | null;
+  rating: number | null;
+  checkIn: string;
+  checkOut: string;
+};
+
+export type PublicTripDay = {
+  id: string;
+  date: string;
+  city: string;
+  timezone: string | null;
+  notes: string | null;
+  activities: PublicActivity[];
+  hotels: PublicHotel[];
+};
+
+export type PublicTrip = {
+  title: string;
+  description: string | null;
+  homeCity: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  cityRoute: string[];
+  days: PublicTripDay[];
+};
+
+// Builds the unauthenticated view of a trip. Only whitelisted fields are copied so budgets, prices, activity
+// metadata, collaborator emails, and notes flagged private never leave the server.
+export async function loadPublicTrip(slug: string): Promise<PublicTrip | null> {
+  const trip = await prisma.trip.findFirst({
+    where: { shareSlug: slug, isPublic: true, deletedAt: null },
+    include: {
+      days: {
+        where: { deletedAt: null },
+        orderBy: { date: "asc" },
+        include: {
+          activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+          hotels: { where: { deletedAt: null }, orderBy: { checkIn: "asc" } },
+        },
+      },
+    },
+  });
+  if (!trip) return null;
+
+  const days: PublicTripDay[] = trip.days.map((day) => {
+    const hotels: PublicHotel[] = day.hotels.map((hotel) => ({
+      id: hotel.id,
+      name: hotel.name,
+      address: hotel.address,
+      rating: hotel.rating,
+      checkIn: hotel.checkIn.toISOString(),
+      checkOut: hotel.checkOut.toISOString(),
+    }));
+
+    return {
+      id: day.id,
+      date: day.date.toISOString(),
+      city: day.city,
+      timezone: day.timezone,
+      notes: day.notesPrivate ? null : day.notes,
+      hotels,
+      activities: day.activities
+        .filter((activity) => activity.type !== "hotel")
+        .map((activity) => ({
+          id: activity.id,
+          title: activity.title,
+          type: activity.type,
+          startTime: activity.startTime?.toISOString() ?? null,
+          endTime: activity.endTime?.toISOString() ?? null,
+          location: activity.location,
+          notes: activity.notesPrivate ? null : activity.description,
+        })),
+    };
+  });
+
+  const cityRoute = days.reduce<string[]>((route, day) => {
+    if (day.city && route[route.length - 1] !== day.city) route.push(day.city);
+    return route;
+  }, []);
+
+  return {
+    title: trip.title,
+    description: trip.description,
+    homeCity: trip.homeCity,
+    startDate: trip.startDate?.toISOString() ?? null,
+    endDate: trip.endDate?.toISOString() ?? null,
+    cityRoute,
+    days,
+  };
+}
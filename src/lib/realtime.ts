@@ -0,0 +1,138 @@
+import type { AuditAction, AuditEntityType, User } from "@prisma/client";
+
+// In-process fan-out for live trip updates. Every dashboard holds an SSE connection to the instance that serves
+// it, so this only reaches viewers on the same Node process; running more than one instance would need a shared
+// bus (e.g. Postgres LISTEN/NOTIFY) feeding `publishTripEvent`.
+
+export type TripChangeEvent = {
+  type: "change";
+  tripId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorId: string;
+  actorEmail: string;
+  // The dashboard tab that made the change (see TRIP_TAB_HEADER), so only that tab skips it.
+  originTabId: string | null;
+  at: string;
+};
+
+export type TripViewer = {
+  connectionId: string;
+  userId: string;
+  email: string;
+  displayName: string | null;
+  dayId: string | null;
+  since: string;
+};
+
+export type TripPresenceEvent = {
+  type: "presence";
+  tripId: string;
+  viewers: TripViewer[];
+};
+
+export type TripStreamEvent = TripChangeEvent | TripPresenceEvent;
+
+type Listener = (event: TripStreamEvent) => void;
+
+type RealtimeState = {
+  listeners: Map<string, Set<Listener>>;
+  presence: Map<string, Map<string, TripViewer>>;
+  // Open streams per trip by connection id, with the (normalized) email they were opened for.
+  connections: Map<string, Map<string, { email: string; close: () => void }>>;
+};
+
+const globalForRealtime = globalThis as unknown as { tripRealtime?: RealtimeState };
+
+const state: RealtimeState =
+  globalForRealtime.tripRealtime ||
+  (globalForRealtime.tripRealtime = { listeners: new Map(), presence: new Map(), connections: new Map() });
+// A state object kept across a dev reload may predate `connections`.
+state.connections ??= new Map();
+
+function emit(tripId: string, event: TripStreamEvent) {
+  state.listeners.get(tripId)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("Realtime listener failed", error);
+    }
+  });
+}
+
+export function subscribeToTrip(tripId: string, listener: Listener) {
+  const listeners = state.listeners.get(tripId) ?? new Set<Listener>();
+  listeners.add(listener);
+  state.listeners.set(tripId, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) state.listeners.delete(tripId);
+  };
+}
+
+// Lets `disconnectTripAccount` end a stream whose access is revoked while it is open.
+export function registerTripConnection(tripId: string, connectionId: string, email: string, close: () => void) {
+  const connections = state.connections.get(tripId) ?? new Map<string, { email: string; close: () => void }>();
+  connections.set(connectionId, { email, close });
+  state.connections.set(tripId, connections);
+  return () => {
+    connections.delete(connectionId);
+    if (!connections.size) state.connections.delete(tripId);
+  };
+}
+
+// Closes every open stream on the trip held by `email`, e.g. once that collaborator is removed or leaves.
+export function disconnectTripAccount(tripId: string, email: string) {
+  const connections = state.connections.get(tripId);
+  if (!connections) return;
+  for (const connection of Array.from(connections.values())) {
+    if (connection.email === email) connection.close();
+  }
+}
+
+export function publishTripEvent(event: Omit<TripChangeEvent, "type" | "at">) {
+  emit(event.tripId, { ...event, type: "change", at: new Date().toISOString() });
+}
+
+export function listTripViewers(tripId: string) {
+  return Array.from(state.presence.get(tripId)?.values() ?? []);
+}
+
+function broadcastPresence(tripId: string) {
+  emit(tripId, { type: "presence", tripId, viewers: listTripViewers(tripId) });
+}
+
+export function joinTripPresence(
+  tripId: string,
+  connectionId: string,
+  account: Pick<User, "id" | "email" | "displayName">,
+  dayId: string | null,
+) {
+  const viewers = state.presence.get(tripId) ?? new Map<string, TripViewer>();
+  viewers.set(connectionId, {
+    connectionId,
+    userId: account.id,
+    email: account.email,
+    displayName: account.displayName,
+    dayId,
+    since: new Date().toISOString(),
+  });
+  state.presence.set(tripId, viewers);
+  broadcastPresence(tripId);
+}
+
+export function updateTripPresence(tripId: string, connectionId: string, userId: string, dayId: string | null) {
+  const viewer = state.presence.get(tripId)?.get(connectionId);
+  if (!viewer || viewer.userId !== userId) return false;
+  viewer.dayId = dayId;
+  broadcastPresence(tripId);
+  return true;
+}
+
+export function leaveTripPresence(tripId: string, connectionId: string) {
+  const viewers = state.presence.get(tripId);
+  if (!viewers?.delete(connectionId)) return;
+  if (!viewers.size) state.presence.delete(tripId);
+  broadcastPresence(tripId);
+}
@@ -0,0 +1,270 @@
+import type { Activity, TravelMode, TripDay } from "@prisma/client";
+
+import { fetchTravelMetadata } from "@/lib/travel";
+import { wallClockInZone } from "@/lib/timezones";
+
+// Reorders a day's flexible activities to minimise travel between them. Fixed items (hotel check-ins, bookings,
+// flights and trains, anything flagged `fixed`/`booked` in metadata or pinned by the caller) and activities
+// without a location keep their times; flexible stops are tried in every order, packed back to back from the
+// day's first flexible start, and pushed past a fixed item whenever they would not reach it in time.
+
+export const MAX_OPTIMIZED_STOPS = 8;
+
+const FIXED_TYPES = new Set(["hotel", "flight", "train", "booking", "reservation"]);
+const DEFAULT_DURATION_MINUTES = 60;
+const UNKNOWN_TRAVEL_MINUTES = 30;
+const SLOT_MINUTES = 5;
+const MINUTE_MS = 60 * 1000;
+const LOOKUP_CONCURRENCY = 4;
+
+type Stop = {
+  activity: Activity;
+  location: string | null;
+  mode: TravelMode;
+  start: number;
+  durationMs: number;
+  // How long a fixed stop blocks the day. Overnight items (a hotel stay) only block their start.
+  blockingEnd: number;
+  fixed: boolean;
+};
+
+type PlannedStop = { stop: Stop; start: number; end: number; travelMinutes: number };
+
+export type OptimizedStop = {
+  activityId: string;
+  title: string;
+  location: string | null;
+  fixed: boolean;
+  startTime: string;
+  endTime: string | null;
+  travelMinutesBefore: number;
+};
+
+export type RouteOptimization = {
+  dayId: string;
+  current: { travelMinutes: number; stops: OptimizedStop[] };
+  proposed: { travelMinutes: number; stops: OptimizedStop[] };
+  savedMinutes: number;
+  // Ready for POST /api/trips/[tripId]/activities/batch; empty when the current order is already best.
+  operations: Array<{
+    op: "update";
+    activityId: string;
+    startTime: string;
+    endTime?: string;
+    endDate?: string;
+    version: number;
+  }>;
+  // True when some leg could not be looked up and a flat estimate was used instead.
+  estimated: boolean;
+};
+
+export class RouteOptimizationError extends Error {}
+
+const normalizePlace = (value: string) => value.trim().toLowerCase();
+
+function metadataFlag(metadata: Activity["metadata"], key: string) {
+  return Boolean(metadata && typeof metadata === "object" && !Array.isArray(metadata) && metadata[key] === true);
+}
+
+export function isFixedActivity(activity: Activity) {
+  return (
+    FIXED_TYPES.has((activity.type || "").toLowerCase()) ||
+    metadataFlag(activity.metadata, "fixed") ||
+    metadataFlag(activity.metadata, "booked")
+  );
+}
+
+export function* permutations<T>(items: T[]): Generator<T[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let index = 0; index < items.length; index += 1) {
+    const rest = [...items.slice(0, index), ...items.slice(index + 1)];
+    for (const tail of permutations(rest)) yield [items[index], ...tail];
+  }
+}
+
+// Travel minutes between the stops any order can put next to each other, using the destination's travel mode like
+// the legs do. Fixed stops never move, so of the fixed-to-fixed pairs only consecutive ones are needed. Lookups go
+// through fetchTravelMetadata, which answers repeats from the Directions cache, a few at a time.
+async function buildTravelMatrix(stops: Stop[]) {
+  const fixedStops = stops.filter((stop) => stop.fixed);
+  const adjacentFixed = (from: Stop, to: Stop) => fixedStops.indexOf(to) === fixedStops.indexOf(from) + 1;
+  const pairs = new Map<string, { from: string; to: string; mode: TravelMode }>();
+  for (const from of stops) {
+    for (const to of stops) {
+      if (!from.location || !to.location || normalizePlace(from.location) === normalizePlace(to.location)) continue;
+      if (from.fixed && to.fixed && !adjacentFixed(from, to)) continue;
+      pairs.set(`${normalizePlace(from.location)}|${normalizePlace(to.location)}|${to.mode}`, {
+        from: from.location,
+        to: to.location,
+        mode: to.mode,
+      });
+    }
+  }
+
+  const minutes = new Map<string, number | null>();
+  const entries = [...pairs.entries()];
+  for (let index = 0; index < entries.length; index += LOOKUP_CONCURRENCY) {
+    await Promise.all(
+      entries.slice(index, index + LOOKUP_CONCURRENCY).map(async ([key, pair]) => {
+        const travel = await fetchTravelMetadata(pair.from, pair.to, pair.mode);
+        minutes.set(key, travel?.durationSeconds != null ? Math.round(travel.durationSeconds / 60) : null);
+      }),
+    );
+  }
+
+  let estimated = false;
+  const travelMinutes = (from: Stop | null, to: Stop) => {
+    if (!from?.location || !to.location || normalizePlace(from.location) === normalizePlace(to.location)) return 0;
+    const value = minutes.get(`${normalizePlace(from.location)}|${normalizePlace(to.location)}|${to.mode}`);
+    if (value === null || value === undefined) {
+      estimated = true;
+      return UNKNOWN_TRAVEL_MINUTES;
+    }
+    return value;
+  };
+  return { travelMinutes, isEstimated: () => estimated };
+}
+
+const roundUpToSlot = (time: number) => Math.ceil(time / (SLOT_MINUTES * MINUTE_MS)) * SLOT_MINUTES * MINUTE_MS;
+
+function schedule(
+  order: Stop[],
+  fixed: Stop[],
+  dayStart: number,
+  travelMinutes: (from: Stop | null, to: Stop) => number,
+) {
+  const planned: PlannedStop[] = [];
+  let cursor = dayStart;
+  let previous: Stop | null = null;
+  let total = 0;
+  let nextFixed = 0;
+
+  const placeFixed = (stop: Stop) => {
+    const minutes = travelMinutes(previous, stop);
+    total += minutes;
+    planned.push({ stop, start: stop.start, end: stop.start + stop.durationMs, travelMinutes: minutes });
+    cursor = Math.max(cursor, stop.blockingEnd);
+    previous = stop;
+  };
+
+  while (nextFixed < fixed.length && fixed[nextFixed].start <= cursor) placeFixed(fixed[nextFixed++]);
+  for (const stop of order) {
+    for (;;) {
+      const minutes = travelMinutes(previous, stop);
+      const start = roundUpToSlot(cursor + minutes * MINUTE_MS);
+      const anchor = fixed[nextFixed];
+      if (anchor && start + stop.durationMs + travelMinutes(stop, anchor) * MINUTE_MS > anchor.start) {
+        placeFixed(anchor);
+        nextFixed += 1;
+        continue;
+      }
+      total += minutes;
+      planned.push({ stop, start, end: start + stop.durationMs, travelMinutes: minutes });
+      cursor = start + stop.durationMs;
+      previous = stop;
+      break;
+    }
+  }
+  while (nextFixed < fixed.length) placeFixed(fixed[nextFixed++]);
+
+  return { planned, total, finish: cursor };
+}
+
+function describe(planned: PlannedStop[]): OptimizedStop[] {
+  return planned.map(({ stop, start, end, travelMinutes }) => ({
+    activityId: stop.activity.id,
+    title: stop.activity.title,
+    location: stop.location,
+    fixed: stop.fixed,
+    startTime: new Date(start).toISOString(),
+    endTime: stop.activity.endTime ? new Date(end).toISOString() : null,
+    travelMinutesBefore: travelMinutes,
+  }));
+}
+
+export async function optimizeDayRoute(
+  day: Pick<TripDay, "id" | "timezone">,
+  activities: Activity[],
+  pinnedActivityIds: string[] = [],
+): Promise<RouteOptimization> {
+  const localDate = (time: number) => wallClockInZone(new Date(time), day.timezone).date;
+  const stops: Stop[] = activities
+    .filter((activity) => activity.startTime)
+    .sort((a, b) => a.startTime!.getTime() - b.startTime!.getTime())
+    .map((activity) => {
+      const start = activity.startTime!.getTime();
+      const end = activity.endTime?.getTime() ?? start + DEFAULT_DURATION_MINUTES * MINUTE_MS;
+      return {
+        activity,
+        location: activity.location,
+        mode: activity.travelMode ?? "car",
+        start,
+        durationMs: Math.max(0, end - start),
+        blockingEnd: localDate(end) === localDate(start) ? end : start,
+        fixed: !activity.location || isFixedActivity(activity) || pinnedActivityIds.includes(activity.id),
+      };
+    });
+
+  const flexible = stops.filter((stop) => !stop.fixed);
+  const fixed = stops.filter((stop) => stop.fixed);
+  if (flexible.length < 2) {
+    throw new RouteOptimizationError("Add at least two activities with locations that are free to move.");
+  }
+  if (flexible.length > MAX_OPTIMIZED_STOPS) {
+    throw new RouteOptimizationError(`Route optimization handles up to ${MAX_OPTIMIZED_STOPS} flexible stops a day.`);
+  }
+
+  const { travelMinutes, isEstimated } = await buildTravelMatrix(stops);
+
+  // The current plan as typed: each stop at its own time, travel counted between consecutive stops.
+  let currentTotal = 0;
+  const currentPlanned = stops.map((stop, index) => {
+    const minutes = travelMinutes(stops[index - 1] ?? null, stop);
+    currentTotal += minutes;
+    return { stop, start: stop.start, end: stop.start + stop.durationMs, travelMinutes: minutes };
+  });
+
+  // Orders that push a flexible stop past midnight are skipped: activities stay on their day.
+  const dayStart = Math.min(...flexible.map((stop) => stop.start));
+  const dayDate = localDate(dayStart);
+  let best: ReturnType<typeof schedule> | null = null;
+  for (const order of permutations(flexible)) {
+    const candidate = schedule(order, fixed, dayStart, travelMinutes);
+    if (candidate.planned.some(({ stop, start }) => !stop.fixed && localDate(start) !== dayDate)) continue;
+    if (!best || candidate.total < best.total || (candidate.total === best.total && candidate.finish < best.finish)) {
+      best = candidate;
+    }
+  }
+
+  const improved = best !== null && best.total < currentTotal;
+  const proposed = improved ? best!.planned : currentPlanned;
+  const operations = improved
+    ? proposed
+        .filter(({ stop, start }) => !stop.fixed && start !== stop.start)
+        .map(({ stop, start, end }) => {
+          const startClock = wallClockInZone(new Date(start), day.timezone);
+          const endClock = stop.activity.endTime ? wallClockInZone(new Date(end), day.timezone) : null;
+          return {
+            op: "update" as const,
+            activityId: stop.activity.id,
+            startTime: startClock.time,
+            ...(endClock
+              ? { endTime: endClock.time, ...(endClock.date !== startClock.date ? { endDate: endClock.date } : {}) }
+              : {}),
+            version: stop.activity.version,
+          };
+        })
+    : [];
+
+  return {
+    dayId: day.id,
+    current: { travelMinutes: currentTotal, stops: describe(currentPlanned) },
+    proposed: { travelMinutes: improved ? best!.total : currentTotal, stops: describe(proposed) },
+    savedMinutes: improved ? currentTotal - best!.total : 0,
+    operations,
+    estimated: isEstimated(),
+  };
+}
@@ -0,0 +1,200 @@
+import type { Activity, Prisma, TravelSegment } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { wallClockInZone } from "@/lib/timezones";
+
+// Scheduling problems are warnings, never errors: saves always go through and the response (and the dashboards
+// conflicts panel) tells the planner what to look at.
+
+export type ScheduleConflictKind = "overlap" | "transit" | "opening_hours";
+
+export type ScheduleConflict = {
+  kind: ScheduleConflictKind;
+  dayId: string;
+  activityId: string;
+  otherActivityId: string | null;
+  message: string;
+  // Minutes of overlap, missing transit time, or time outside opening hours.
+  minutes: number;
+};
+
+type ScheduleActivity = Pick<
+  Activity,
+  | "id"
+  | "tripDayId"
+  | "title"
+  | "location"
+  | "startLocation"
+  | "startTime"
+  | "endTime"
+  | "travelDurationSeconds"
+  | "metadata"
+>;
+
+// Google Places `opening_hours.periods`: day 0 is Sunday, times are "HHMM" local to the place.
+type OpeningPeriod = { open: { day: number; time: string }; close?: { day: number; time: string } };
+
+const WEEK_MINUTES = 7 * 24 * 60;
+
+const normalizePlace = (value: string) => value.trim().toLowerCase();
+const travelKey = (from: string, to: string) => `${normalizePlace(from)}→${normalizePlace(to)}`;
+const samePlace = (a: string, b: string) => normalizePlace(a) === normalizePlace(b);
+
+function readOpeningPeriods(metadata: Prisma.JsonValue | null): OpeningPeriod[] | null {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) return null;
+  const periods = (metadata as Record<string, unknown>).openingHours;
+  if (!Array.isArray(periods) || !periods.length) return null;
+  return periods.filter(
+    (period): period is OpeningPeriod =>
+      typeof period === "object" &&
+      period !== null &&
+      typeof (period as OpeningPeriod).open?.day === "number" &&
+      typeof (period as OpeningPeriod).open?.time === "string",
+  );
+}
+
+function minuteOfWeek(instant: Date, timeZone: string | null) {
+  const local = wallClockInZone(instant, timeZone);
+  const weekday = new Date(`${local.date}T12:00:00Z`).getUTCDay();
+  const [hours, minutes] = local.time.split(":").map(Number);
+  return weekday * 24 * 60 + hours * 60 + minutes;
+}
+
+function periodMinute(point: { day: number; time: string }) {
+  return point.day * 24 * 60 + Number.parseInt(point.time.slice(0, 2), 10) * 60 + Number.parseInt(point.time.slice(2), 10);
+}
+
+// Minutes of the visit that fall outside the best-fitting opening period, or 0 when it fits inside one.
+function minutesOutsideOpeningHours(activity: ScheduleActivity, periods: OpeningPeriod[], timeZone: string | null) {
+  if (!activity.startTime) return 0;
+  // A period without a close time means "open 24 hours".
+  if (periods.some((period) => !period.close)) return 0;
+  const start = minuteOfWeek(activity.startTime, timeZone);
+  const length = activity.endTime
+    ? Math.max(0, Math.round((activity.endTime.getTime() - activity.startTime.getTime()) / 60000))
+    : 0;
+
+  let best = Number.POSITIVE_INFINITY;
+  for (const period of periods) {
+    const open = periodMinute(period.open);
+    let close = periodMinute(period.close!);
+    if (close <= open) close += WEEK_MINUTES;
+    // Checking the following week too catches periods that wrap past Saturday night.
+    for (const visitStart of [start, start + WEEK_MINUTES]) {
+      const visitEnd = visitStart + length;
+      const outside = Math.min(length, Math.max(0, open - visitStart) + Math.max(0, visitEnd - close));
+      const closedAtStart = visitStart < open || visitStart >= close;
+      best = Math.min(best, closedAtStart ? Math.max(outside, 1) : outside);
+    }
+  }
+  return Number.isFinite(best) ? best : 0;
+}
+
+// Known drive times from the day's stored travel legs, in the shape `findScheduleConflicts` expects.
+export function travelSecondsFromLegs(legs: Pick<TravelSegment, "fromCity" | "toCity" | "durationMinutes">[]) {
+  const travelSeconds = new Map<string, number>();
+  for (const leg of legs) {
+    if (leg.durationMinutes) travelSeconds.set(travelKey(leg.fromCity, leg.toCity), leg.durationMinutes * 60);
+  }
+  return travelSeconds;
+}
+
+// When an activity is effectively over: its end time, stretched by any travel time it carries.
+function effectiveEnd(activity: ScheduleActivity) {
+  if (!activity.startTime) return null;
+  const end = activity.endTime?.getTime() ?? activity.startTime.getTime();
+  const arrival = activity.travelDurationSeconds
+    ? activity.startTime.getTime() + activity.travelDurationSeconds * 1000
+    : end;
+  return Math.max(end, arrival);
+}
+
+// Pure check over one day's activities. `travelSeconds` holds known drive times between locations (keyed by
+// `travelKey`); pairs without one are only checked against the travel time stored on the activities themselves.
+export function findScheduleConflicts(
+  activities: ScheduleActivity[],
+  timeZone: string | null,
+  travelSeconds: Map<string, number> = new Map(),
+) {
+  const timed = activities
+    .filter((activity) => activity.startTime)
+    .sort((a, b) => a.startTime!.getTime() - b.startTime!.getTime());
+  const conflicts: ScheduleConflict[] = [];
+
+  for (let i = 0; i < timed.length; i += 1) {
+    const current = timed[i];
+    const currentEnd = effectiveEnd(current)!;
+    const scheduledEnd = current.endTime?.getTime() ?? current.startTime!.getTime();
+    for (let j = i + 1; j < timed.length; j += 1) {
+      const other = timed[j];
+      const otherStart = other.startTime!.getTime();
+      if (otherStart >= currentEnd) break;
+      const overlapMinutes = Math.round((Math.min(currentEnd, effectiveEnd(other)!) - otherStart) / 60000);
+      // Starting after the scheduled end but before the travel time runs out is a transit problem, not an overlap.
+      const arrivingLate = otherStart >= scheduledEnd;
+      conflicts.push({
+        kind: arrivingLate ? "transit" : "overlap",
+        dayId: other.tripDayId,
+        activityId: other.id,
+        otherActivityId: current.id,
+        message: arrivingLate
+          ? `"${other.title}" starts before you arrive from "${current.title}".`
+          : `"${other.title}" overlaps "${current.title}" by ${overlapMinutes} min.`,
+        minutes: Math.max(1, overlapMinutes),
+      });
+    }
+
+    const next = timed[i + 1];
+    if (next?.location && current.location && !samePlace(current.location, next.location)) {
+      const gapSeconds = (next.startTime!.getTime() - currentEnd) / 1000;
+      const fromStored =
+        next.startLocation && next.travelDurationSeconds && samePlace(next.startLocation, current.location)
+          ? next.travelDurationSeconds
+          : null;
+      const needed = fromStored ?? travelSeconds.get(travelKey(current.location, next.location)) ?? null;
+      if (needed !== null && gapSeconds >= 0 && gapSeconds < needed) {
+        const shortBy = Math.ceil((needed - gapSeconds) / 60);
+        conflicts.push({
+          kind: "transit",
+          dayId: next.tripDayId,
+          activityId: next.id,
+          otherActivityId: current.id,
+          message: `Getting from ${current.location} to ${next.location} takes about ${Math.round(needed / 60)} min; only ${Math.round(gapSeconds / 60)} min are planned.`,
+          minutes: shortBy,
+        });
+      }
+    }
+  }
+
+  for (const activity of timed) {
+    const periods = readOpeningPeriods(activity.metadata);
+    if (!periods?.length) continue;
+    const outside = minutesOutsideOpeningHours(activity, periods, timeZone);
+    if (outside > 0) {
+      conflicts.push({
+        kind: "opening_hours",
+        dayId: activity.tripDayId,
+        activityId: activity.id,
+        otherActivityId: null,
+        message: `"${activity.title}" is planned outside its opening hours.`,
+        minutes: outside,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+// Validates the day an activity was just saved to, after its travel legs have been refreshed, and returns the
+// conflicts that involve that activity.
+export async function validateActivitySchedule(dayId: string, activityId: string) {
+  const day = await prisma.tripDay.findUnique({
+    where: { id: dayId },
+    include: { activities: { where: { deletedAt: null } }, travelSegments: true },
+  });
+  if (!day) return [];
+
+  return findScheduleConflicts(day.activities, day.timezone, travelSecondsFromLegs(day.travelSegments)).filter(
+    (conflict) => conflict.activityId === activityId || conflict.otherActivityId === activityId,
+  );
+}
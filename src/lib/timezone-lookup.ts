@@ -0,0 +1,12 @@
+import tzLookup from "@photostructure/tz-lookup";
+
+// Offline timezone boundary lookup so day zones never depend on an extra Maps API call. Returns null when the
+// coordinates are missing or out of range.
+export function timeZoneForCoordinates(latitude?: number | null, longitude?: number | null) {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) return null;
+  try {
+    return tzLookup(latitude, longitude);
+  } catch {
+    return null;
+  }
+}
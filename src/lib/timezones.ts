@@ -0,0 +1,123 @@
+// Activity times are stored as real instants. Each TripDay carries the IANA zone of its city, and wall-clock
+// times ("09:30" on the day's date) are converted through that zone on the way in and out. Days without a zone
+// fall back to UTC, which matches how times were stored before zones existed.
+// Everything here uses Intl only, so it is safe to import from client components.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveZone(timeZone?: string | null) {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+function zoneParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number.parseInt(part.value, 10);
+  }
+  return parts;
+}
+
+// Minutes to add to UTC to get local time at `instant` (e.g. +120 for Paris in summer).
+function zoneOffsetMinutes(instant: Date, timeZone: string) {
+  const parts = zoneParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+// Converts a wall-clock date + time in `timeZone` to an instant. Times repeated when clocks fall back resolve
+// to the first occurrence; times skipped when clocks spring forward move forward by the gap (02:30 -> 03:30).
+export function zonedTimeToUtc(date: string, time: string, timeZone?: string | null) {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const timeMatch = time.match(/^(\d{2}):(\d{2})$/);
+  if (!dateMatch || !timeMatch) return null;
+  const [, year, month, day] = dateMatch.map(Number);
+  const [, hours, minutes] = timeMatch.map(Number);
+  if (hours > 23 || minutes > 59) return null;
+
+  const zone = resolveZone(timeZone);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  if (Number.isNaN(guess)) return null;
+  // Offsets a day either side bracket any DST transition on this date.
+  const offsetBefore = zoneOffsetMinutes(new Date(guess - DAY_MS), zone);
+  const offsetAfter = zoneOffsetMinutes(new Date(guess + DAY_MS), zone);
+  const wanted = `${dateMatch[0]} ${time}`;
+  const matches = [guess - offsetBefore * 60000, guess - offsetAfter * 60000].filter((candidate) => {
+    const local = wallClockInZone(new Date(candidate), zone);
+    return `${local.date} ${local.time}` === wanted;
+  });
+  return new Date(matches.length ? Math.min(...matches) : guess - offsetBefore * 60000);
+}
+
+// Builds an instant from a TripDay date (stored at noon UTC) and an "HH:MM" time in the day's zone.
+export function combineDateWithTime(dateValue: string | Date, time: string, timeZone?: string | null) {
+  const base = new Date(dateValue);
+  if (Number.isNaN(base.valueOf())) return null;
+  return zonedTimeToUtc(base.toISOString().slice(0, 10), time, timeZone);
+}
+
+export function wallClockInZone(instant: Date | string, timeZone?: string | null) {
+  const parts = zoneParts(new Date(instant), resolveZone(timeZone));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
+
+export function formatTimeInZone(instant: Date | string, timeZone?: string | null) {
+  return wallClockInZone(instant, timeZone).time;
+}
+
+// Moves an instant by whole calendar days in its zone, so 09:00 stays 09:00 even across a DST change.
+export function shiftWallClock(instant: Date, deltaDays: number, timeZone?: string | null) {
+  const local = wallClockInZone(instant, timeZone);
+  const date = new Date(Date.parse(`${local.date}T12:00:00Z`) + deltaDays * DAY_MS).toISOString().slice(0, 10);
+  return zonedTimeToUtc(date, local.time, timeZone) ?? new Date(instant.getTime() + deltaDays * DAY_MS);
+}
+
+// Re-reads an instant's wall-clock time in a different zone, e.g. when a day's city (and zone) changes and its
+// 09:00 breakfast should stay at 09:00 local.
+export function convertWallClock(instant: Date, fromZone?: string | null, toZone?: string | null) {
+  const local = wallClockInZone(instant, fromZone);
+  return zonedTimeToUtc(local.date, local.time, toZone) ?? instant;
+}
+
+// Short label such as "GMT+2" for showing next to times when a trip spans zones.
+export function timeZoneLabel(timeZone?: string | null, at: Date = new Date()) {
+  const zone = resolveZone(timeZone);
+  const label = new Intl.DateTimeFormat("en-US", { timeZone: zone, timeZoneName: "short" })
+    .formatToParts(at)
+    .find((part) => part.type === "timeZoneName");
+  return label?.value ?? zone;
+}
@@ -0,0 +1,37 @@
+import { serverEnv } from "@/lib/env";
+import { prisma } from "@/lib/prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashRetentionDays() {
+  const days = serverEnv.TRASH_RETENTION_DAYS;
+  return Number.isFinite(days) && days > 0 ? days : 30;
+}
+
+export function purgeAfter(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + trashRetentionDays() * DAY_MS);
+}
+
+// Permanently removes rows that have sat in the trash past the retention window. Children go first so the
+// counts reflect what was explicitly trashed; cascades clean up anything still attached to a purged parent.
+// Expired maps lookups go too, except hotel search pages, which stay as the fallback for a failing provider.
+export async function purgeExpiredTrash(now = new Date()) {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * DAY_MS);
+
+  const activities = await prisma.activity.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  const hotels = await prisma.hotel.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  const days = await prisma.tripDay.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  const trips = await prisma.trip.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+  const cacheEntries = await prisma.placeCache.deleteMany({
+    where: { expiresAt: { lt: now }, kind: { not: "hotels" } },
+  });
+
+  return {
+    cutoff,
+    trips: trips.count,
+    days: days.count,
+    activities: activities.count,
+    hotels: hotels.count,
+    cacheEntries: cacheEntries.count,
+  };
+}
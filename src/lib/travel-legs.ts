@@ -0,0 +1,101 @@
+import type { Prisma, TravelMode, TravelSegment } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { fetchTravelMetadata } from "@/lib/travel";
+
+// Travel legs between consecutive timed activities of a day (previous location -> next location), stored as
+// TravelSegment rows linked to both activities. A leg is only looked up again when its endpoints change, and
+// hand-entered segments (no activity links) are never touched.
+
+const normalizePlace = (value: string) => value.trim().toLowerCase();
+
+// Directions (or the flight/boat estimate) for one leg, in TravelSegment's units. routeKey/cachedAt are stored
+// with the leg so it serves as the Directions cache for the same route later.
+export async function fetchLegTravel(from: string, to: string, mode: TravelMode) {
+  const result = await fetchTravelMetadata(from, to, mode);
+  if (!result) return null;
+  return {
+    distanceKm: result.distanceMeters !== null ? result.distanceMeters / 1000 : null,
+    durationMinutes: result.durationSeconds !== null ? Math.round(result.durationSeconds / 60) : null,
+    summary: result.summary,
+    polyline: result.polyline,
+    routeKey: result.routeKey,
+    cachedAt: result.cachedAt,
+  };
+}
+
+// A leg keeps the mode it was given; new legs default to how the traveller reaches the next activity
+// (its own travel mode), then to driving.
+export async function syncDayTravelLegs(dayId: string) {
+  const [activities, existing] = await Promise.all([
+    prisma.activity.findMany({
+      where: { tripDayId: dayId, deletedAt: null, startTime: { not: null } },
+      orderBy: { startTime: "asc" },
+      select: { id: true, location: true, travelMode: true },
+    }),
+    prisma.travelSegment.findMany({ where: { tripDayId: dayId, fromActivityId: { not: null } } }),
+  ]);
+
+  const kept = new Set<string>();
+  const created: Prisma.TravelSegmentCreateManyInput[] = [];
+  for (let index = 0; index < activities.length - 1; index += 1) {
+    const from = activities[index];
+    const to = activities[index + 1];
+    if (!from.location || !to.location || normalizePlace(from.location) === normalizePlace(to.location)) continue;
+
+    const previous = existing.find((segment) => segment.fromActivityId === from.id && segment.toActivityId === to.id);
+    if (previous && previous.fromCity === from.location && previous.toCity === to.location) {
+      kept.add(previous.id);
+      continue;
+    }
+    const mode = previous?.mode ?? to.travelMode ?? "car";
+
+    // Reordering reuses a leg already computed for the same places and mode instead of asking Google again.
+    const samePlaces = existing.find(
+      (segment) => segment.fromCity === from.location && segment.toCity === to.location && segment.mode === mode,
+    );
+    const travel = samePlaces
+      ? {
+          distanceKm: samePlaces.distanceKm,
+          durationMinutes: samePlaces.durationMinutes,
+          summary: samePlaces.summary,
+          polyline: samePlaces.polyline,
+          routeKey: samePlaces.routeKey,
+          cachedAt: samePlaces.cachedAt,
+        }
+      : await fetchLegTravel(from.location, to.location, mode);
+    if (!travel) continue;
+
+    created.push({
+      tripDayId: dayId,
+      fromActivityId: from.id,
+      toActivityId: to.id,
+      fromCity: from.location,
+      toCity: to.location,
+      mode,
+      ...travel,
+    });
+  }
+
+  const stale = existing.filter((segment) => !kept.has(segment.id)).map((segment) => segment.id);
+  await prisma.$transaction([
+    prisma.travelSegment.deleteMany({ where: { id: { in: stale } } }),
+    prisma.travelSegment.createMany({ data: created }),
+  ]);
+
+  return prisma.travelSegment.findMany({ where: { tripDayId: dayId }, orderBy: { createdAt: "asc" } });
+}
+
+// Refreshes the legs of every day an edit touched and returns them by day id for the response. Best-effort like
+// audit writes: a Directions failure is logged and never fails the edit itself.
+export async function refreshTravelLegs(dayIds: Array<string | null | undefined>) {
+  const legs: Record<string, TravelSegment[]> = {};
+  for (const dayId of new Set(dayIds.filter((id): id is string => Boolean(id)))) {
+    try {
+      legs[dayId] = await syncDayTravelLegs(dayId);
+    } catch (error) {
+      console.error("Failed to refresh travel legs", error);
+    }
+  }
+  return legs;
+}
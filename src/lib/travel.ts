@@ -1,46 +1,90 @@
-import { serverEnv } from "@/lib/env";
+import type { TravelMode } from "@prisma/client";
+
+import { getMapsProvider } from "@/lib/maps";
+import { cacheRoute, cachedGeocode, findCachedRoute, routeCacheKey } from "@/lib/maps-cache";
+import type { MapsProvider } from "@/lib/maps-provider";
+import { MapsLookupError } from "@/lib/maps-provider";
 
 type TravelMetadata = {
+  mode: TravelMode;
   distanceMeters: number | null;
   durationSeconds: number | null;
   summary: string | null;
   polyline: string | null;
 };
 
-export async function fetchTravelMetadata(origin?: string | null, destination?: string | null) {
-  if (!origin || !destination) return null;
-  if (!serverEnv.GOOGLE_MAPS_API_KEY) return null;
-
-  const params = new URLSearchParams({
-    origin,
-    destination,
-    mode: "driving",
-    key: serverEnv.GOOGLE_MAPS_API_KEY,
-  });
-
-  const response = await fetch(`https://maps.googleapis.com/maps/api/directions/json?${params.toString()}`, {
-    cache: "no-store",
-  });
-
-  if (!response.ok) {
-    console.error("Directions request failed", await response.text());
-    return null;
-  }
+// `cachedAt` is when the route was actually looked up (earlier than now on a cache hit); legs store it with
+// `routeKey` so they can serve later lookups.
+export type CachedTravelMetadata = TravelMetadata & { routeKey: string; cachedAt: Date };
 
-  const data = await response.json();
-  if (data.status !== "OK") {
-    console.warn("Directions status", data.status, data.error_message);
-    return null;
-  }
+export const TRAVEL_MODES = ["car", "walk", "transit", "train", "flight", "boat"] as const satisfies readonly TravelMode[];
+
+// Ground modes go through the maps provider's directions. Flights and boats have no route there, so they get a
+// great-circle estimate between the geocoded endpoints: cruising speed plus a fixed allowance for boarding and taxiing.
+const GREAT_CIRCLE_MODES: Partial<Record<TravelMode, { label: string; kmPerHour: number; overheadMinutes: number }>> = {
+  flight: { label: "flight", kmPerHour: 750, overheadMinutes: 40 },
+  boat: { label: "boat", kmPerHour: 30, overheadMinutes: 15 },
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+export function greatCircleKm(from: { lat: number; lng: number }, to: { lat: number; lng: number }) {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
 
-  const route = data.routes?.[0];
-  const leg = route?.legs?.[0];
-  if (!route || !leg) return null;
+function formatDuration(seconds: number) {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (!hours) return `${minutes} mins`;
+  return minutes % 60 ? `${hours} h ${minutes % 60} mins` : `${hours} h`;
+}
+
+async function estimateGreatCircle(maps: MapsProvider, origin: string, destination: string, mode: TravelMode) {
+  const profile = GREAT_CIRCLE_MODES[mode]!;
+  const [from, to] = await Promise.all([cachedGeocode(maps, origin), cachedGeocode(maps, destination)]);
+  if (!from || !to) return null;
 
+  const km = greatCircleKm(from, to);
+  const durationSeconds = Math.round((profile.overheadMinutes + (km / profile.kmPerHour) * 60) * 60);
   return {
-    distanceMeters: leg.distance?.value ?? null,
-    durationSeconds: leg.duration?.value ?? null,
-    summary: [leg.duration?.text, leg.distance?.text].filter(Boolean).join(" • ") || null,
-    polyline: route.overview_polyline?.points ?? null,
+    mode,
+    distanceMeters: Math.round(km * 1000),
+    durationSeconds,
+    summary: `~${formatDuration(durationSeconds)} ${profile.label} • ${Math.round(km).toLocaleString("en-US")} km (estimate)`,
+    polyline: null,
   } satisfies TravelMetadata;
 }
+
+export async function fetchTravelMetadata(
+  origin?: string | null,
+  destination?: string | null,
+  mode: TravelMode = "car",
+): Promise<CachedTravelMetadata | null> {
+  if (!origin || !destination) return null;
+
+  const maps = getMapsProvider();
+  if (!maps) return null;
+
+  const routeKey = routeCacheKey(maps.name, origin, destination, mode);
+  const cached = await findCachedRoute(routeKey);
+  if (cached) return { mode, ...cached, routeKey };
+
+  try {
+    const travel = GREAT_CIRCLE_MODES[mode]
+      ? await estimateGreatCircle(maps, origin, destination, mode)
+      : await maps.directions(origin, destination, mode);
+    if (!travel) return null;
+    const result: CachedTravelMetadata = { mode, ...travel, routeKey, cachedAt: new Date() };
+    await cacheRoute(routeKey, result);
+    return result;
+  } catch (error) {
+    // Travel metadata is optional on every write, so upstream failures (already logged) just leave it empty.
+    if (error instanceof MapsLookupError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import type { CollaboratorRole, Prisma, Trip, TripCollaborator, User } from "@prisma/client";
+
+import { AuthError } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export type TripRole = "owner" | CollaboratorRole;
+
+const roleRank: Record<TripRole, number> = {
+  viewer: 0,
+  editor: 1,
+  co_owner: 2,
+  owner: 3,
+};
+
+const forbiddenMessages: Record<TripRole, string> = {
+  viewer: "You do not have access to this trip.",
+  editor: "This trip is shared with you as view-only.",
+  co_owner: "Only the owner or a co-owner can manage sharing for this trip.",
+  owner: "Only the trip owner can do that.",
+};
+
+type TripWithCollaborators = Pick<Trip, "userId"> & {
+  collaborators?: Array<Pick<TripCollaborator, "email" | "role">>;
+};
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function resolveTripRole(trip: TripWithCollaborators, account: Pick<User, "id" | "email">): TripRole | null {
+  if (trip.userId === account.id) return "owner";
+  const email = normalizeEmail(account.email);
+  const match = trip.collaborators?.find((collaborator) => normalizeEmail(collaborator.email) === email);
+  return match?.role ?? null;
+}
+
+export function hasTripRole(role: TripRole | null, required: TripRole) {
+  return role !== null && roleRank[role] >= roleRank[required];
+}
+
+// Saved templates are trips too, but they only show up in the template picker, not the trip list.
+export function accessibleTripsFilter(account: Pick<User, "id" | "email">): Prisma.TripWhereInput {
+  return {
+    deletedAt: null,
+    isTemplate: false,
+    OR: [{ userId: account.id }, { collaborators: { some: { email: normalizeEmail(account.email) } } }],
+  };
+}
+
+// Loads a trip and checks the caller's role against the minimum required for the action.
+// Missing trips and trips the caller cannot see both surface as 404 so ids are not leaked. Trips in the trash
+// are treated as missing unless the caller is restoring them.
+export async function requireTripAccess(
+  account: User,
+  tripId: string,
+  required: TripRole = "viewer",
+  options: { includeDeleted?: boolean } = {},
+) {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: { collaborators: { where: { email: normalizeEmail(account.email) } } },
+  });
+  const role = trip ? resolveTripRole(trip, account) : null;
+  if (!trip || !role || (trip.deletedAt && !options.includeDeleted)) {
+    throw new AuthError(404, "Trip not found");
+  }
+  if (!hasTripRole(role, required)) {
+    throw new AuthError(403, forbiddenMessages[required]);
+  }
+  return { trip, role };
+}
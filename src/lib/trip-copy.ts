@@ -0,0 +1,148 @@
+import { Prisma } from "@prisma/client";
+import type { Trip, User } from "@prisma/client";
+
+import { shiftWallClock } from "@/lib/timezones";
+import { addDaysUtc, daysBetween, toNoonUtc } from "@/lib/trip-days";
+
+export type TripCopyOptions = {
+  title: string;
+  startDate?: Date | null;
+  stripTimes?: boolean;
+  stripBudgets?: boolean;
+  asTemplate?: boolean;
+  templateName?: string | null;
+};
+
+function copyJson(value: Prisma.JsonValue | null) {
+  return value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+// Deep-copies the live days of a trip (with their activities, hotels, and travel legs) into a new trip owned by
+// `owner`. Everything is re-based so the first day lands on `startDate`; collaborators, sharing, and trashed rows
+// stay behind.
+export async function copyTrip(
+  tx: Prisma.TransactionClient,
+  source: Pick<Trip, "id" | "description" | "homeCity" | "startDate" | "endDate" | "profile" | "profileId">,
+  owner: Pick<User, "id">,
+  options: TripCopyOptions,
+) {
+  const days = await tx.tripDay.findMany({
+    where: { tripId: source.id, deletedAt: null },
+    orderBy: { date: "asc" },
+    include: {
+      activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+      hotels: { where: { deletedAt: null } },
+      travelSegments: true,
+    },
+  });
+
+  const anchor = source.startDate ?? days[0]?.date ?? null;
+  const delta = anchor && options.startDate ? daysBetween(anchor, options.startDate) : 0;
+  const shift = (date: Date | null) => (date ? addDaysUtc(date, delta) : null);
+
+  const trip = await tx.trip.create({
+    data: {
+      userId: owner.id,
+      title: options.title,
+      description: source.description,
+      homeCity: source.homeCity,
+      startDate: source.startDate ? toNoonUtc(shift(source.startDate)!) : null,
+      endDate: source.endDate ? toNoonUtc(shift(source.endDate)!) : null,
+      profile: copyJson(source.profile),
+      profileId: source.profileId,
+      isTemplate: Boolean(options.asTemplate),
+      templateName: options.asTemplate ? options.templateName || options.title : null,
+    },
+  });
+
+  for (const day of days) {
+    const shiftTime = (date: Date | null) => (date ? shiftWallClock(date, delta, day.timezone) : null);
+    const copiedDay = await tx.tripDay.create({
+      data: {
+        tripId: trip.id,
+        date: toNoonUtc(shift(day.date)!),
+        city: day.city,
+        cityPlaceId: day.cityPlaceId,
+        cityLatitude: day.cityLatitude,
+        cityLongitude: day.cityLongitude,
+        timezone: day.timezone,
+        notes: day.notes,
+        notesPrivate: day.notesPrivate,
+        hotels: {
+          create: day.hotels.map((hotel) => ({
+            name: hotel.name,
+            providerId: hotel.providerId,
+            pricePerNight: options.stripBudgets ? null : hotel.pricePerNight,
+            currency: hotel.currency,
+            rating: hotel.rating,
+            priceLevel: hotel.priceLevel,
+            address: hotel.address,
+            latitude: hotel.latitude,
+            longitude: hotel.longitude,
+            metadata: copyJson(hotel.metadata),
+            // Stays keep their nights even when activity times are stripped.
+            checkIn: shiftTime(hotel.checkIn)!,
+            checkOut: shiftTime(hotel.checkOut)!,
+          })),
+        },
+      },
+    });
+
+    // Activities are created one by one so travel legs between them can point at the copies.
+    const copiedActivityIds = new Map<string, string>();
+    for (const activity of day.activities) {
+      const copiedActivity = await tx.activity.create({
+        data: {
+          tripDayId: copiedDay.id,
+          title: activity.title,
+          type: activity.type,
+          description: activity.description,
+          location: activity.location,
+          startLocation: activity.startLocation,
+          source: activity.source,
+          startTime: options.stripTimes ? null : shiftTime(activity.startTime),
+          endTime: options.stripTimes ? null : shiftTime(activity.endTime),
+          metadata: copyJson(activity.metadata),
+          travelDistanceMeters: activity.travelDistanceMeters,
+          travelDurationSeconds: activity.travelDurationSeconds,
+          travelSummary: activity.travelSummary,
+          travelPolyline: activity.travelPolyline,
+          travelMode: activity.travelMode,
+          budget: options.stripBudgets ? null : activity.budget,
+          notesPrivate: activity.notesPrivate,
+        },
+      });
+      copiedActivityIds.set(activity.id, copiedActivity.id);
+    }
+
+    // Legs between activities only make sense while the activities keep their order, i.e. when times are kept.
+    const segments = day.travelSegments.filter(
+      (segment) =>
+        !segment.fromActivityId ||
+        (!options.stripTimes &&
+          copiedActivityIds.has(segment.fromActivityId) &&
+          copiedActivityIds.has(segment.toActivityId ?? "")),
+    );
+    if (segments.length) {
+      await tx.travelSegment.createMany({
+        data: segments.map((segment) => ({
+          tripDayId: copiedDay.id,
+          fromActivityId: segment.fromActivityId ? copiedActivityIds.get(segment.fromActivityId) : null,
+          toActivityId: segment.toActivityId ? copiedActivityIds.get(segment.toActivityId) : null,
+          fromCity: segment.fromCity,
+          toCity: segment.toCity,
+          mode: segment.mode,
+          distanceKm: segment.distanceKm,
+          durationMinutes: segment.durationMinutes,
+          summary: segment.summary,
+          polyline: segment.polyline,
+          routeKey: segment.routeKey,
+          cachedAt: segment.cachedAt,
+          warnings: copyJson(segment.warnings),
+        })),
+      });
+    }
+  }
+
+  return trip;
+}
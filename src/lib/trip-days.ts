@@ -0,0 +1,184 @@
+import type { Prisma, TripDay } from "@prisma/client";
+
+import { ignoreStaleWrite } from "@/lib/concurrency";
+import { convertWallClock, shiftWallClock } from "@/lib/timezones";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest date range a trip may span. Every date is a TripDay row, created one by one inside the write's
+// transaction, so those transactions also get a longer timeout than Prisma's default 5 s.
+export const MAX_TRIP_DAYS = 366;
+export const TRIP_DAYS_TRANSACTION_TIMEOUT_MS = 30_000;
+
+export function toNoonUtc(date: Date) {
+  const copy = new Date(date);
+  copy.setUTCHours(12, 0, 0, 0);
+  return copy;
+}
+
+export function addDaysUtc(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function daysBetween(from: Date, to: Date) {
+  return Math.round((toNoonUtc(to).getTime() - toNoonUtc(from).getTime()) / DAY_MS);
+}
+
+export function dateKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Rewrites the times of everything anchored to a day: its activities and the hotel stays checking in on it.
+async function rewriteDayTimes(
+  tx: Prisma.TransactionClient,
+  dayId: string,
+  rewrite: (value: Date) => Date,
+) {
+  const [activities, hotels] = await Promise.all([
+    tx.activity.findMany({
+      where: { tripDayId: dayId },
+      select: { id: true, startTime: true, endTime: true },
+    }),
+    tx.hotel.findMany({ where: { tripDayId: dayId }, select: { id: true, checkIn: true, checkOut: true } }),
+  ]);
+  for (const activity of activities) {
+    if (!activity.startTime && !activity.endTime) continue;
+    await tx.activity.update({
+      where: { id: activity.id },
+      data: {
+        startTime: activity.startTime ? rewrite(activity.startTime) : undefined,
+        endTime: activity.endTime ? rewrite(activity.endTime) : undefined,
+        version: { increment: 1 },
+      },
+    });
+  }
+  for (const hotel of hotels) {
+    await tx.hotel.update({
+      where: { id: hotel.id },
+      data: { checkIn: rewrite(hotel.checkIn), checkOut: rewrite(hotel.checkOut), version: { increment: 1 } },
+    });
+  }
+}
+
+// Shifts an activity's times by whole days so it keeps its wall-clock slot on the day it moves with.
+async function shiftDayActivities(
+  tx: Prisma.TransactionClient,
+  day: Pick<TripDay, "id" | "timezone">,
+  deltaDays: number,
+) {
+  if (!deltaDays) return;
+  await rewriteDayTimes(tx, day.id, (value) => shiftWallClock(value, deltaDays, day.timezone));
+}
+
+// Keeps activity wall-clock times when a day's zone changes (a 09:00 museum slot stays 09:00 local).
+export async function rezoneDayActivities(
+  tx: Prisma.TransactionClient,
+  dayId: string,
+  fromZone: string | null,
+  toZone: string | null,
+) {
+  if ((fromZone ?? null) === (toZone ?? null)) return;
+  await rewriteDayTimes(tx, dayId, (value) => convertWallClock(value, fromZone, toZone));
+}
+
+export async function moveDayToDate(
+  tx: Prisma.TransactionClient,
+  day: Pick<TripDay, "id" | "date" | "timezone">,
+  date: Date,
+) {
+  const target = toNoonUtc(date);
+  const delta = daysBetween(day.date, target);
+  await shiftDayActivities(tx, day, delta);
+  return tx.tripDay.update({
+    where: { id: day.id },
+    data: { date: target, version: { increment: 1 } },
+  });
+}
+
+// Moves the whole trip (dates, every day, and the activities on them) by `deltaDays`. Trashed days move too so
+// restoring one later puts it back in the right place relative to the rest of the trip. The trip is only
+// updated if it is still at `trip.version`; otherwise nothing moves and null is returned.
+export async function shiftTrip(
+  tx: Prisma.TransactionClient,
+  trip: { id: string; version: number; startDate: Date | null; endDate: Date | null },
+  deltaDays: number,
+) {
+  const shifted = await tx.trip
+    .update({
+      where: { id: trip.id, version: trip.version },
+      data: {
+        startDate: trip.startDate ? addDaysUtc(trip.startDate, deltaDays) : null,
+        endDate: trip.endDate ? addDaysUtc(trip.endDate, deltaDays) : null,
+        version: { increment: 1 },
+      },
+    })
+    .catch(ignoreStaleWrite);
+  if (!shifted) return null;
+  const days = await tx.tripDay.findMany({
+    where: { tripId: trip.id },
+    select: { id: true, date: true, timezone: true },
+  });
+  for (const day of days) {
+    await shiftDayActivities(tx, day, deltaDays);
+    await tx.tripDay.update({
+      where: { id: day.id },
+      data: { date: addDaysUtc(day.date, deltaDays), version: { increment: 1 } },
+    });
+  }
+  return shifted;
+}
+
+// Brings the live days in line with a new start/end range: days that fall outside move to the trash (so a
+// mis-typed date is recoverable) and any missing dates get a new day in the city (and zone) of the closest
+// earlier day, or the trip's home city (left blank when it has none) before the first. Callers keep the range
+// within MAX_TRIP_DAYS.
+export async function syncTripDayRange(
+  tx: Prisma.TransactionClient,
+  trip: { id: string; homeCity: string | null },
+  startDate: Date,
+  endDate: Date,
+) {
+  const rangeStart = toNoonUtc(startDate);
+  const rangeEnd = toNoonUtc(endDate);
+  const days = await tx.tripDay.findMany({
+    where: { tripId: trip.id, deletedAt: null },
+    orderBy: { date: "asc" },
+  });
+
+  const outside = days.filter((day) => day.date < rangeStart || day.date > rangeEnd);
+  if (outside.length) {
+    await tx.tripDay.updateMany({
+      where: { id: { in: outside.map((day) => day.id) } },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  const kept = days.filter((day) => !outside.includes(day));
+  const existingDates = new Set(kept.map((day) => dateKey(day.date)));
+  const created: TripDay[] = [];
+  // `kept` is in date order, so the closest earlier day is tracked while walking the range.
+  let previous: TripDay | undefined;
+  let keptIndex = 0;
+  for (let cursor = rangeStart; cursor <= rangeEnd; cursor = addDaysUtc(cursor, 1)) {
+    while (keptIndex < kept.length && kept[keptIndex].date < cursor) previous = kept[keptIndex++];
+    if (existingDates.has(dateKey(cursor))) continue;
+    const template = previous ?? kept[0];
+    const day = await tx.tripDay.create({
+      data: template
+        ? {
+            tripId: trip.id,
+            date: cursor,
+            city: template.city,
+            cityPlaceId: template.cityPlaceId,
+            cityLatitude: template.cityLatitude,
+            cityLongitude: template.cityLongitude,
+            timezone: template.timezone,
+          }
+        : { tripId: trip.id, date: cursor, city: trip.homeCity ?? "" },
+    });
+    created.push(day);
+    previous = day;
+  }
+
+  return { trashed: outside, created };
+}
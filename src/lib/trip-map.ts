@@ -0,0 +1,110 @@
+import { getMapsProvider } from "@/lib/maps";
+import { cachedGeocode, normalizeCacheText } from "@/lib/maps-cache";
+import { prisma } from "@/lib/prisma";
+
+// Everything the trip map draws: day cities, activity pins and the stored route polylines (an activity's own
+// start -> location route and the legs between activities). Activity coordinates come from metadata when the
+// place was picked with coordinates, otherwise from the cached geocode of its `location`.
+
+export type TripMapDay = {
+  id: string;
+  date: string;
+  city: string;
+  lat: number | null;
+  lng: number | null;
+};
+
+export type TripMapPin = {
+  activityId: string;
+  dayId: string;
+  title: string;
+  location: string;
+  startTime: string | null;
+  lat: number;
+  lng: number;
+};
+
+export type TripMapRoute = {
+  id: string;
+  dayId: string;
+  kind: "activity" | "leg";
+  polyline: string;
+};
+
+function metadataCoordinates(metadata: unknown) {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) return null;
+  const { lat, lng } = metadata as Record<string, unknown>;
+  return typeof lat === "number" && typeof lng === "number" ? { lat, lng } : null;
+}
+
+export async function buildTripMap(tripId: string) {
+  const days = await prisma.tripDay.findMany({
+    where: { tripId, deletedAt: null },
+    orderBy: { date: "asc" },
+    include: {
+      activities: { where: { deletedAt: null }, orderBy: { startTime: "asc" } },
+      travelSegments: { where: { polyline: { not: null } } },
+    },
+  });
+
+  // One geocode per distinct place; most trips repeat hotels and stations across days.
+  const maps = getMapsProvider();
+  const places = new Map<string, Promise<{ lat: number; lng: number } | null>>();
+  const locate = (location: string) => {
+    const key = normalizeCacheText(location);
+    if (!places.has(key)) {
+      places.set(key, maps ? cachedGeocode(maps, location).catch(() => null) : Promise.resolve(null));
+    }
+    return places.get(key)!;
+  };
+
+  const pins = await Promise.all(
+    days.flatMap((day) =>
+      day.activities
+        .filter((activity) => activity.location)
+        .map(async (activity): Promise<TripMapPin | null> => {
+          const point = metadataCoordinates(activity.metadata) ?? (await locate(activity.location!));
+          if (!point) return null;
+          return {
+            activityId: activity.id,
+            dayId: day.id,
+            title: activity.title,
+            location: activity.location!,
+            startTime: activity.startTime?.toISOString() ?? null,
+            ...point,
+          };
+        }),
+    ),
+  );
+
+  const routes: TripMapRoute[] = days.flatMap((day) => [
+    ...day.activities
+      .filter((activity) => activity.travelPolyline)
+      .map((activity) => ({
+        id: activity.id,
+        dayId: day.id,
+        kind: "activity" as const,
+        polyline: activity.travelPolyline!,
+      })),
+    ...day.travelSegments.map((segment) => ({
+      id: segment.id,
+      dayId: day.id,
+      kind: "leg" as const,
+      polyline: segment.polyline!,
+    })),
+  ]);
+
+  return {
+    days: days.map(
+      (day): TripMapDay => ({
+        id: day.id,
+        date: day.date.toISOString(),
+        city: day.city,
+        lat: day.cityLatitude,
+        lng: day.cityLongitude,
+      }),
+    ),
+    pins: pins.filter((pin): pin is TripMapPin => pin !== null),
+    routes,
+  };
+}